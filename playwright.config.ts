@@ -78,5 +78,7 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    // Serve the API from src/mocks so e2e runs don't need a backend
+    env: { VITE_ENABLE_MOCK_API: 'true' },
   },
 });
@@ -0,0 +1,29 @@
+import { Routes, Route } from 'react-router-dom';
+import { RouteGuard } from '@/components/RouteGuard';
+import { routes } from '@/config/routes';
+import { AppLayout } from '@/layouts/AppLayout';
+
+export function AppRoutes() {
+  return (
+    <Routes>
+      {routes.map(route => {
+        const Component = route.component;
+        const page = (
+          <RouteGuard route={route}>
+            <Component />
+          </RouteGuard>
+        );
+
+        return (
+          <Route
+            key={route.path}
+            path={route.path}
+            element={
+              route.withLayout === false ? page : <AppLayout>{page}</AppLayout>
+            }
+          />
+        );
+      })}
+    </Routes>
+  );
+}
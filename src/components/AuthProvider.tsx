@@ -0,0 +1,145 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { env } from '@/config/env';
+import { HTTP_STATUS } from '@/constants';
+import { AuthContext, AuthContextValue } from '@/contexts/AuthContext';
+import { apiClient, ApiClientError } from '@/services/api';
+import { authService } from '@/services/auth';
+import { notificationCenter } from '@/services/notificationCenter';
+import { offlineQueue } from '@/services/offlineQueue';
+import { preferencesStore } from '@/services/preferences';
+import { queryCache } from '@/services/queryCache';
+import { realtime } from '@/services/realtime';
+import { tokenStorage } from '@/services/tokenStorage';
+import { LoginCredentials, RegisterData, User } from '@/types';
+
+// Only the server turning the session down ends it; network errors and
+// outages leave the tokens for a retry
+const isSessionRejected = (error: unknown) =>
+  error instanceof ApiClientError &&
+  (error.status === HTTP_STATUS.UNAUTHORIZED ||
+    error.status === HTTP_STATUS.FORBIDDEN);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isInitializing, setIsInitializing] = useState(() =>
+    Boolean(tokenStorage.getAccessToken())
+  );
+  const [sessionError, setSessionError] = useState<Error | null>(null);
+
+  const refreshUser = useCallback(async (): Promise<User | null> => {
+    if (!tokenStorage.getAccessToken()) {
+      setUser(null);
+      return null;
+    }
+
+    try {
+      const profile = await authService.getProfile();
+      setSessionError(null);
+      setUser(profile);
+      return profile;
+    } catch (error) {
+      if (env.ENABLE_DEBUG) {
+        console.error('Failed to restore session:', error);
+      }
+      if (!isSessionRejected(error)) {
+        setSessionError(
+          error instanceof Error ? error : new Error(String(error))
+        );
+        return null;
+      }
+      setSessionError(null);
+      tokenStorage.clear();
+      // The preferences restored for this session belong to no one now
+      preferencesStore.stopSync();
+      setUser(null);
+      return null;
+    }
+  }, []);
+
+  // Restore the session from stored tokens on startup
+  useEffect(() => {
+    if (!tokenStorage.getAccessToken()) return;
+
+    refreshUser().finally(() => setIsInitializing(false));
+  }, [refreshUser]);
+
+  // Requests rejected even after a token refresh end the session
+  useEffect(() => {
+    apiClient.setSessionExpiredHandler(() => setUser(null));
+    return () => apiClient.setSessionExpiredHandler(null);
+  }, []);
+
+  // Follow the signed-in user's preferences across devices
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    preferencesStore.startSync(userId);
+    notificationCenter.startSync(userId);
+    if (env.ENABLE_REALTIME) realtime.connect();
+    if (env.ENABLE_OFFLINE_QUEUE) offlineQueue.setUser(userId).catch(() => {});
+    return () => {
+      preferencesStore.stopSync();
+      notificationCenter.stopSync();
+      realtime.disconnect();
+      if (env.ENABLE_OFFLINE_QUEUE) offlineQueue.setUser(null);
+      // Cached queries belong to the user who fetched them
+      queryCache.clear();
+    };
+  }, [userId]);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    const { user: loggedInUser, tokens } = await authService.login(credentials);
+    tokenStorage.setTokens(tokens, Boolean(credentials.rememberMe));
+    setUser(loggedInUser);
+    return loggedInUser;
+  }, []);
+
+  const register = useCallback(
+    async (data: RegisterData, rememberMe = false) => {
+      const { user: newUser, tokens } = await authService.register(data);
+      tokenStorage.setTokens(tokens, rememberMe);
+      setUser(newUser);
+      return newUser;
+    },
+    []
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await authService.logout();
+    } catch (error) {
+      // The local session is cleared regardless of the server response
+      if (env.ENABLE_DEBUG) {
+        console.error('Logout request failed:', error);
+      }
+    } finally {
+      tokenStorage.clear();
+      queryCache.clear();
+      // Changes queued while offline are sent only in the session that made them
+      if (env.ENABLE_OFFLINE_QUEUE) offlineQueue.clear().catch(() => {});
+      setUser(null);
+    }
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      user,
+      isAuthenticated: user !== null,
+      isInitializing,
+      sessionError,
+      login,
+      register,
+      logout,
+      refreshUser,
+      updateUser: setUser,
+    }),
+    [user, isInitializing, sessionError, login, register, logout, refreshUser]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
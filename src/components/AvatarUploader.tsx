@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Avatar,
+  Button,
+  FileButton,
+  Group,
+  List,
+  Stack,
+  Text,
+} from '@mantine/core';
+import { IconAlertTriangle, IconPhoto } from '@tabler/icons-react';
+import { AvatarImage } from '@/components/OptimizedImage';
+import { APP_CONSTANTS } from '@/constants';
+import { User } from '@/types';
+import { formatFileSize, getErrorMessage } from '@/utils';
+import {
+  compressImage,
+  cropImageToSquare,
+  getImageOptimizationTips,
+} from '@/utils/imageUtils';
+
+interface AvatarUploaderProps {
+  user: User;
+  // Uploads the processed image and resolves once it is saved
+  onUpload: (file: File) => Promise<void>;
+  size?: number;
+}
+
+interface PendingAvatar {
+  file: File;
+  previewUrl: string;
+  originalSize: number;
+  tips: string[];
+}
+
+// Avatars are stored at twice the largest size we display them at
+const AVATAR_RESOLUTION = 512;
+const AVATAR_QUALITY = 0.85;
+
+const prepareAvatar = async (file: File): Promise<PendingAvatar> => {
+  const cropped = await cropImageToSquare(file);
+  const blob = await compressImage(cropped, AVATAR_RESOLUTION, AVATAR_QUALITY);
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  const processed = new File([blob], name, { type: blob.type });
+  return {
+    file: processed,
+    previewUrl: URL.createObjectURL(processed),
+    originalSize: file.size,
+    tips: getImageOptimizationTips(file),
+  };
+};
+
+export function AvatarUploader({
+  user,
+  onUpload,
+  size = 96,
+}: AvatarUploaderProps) {
+  const [pending, setPending] = useState<PendingAvatar | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Release the preview once it is replaced or the component unmounts
+  useEffect(() => {
+    if (!pending) return;
+    return () => URL.revokeObjectURL(pending.previewUrl);
+  }, [pending]);
+
+  const handleSelect = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    setIsProcessing(true);
+    try {
+      setPending(await prepareAvatar(file));
+    } catch (processingError) {
+      setError(getErrorMessage(processingError));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!pending) return;
+    setError(null);
+    setIsUploading(true);
+    try {
+      await onUpload(pending.file);
+      setPending(null);
+    } catch (uploadError) {
+      setError(getErrorMessage(uploadError));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const fullName = `${user.firstName} ${user.lastName}`;
+  const src = pending?.previewUrl ?? user.avatar;
+
+  return (
+    <Stack gap='sm'>
+      <Group gap='lg' align='center'>
+        {src ? (
+          <AvatarImage
+            key={src}
+            src={src}
+            alt={fullName}
+            size={size}
+            priority
+          />
+        ) : (
+          <Avatar name={fullName} color='initials' size={size} />
+        )}
+
+        {pending ? (
+          <Stack gap='xs'>
+            <Text size='sm' c='dimmed'>
+              Cropped and compressed from {formatFileSize(pending.originalSize)}{' '}
+              to {formatFileSize(pending.file.size)}
+            </Text>
+            <Group gap='xs'>
+              <Button size='xs' loading={isUploading} onClick={handleSave}>
+                Save photo
+              </Button>
+              <Button
+                size='xs'
+                variant='default'
+                disabled={isUploading}
+                onClick={() => setPending(null)}
+              >
+                Cancel
+              </Button>
+            </Group>
+          </Stack>
+        ) : (
+          <FileButton
+            accept={APP_CONSTANTS.SUPPORTED_IMAGE_TYPES.join(',')}
+            onChange={handleSelect}
+          >
+            {props => (
+              <Button
+                {...props}
+                variant='default'
+                leftSection={<IconPhoto size={16} />}
+                loading={isProcessing}
+              >
+                Change photo
+              </Button>
+            )}
+          </FileButton>
+        )}
+      </Group>
+
+      {pending && pending.tips.length > 0 && (
+        <Stack gap={4}>
+          <Text size='xs' c='dimmed'>
+            For future uploads:
+          </Text>
+          <List size='xs' c='dimmed'>
+            {pending.tips.map(tip => (
+              <List.Item key={tip}>{tip}</List.Item>
+            ))}
+          </List>
+        </Stack>
+      )}
+
+      {error && (
+        <Alert
+          variant='light'
+          color='red'
+          icon={<IconAlertTriangle size={16} />}
+        >
+          {error}
+        </Alert>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,501 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Center,
+  Checkbox,
+  Group,
+  LoadingOverlay,
+  Pagination,
+  Select,
+  Table,
+  Text,
+  TextInput,
+  UnstyledButton,
+  useDirection,
+} from '@mantine/core';
+import {
+  IconChevronDown,
+  IconChevronUp,
+  IconSearch,
+  IconSelector,
+} from '@tabler/icons-react';
+import { APP_CONSTANTS } from '@/constants';
+import {
+  BaseComponentProps,
+  SortDirection,
+  TableColumn,
+  TableProps,
+} from '@/types';
+import {
+  filterRows,
+  getCellValue,
+  getVisibleRange,
+  sortRows,
+} from '@/utils/table';
+
+type DataTableProps<T> = TableProps<T> &
+  Pick<BaseComponentProps, 'className' | 'testId'>;
+
+type RowKey = string | number;
+
+const DEFAULT_ROW_HEIGHT = 44;
+const DEFAULT_VIRTUAL_HEIGHT = 600;
+// Unpaginated tables above this size only render the rows in view
+const VIRTUALIZE_THRESHOLD = 200;
+const MIN_COLUMN_WIDTH = 60;
+
+const columnId = <T,>(column: TableColumn<T>) => String(column.key);
+
+export function DataTable<T>({
+  data,
+  columns,
+  loading = false,
+  rowKey = 'id' as keyof T,
+  mode = 'client',
+  pagination,
+  onSort,
+  onFilter,
+  defaultSort,
+  selectable = false,
+  onSelectionChange,
+  bulkActions = [],
+  onRowClick,
+  height,
+  stickyHeader,
+  virtualized,
+  rowHeight = DEFAULT_ROW_HEIGHT,
+  emptyMessage = 'No records found',
+  className,
+  testId,
+}: DataTableProps<T>) {
+  const [sort, setSort] = useState<{
+    key: string;
+    direction: SortDirection;
+  } | null>(defaultSort ?? null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [selectedKeys, setSelectedKeys] = useState<Set<RowKey>>(new Set());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const getKey = useCallback(
+    (record: T): RowKey =>
+      typeof rowKey === 'function'
+        ? rowKey(record)
+        : (record[rowKey] as RowKey),
+    [rowKey]
+  );
+
+  // Client mode sorts and filters locally; server mode shows data as given
+  const isClient = mode === 'client';
+  const processed = useMemo(() => {
+    if (!isClient) return data;
+    const filtered = filterRows(data, columns, filters);
+    const sortColumn = sort
+      ? columns.find(column => columnId(column) === sort.key)
+      : undefined;
+    return sortColumn && sort
+      ? sortRows(filtered, sortColumn, sort.direction)
+      : filtered;
+  }, [isClient, data, columns, filters, sort]);
+
+  const rows = useMemo(() => {
+    if (!isClient || !pagination) return processed;
+    const { current, pageSize } = pagination;
+    return processed.slice((current - 1) * pageSize, current * pageSize);
+  }, [isClient, pagination, processed]);
+
+  const total = isClient ? processed.length : (pagination?.total ?? 0);
+
+  // Row windowing
+  const isVirtualized =
+    virtualized ?? (!pagination && rows.length > VIRTUALIZE_THRESHOLD);
+  const viewportHeight =
+    height ?? (isVirtualized ? DEFAULT_VIRTUAL_HEIGHT : undefined);
+  const range = isVirtualized
+    ? getVisibleRange(scrollTop, viewportHeight!, rowHeight, rows.length)
+    : { start: 0, end: rows.length };
+
+  // Selection
+  const updateSelection = (keys: Set<RowKey>) => {
+    setSelectedKeys(keys);
+    onSelectionChange?.(data.filter(record => keys.has(getKey(record))));
+  };
+
+  const selectedRecords = useMemo(
+    () => data.filter(record => selectedKeys.has(getKey(record))),
+    [data, selectedKeys, getKey]
+  );
+
+  // Drop selected rows that are no longer in the data, e.g. after a server
+  // side page change, so the count and the parent match what bulk actions
+  // receive
+  useEffect(() => {
+    const keys = new Set(data.map(getKey));
+    const kept = new Set([...selectedKeys].filter(key => keys.has(key)));
+    if (kept.size === selectedKeys.size) return;
+    setSelectedKeys(kept);
+    onSelectionChange?.(data.filter(record => kept.has(getKey(record))));
+  }, [data, getKey, selectedKeys, onSelectionChange]);
+
+  const selectableKeys = processed.map(getKey);
+  const allSelected =
+    selectableKeys.length > 0 &&
+    selectableKeys.every(key => selectedKeys.has(key));
+  const someSelected = selectableKeys.some(key => selectedKeys.has(key));
+
+  const toggleAll = () => {
+    const next = new Set(selectedKeys);
+    selectableKeys.forEach(key =>
+      allSelected ? next.delete(key) : next.add(key)
+    );
+    updateSelection(next);
+  };
+
+  const toggleRow = (key: RowKey) => {
+    const next = new Set(selectedKeys);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    updateSelection(next);
+  };
+
+  const runBulkAction = async (
+    label: string,
+    onClick: (records: T[]) => void | Promise<void>
+  ) => {
+    setPendingAction(label);
+    try {
+      await onClick(selectedRecords);
+      updateSelection(new Set());
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // Sorting and filtering
+  const goToFirstPage = () => {
+    if (pagination && pagination.current !== 1) {
+      pagination.onChange(1, pagination.pageSize);
+    }
+  };
+
+  const handleSort = (column: TableColumn<T>) => {
+    const key = columnId(column);
+    const direction: SortDirection =
+      sort?.key === key && sort.direction === 'asc' ? 'desc' : 'asc';
+    setSort({ key, direction });
+    onSort?.(key, direction);
+  };
+
+  const handleFilter = (column: TableColumn<T>, value: string) => {
+    const next = { ...filters, [columnId(column)]: value };
+    if (!value) delete next[columnId(column)];
+    setFilters(next);
+    onFilter?.(next);
+    goToFirstPage();
+  };
+
+  // Column resizing
+  const { dir } = useDirection();
+  const startResize =
+    (column: TableColumn<T>) => (event: React.PointerEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const header = event.currentTarget.parentElement!;
+      const startX = event.clientX;
+      const startWidth = header.getBoundingClientRect().width;
+      const minWidth = column.minWidth ?? MIN_COLUMN_WIDTH;
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        setColumnWidths(current => ({
+          ...current,
+          [columnId(column)]: Math.max(
+            minWidth,
+            // Columns grow towards the end side, which is the left in RTL
+            startWidth + (moveEvent.clientX - startX) * (dir === 'rtl' ? -1 : 1)
+          ),
+        }));
+      };
+      const handleUp = () => {
+        window.removeEventListener('pointermove', handleMove);
+        window.removeEventListener('pointerup', handleUp);
+      };
+
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+    };
+
+  const hasFilters = columns.some(column => column.filterable);
+  const hasFixedLayout = isVirtualized || Object.keys(columnWidths).length > 0;
+  const columnCount = columns.length + (selectable ? 1 : 0);
+  const totalPages = pagination
+    ? Math.max(1, Math.ceil(total / pagination.pageSize))
+    : 1;
+
+  const renderSortIcon = (column: TableColumn<T>) => {
+    if (sort?.key !== columnId(column)) return <IconSelector size={14} />;
+    return sort.direction === 'asc' ? (
+      <IconChevronUp size={14} />
+    ) : (
+      <IconChevronDown size={14} />
+    );
+  };
+
+  const renderFilter = (column: TableColumn<T>) => {
+    const value = filters[columnId(column)] ?? '';
+    if (column.filterOptions) {
+      return (
+        <Select
+          size='xs'
+          placeholder='All'
+          data={column.filterOptions}
+          value={value || null}
+          onChange={selected => handleFilter(column, selected ?? '')}
+          clearable
+          aria-label={`Filter ${column.title}`}
+        />
+      );
+    }
+    return (
+      <TextInput
+        size='xs'
+        placeholder='Filter...'
+        leftSection={<IconSearch size={12} />}
+        value={value}
+        onChange={event => handleFilter(column, event.currentTarget.value)}
+        aria-label={`Filter ${column.title}`}
+      />
+    );
+  };
+
+  return (
+    <Box className={className} data-testid={testId}>
+      {selectable && bulkActions.length > 0 && selectedRecords.length > 0 && (
+        <Group
+          justify='space-between'
+          mb='sm'
+          p='xs'
+          bg='var(--mantine-color-blue-light)'
+          style={{ borderRadius: 'var(--mantine-radius-md)' }}
+        >
+          <Text size='sm' fw={500}>
+            {selectedRecords.length} selected
+          </Text>
+          <Group gap='xs'>
+            {bulkActions.map(action => (
+              <Button
+                key={action.label}
+                size='xs'
+                color={action.color}
+                leftSection={action.icon}
+                loading={pendingAction === action.label}
+                disabled={pendingAction !== null}
+                onClick={() => runBulkAction(action.label, action.onClick)}
+              >
+                {action.label}
+              </Button>
+            ))}
+            <Button
+              size='xs'
+              variant='subtle'
+              onClick={() => updateSelection(new Set())}
+            >
+              Clear
+            </Button>
+          </Group>
+        </Group>
+      )}
+
+      <Box
+        pos='relative'
+        style={{
+          maxHeight: viewportHeight,
+          overflow: viewportHeight ? 'auto' : undefined,
+        }}
+        onScroll={
+          isVirtualized
+            ? event => setScrollTop(event.currentTarget.scrollTop)
+            : undefined
+        }
+      >
+        <LoadingOverlay visible={loading} />
+        <Table
+          striped
+          highlightOnHover
+          stickyHeader={stickyHeader ?? viewportHeight !== undefined}
+          style={{ tableLayout: hasFixedLayout ? 'fixed' : undefined }}
+        >
+          <Table.Thead>
+            <Table.Tr>
+              {selectable && (
+                <Table.Th w={40}>
+                  <Checkbox
+                    aria-label='Select all rows'
+                    checked={allSelected}
+                    indeterminate={someSelected && !allSelected}
+                    onChange={toggleAll}
+                  />
+                </Table.Th>
+              )}
+              {columns.map(column => (
+                <Table.Th
+                  key={columnId(column)}
+                  style={{
+                    position: 'relative',
+                    width: columnWidths[columnId(column)] ?? column.width,
+                    minWidth: column.minWidth,
+                  }}
+                >
+                  {column.sortable ? (
+                    <UnstyledButton
+                      onClick={() => handleSort(column)}
+                      aria-label={`Sort by ${column.title}`}
+                    >
+                      <Group gap={4} wrap='nowrap'>
+                        <Text fw={600} size='sm'>
+                          {column.title}
+                        </Text>
+                        {renderSortIcon(column)}
+                      </Group>
+                    </UnstyledButton>
+                  ) : (
+                    column.title
+                  )}
+                  {column.resizable && (
+                    <Box
+                      onPointerDown={startResize(column)}
+                      role='separator'
+                      aria-orientation='vertical'
+                      aria-label={`Resize ${column.title}`}
+                      style={{
+                        position: 'absolute',
+                        top: 0,
+                        insetInlineEnd: 0,
+                        bottom: 0,
+                        width: 6,
+                        cursor: 'col-resize',
+                        touchAction: 'none',
+                      }}
+                    />
+                  )}
+                </Table.Th>
+              ))}
+            </Table.Tr>
+            {hasFilters && (
+              <Table.Tr>
+                {selectable && <Table.Th />}
+                {columns.map(column => (
+                  <Table.Th key={columnId(column)}>
+                    {column.filterable && renderFilter(column)}
+                  </Table.Th>
+                ))}
+              </Table.Tr>
+            )}
+          </Table.Thead>
+
+          <Table.Tbody>
+            {rows.length === 0 && !loading && (
+              <Table.Tr>
+                <Table.Td colSpan={columnCount}>
+                  <Center py='xl'>
+                    <Text c='dimmed'>{emptyMessage}</Text>
+                  </Center>
+                </Table.Td>
+              </Table.Tr>
+            )}
+
+            {range.start > 0 && (
+              <tr style={{ height: range.start * rowHeight }} />
+            )}
+            {rows.slice(range.start, range.end).map(record => {
+              const key = getKey(record);
+              const isSelected = selectedKeys.has(key);
+              return (
+                <Table.Tr
+                  key={key}
+                  onClick={onRowClick ? () => onRowClick(record) : undefined}
+                  bg={
+                    isSelected ? 'var(--mantine-color-blue-light)' : undefined
+                  }
+                  style={{
+                    height: isVirtualized ? rowHeight : undefined,
+                    cursor: onRowClick ? 'pointer' : undefined,
+                  }}
+                >
+                  {selectable && (
+                    <Table.Td onClick={event => event.stopPropagation()}>
+                      <Checkbox
+                        aria-label='Select row'
+                        checked={isSelected}
+                        onChange={() => toggleRow(key)}
+                      />
+                    </Table.Td>
+                  )}
+                  {columns.map(column => {
+                    const value = getCellValue(record, column);
+                    return (
+                      <Table.Td
+                        key={columnId(column)}
+                        style={
+                          hasFixedLayout
+                            ? {
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                whiteSpace: 'nowrap',
+                              }
+                            : undefined
+                        }
+                      >
+                        {column.render
+                          ? column.render(value, record)
+                          : String(value ?? '')}
+                      </Table.Td>
+                    );
+                  })}
+                </Table.Tr>
+              );
+            })}
+            {range.end < rows.length && (
+              <tr style={{ height: (rows.length - range.end) * rowHeight }} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Box>
+
+      {pagination && (
+        <Group justify='space-between' mt='md'>
+          <Text size='sm' c='dimmed'>
+            {total === 0
+              ? 'No results'
+              : `Showing ${(pagination.current - 1) * pagination.pageSize + 1}–${Math.min(
+                  pagination.current * pagination.pageSize,
+                  total
+                )} of ${total}`}
+          </Text>
+          <Group gap='sm'>
+            <Select
+              size='xs'
+              w={80}
+              data={APP_CONSTANTS.PAGE_SIZE_OPTIONS.map(String)}
+              value={String(pagination.pageSize)}
+              onChange={value => value && pagination.onChange(1, Number(value))}
+              allowDeselect={false}
+              aria-label='Rows per page'
+            />
+            <Pagination
+              size='sm'
+              total={totalPages}
+              value={pagination.current}
+              onChange={page => pagination.onChange(page, pagination.pageSize)}
+            />
+          </Group>
+        </Group>
+      )}
+    </Box>
+  );
+}
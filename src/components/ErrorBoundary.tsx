@@ -2,6 +2,7 @@ import React, { Component, ErrorInfo, ReactNode } from 'react';
 import { Container, Title, Text, Button, Stack, Alert } from '@mantine/core';
 import { IconAlertTriangle, IconRefresh } from '@tabler/icons-react';
 import { env } from '@/config/env';
+import { i18n } from '@/services/i18n';
 
 interface Props {
   children: ReactNode;
@@ -70,7 +71,9 @@ export class ErrorBoundary extends Component<Props, State> {
         return this.props.fallback;
       }
 
-      // Default error UI
+      // Default error UI; the boundary may sit outside any hook-based
+      // translation context, so it reads the current messages directly
+      const { t } = i18n;
       return (
         <Container size='sm' py='xl'>
           <Stack align='center' gap='lg'>
@@ -78,11 +81,10 @@ export class ErrorBoundary extends Component<Props, State> {
 
             <Stack align='center' gap='sm'>
               <Title order={2} ta='center'>
-                Oops! Something went wrong
+                {t('error.title')}
               </Title>
               <Text c='dimmed' ta='center' size='lg'>
-                We're sorry, but something unexpected happened. Please try
-                refreshing the page.
+                {t('error.description')}
               </Text>
             </Stack>
 
@@ -90,9 +92,9 @@ export class ErrorBoundary extends Component<Props, State> {
               <Alert
                 variant='light'
                 color='red'
-                title='Error Details (Development Mode)'
+                title={t('error.details')}
                 icon={<IconAlertTriangle size={16} />}
-                style={{ width: '100%', textAlign: 'left' }}
+                style={{ width: '100%', textAlign: 'start' }}
               >
                 <Stack gap='xs'>
                   <Text size='sm' fw={500}>
@@ -113,7 +115,9 @@ export class ErrorBoundary extends Component<Props, State> {
                       c='dimmed'
                       style={{ fontFamily: 'monospace' }}
                     >
-                      Component Stack: {this.state.errorInfo.componentStack}
+                      {t('error.componentStack', {
+                        stack: this.state.errorInfo.componentStack,
+                      })}
                     </Text>
                   )}
                 </Stack>
@@ -126,10 +130,10 @@ export class ErrorBoundary extends Component<Props, State> {
                 onClick={this.handleReload}
                 size='lg'
               >
-                Reload Page
+                {t('error.reload')}
               </Button>
               <Button variant='light' onClick={this.handleReset} size='md'>
-                Try Again
+                {t('error.retry')}
               </Button>
             </Stack>
           </Stack>
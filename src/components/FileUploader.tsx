@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActionIcon,
+  Group,
+  Progress,
+  Stack,
+  Text,
+  Tooltip,
+} from '@mantine/core';
+import { Dropzone, FileRejection } from '@mantine/dropzone';
+import {
+  IconCheck,
+  IconFile,
+  IconPlayerStop,
+  IconRefresh,
+  IconUpload,
+  IconX,
+} from '@tabler/icons-react';
+import { API_ENDPOINTS, APP_CONSTANTS } from '@/constants';
+import { apiClient, isAbortError } from '@/services/api';
+import { BaseComponentProps, FileUploadConfig } from '@/types';
+import { formatFileSize, getErrorMessage } from '@/utils';
+import { compressImage } from '@/utils/imageUtils';
+
+type UploadStatus =
+  | 'compressing'
+  | 'uploading'
+  | 'done'
+  | 'error'
+  | 'cancelled';
+
+interface UploadItem {
+  id: number;
+  file: File;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+}
+
+interface FileUploaderProps
+  extends Partial<Omit<FileUploadConfig, 'onUpload'>>,
+    Pick<BaseComponentProps, 'className' | 'testId'> {
+  // Endpoint that receives the files (defaults to API_ENDPOINTS.UPLOADS)
+  uploadUrl?: string;
+  // Compress supported images in the browser before uploading
+  compressImages?: boolean;
+  // Send files larger than this as resumable chunks (bytes)
+  chunkSize?: number;
+  // Called with every file of a drop that uploaded successfully
+  onUpload?: FileUploadConfig['onUpload'];
+  onFileUploaded?: (file: File, response: unknown) => void;
+}
+
+const REJECTION_MESSAGES: Record<string, (maxSize: number) => string> = {
+  'file-too-large': maxSize => `File is larger than ${formatFileSize(maxSize)}`,
+  'file-invalid-type': () => 'File type is not supported',
+  'too-many-files': () => 'Only one file can be uploaded at a time',
+};
+
+const isCompressible = (file: File) =>
+  (APP_CONSTANTS.SUPPORTED_IMAGE_TYPES as readonly string[]).includes(
+    file.type
+  );
+
+// Swap in a compressed JPEG when that actually saves space
+const maybeCompress = async (file: File): Promise<File> => {
+  const blob = await compressImage(file);
+  if (blob.size >= file.size) return file;
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return new File([blob], name, {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+};
+
+export function FileUploader({
+  uploadUrl = API_ENDPOINTS.UPLOADS,
+  maxSize = APP_CONSTANTS.MAX_FILE_SIZE,
+  acceptedTypes = [...APP_CONSTANTS.SUPPORTED_IMAGE_TYPES],
+  multiple = true,
+  compressImages = false,
+  chunkSize,
+  onUpload,
+  onFileUploaded,
+  onError,
+  className,
+  testId,
+}: FileUploaderProps) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllersRef = useRef(new Map<number, AbortController>());
+  const nextIdRef = useRef(0);
+
+  // Cancel everything still in flight when the uploader goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  const updateItem = useCallback((id: number, patch: Partial<UploadItem>) => {
+    setItems(current =>
+      current.map(item => (item.id === id ? { ...item, ...patch } : item))
+    );
+  }, []);
+
+  const uploadItem = useCallback(
+    async (id: number, original: File): Promise<File | null> => {
+      const controller = new AbortController();
+      controllersRef.current.set(id, controller);
+
+      try {
+        let file = original;
+        if (compressImages && isCompressible(file)) {
+          updateItem(id, { status: 'compressing', error: undefined });
+          file = await maybeCompress(file);
+        }
+
+        updateItem(id, { status: 'uploading', progress: 0, error: undefined });
+        const response = await apiClient.upload(uploadUrl, file, {
+          chunkSize,
+          signal: controller.signal,
+          onUploadProgress: ({ percent }) =>
+            updateItem(id, { progress: percent }),
+        });
+
+        updateItem(id, { status: 'done', progress: 100 });
+        onFileUploaded?.(file, response);
+        return file;
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateItem(id, { status: 'cancelled' });
+        } else {
+          const message = getErrorMessage(error);
+          updateItem(id, { status: 'error', error: message });
+          onError?.(message);
+        }
+        return null;
+      } finally {
+        controllersRef.current.delete(id);
+      }
+    },
+    [compressImages, chunkSize, uploadUrl, updateItem, onFileUploaded, onError]
+  );
+
+  const handleDrop = async (files: File[]) => {
+    const added = files.map(file => ({
+      id: nextIdRef.current++,
+      file,
+      status: 'uploading' as const,
+      progress: 0,
+    }));
+    setItems(current => [...current, ...added]);
+
+    const results = await Promise.all(
+      added.map(item => uploadItem(item.id, item.file))
+    );
+    const uploaded = results.filter((file): file is File => file !== null);
+    if (uploaded.length > 0) {
+      await onUpload?.(uploaded);
+    }
+  };
+
+  const handleReject = (rejections: FileRejection[]) => {
+    rejections.forEach(({ file, errors }) => {
+      const code = errors[0]?.code;
+      const message = REJECTION_MESSAGES[code]?.(maxSize) ?? errors[0]?.message;
+      onError?.(`${file.name}: ${message}`);
+      setItems(current => [
+        ...current,
+        {
+          id: nextIdRef.current++,
+          file,
+          status: 'error',
+          progress: 0,
+          error: message,
+        },
+      ]);
+    });
+  };
+
+  const cancelItem = (id: number) => {
+    controllersRef.current.get(id)?.abort();
+  };
+
+  const removeItem = (id: number) => {
+    setItems(current => current.filter(item => item.id !== id));
+  };
+
+  return (
+    <Stack gap='md' className={className} data-testid={testId}>
+      <Dropzone
+        onDrop={handleDrop}
+        onReject={handleReject}
+        maxSize={maxSize}
+        accept={acceptedTypes}
+        multiple={multiple}
+      >
+        <Group
+          justify='center'
+          gap='xl'
+          mih={140}
+          style={{ pointerEvents: 'none' }}
+        >
+          <Dropzone.Accept>
+            <IconUpload size={48} color='var(--mantine-color-blue-6)' />
+          </Dropzone.Accept>
+          <Dropzone.Reject>
+            <IconX size={48} color='var(--mantine-color-red-6)' />
+          </Dropzone.Reject>
+          <Dropzone.Idle>
+            <IconFile size={48} color='var(--mantine-color-dimmed)' />
+          </Dropzone.Idle>
+
+          <div>
+            <Text size='lg' inline>
+              Drag files here or click to select
+            </Text>
+            <Text size='sm' c='dimmed' inline mt={7}>
+              Files up to {formatFileSize(maxSize)}
+            </Text>
+          </div>
+        </Group>
+      </Dropzone>
+
+      {items.length > 0 && (
+        <Stack gap='sm'>
+          {items.map(item => (
+            <UploadRow
+              key={item.id}
+              item={item}
+              onCancel={() => cancelItem(item.id)}
+              onRetry={() => uploadItem(item.id, item.file)}
+              onRemove={() => removeItem(item.id)}
+            />
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
+
+interface UploadRowProps {
+  item: UploadItem;
+  onCancel: () => void;
+  onRetry: () => void;
+  onRemove: () => void;
+}
+
+function UploadRow({ item, onCancel, onRetry, onRemove }: UploadRowProps) {
+  const isActive = item.status === 'uploading' || item.status === 'compressing';
+  const canRetry = item.status === 'cancelled' || item.status === 'error';
+
+  const statusText: Record<UploadStatus, string> = {
+    compressing: 'Optimizing image...',
+    uploading: `${item.progress}%`,
+    done: 'Uploaded',
+    error: item.error ?? 'Upload failed',
+    cancelled: 'Cancelled',
+  };
+
+  return (
+    <Stack gap={4}>
+      <Group justify='space-between' wrap='nowrap'>
+        <Group gap='xs' wrap='nowrap' style={{ minWidth: 0 }}>
+          {item.status === 'done' ? (
+            <IconCheck size={16} color='var(--mantine-color-green-6)' />
+          ) : (
+            <IconFile size={16} />
+          )}
+          <Text size='sm' truncate>
+            {item.file.name}
+          </Text>
+          <Text size='xs' c='dimmed'>
+            {formatFileSize(item.file.size)}
+          </Text>
+        </Group>
+
+        <Group gap='xs' wrap='nowrap'>
+          <Text size='xs' c={item.status === 'error' ? 'red' : 'dimmed'}>
+            {statusText[item.status]}
+          </Text>
+          {isActive && (
+            <Tooltip label='Cancel'>
+              <ActionIcon
+                variant='subtle'
+                size='sm'
+                onClick={onCancel}
+                aria-label='Cancel upload'
+              >
+                <IconPlayerStop size={14} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {canRetry && (
+            <Tooltip label='Retry'>
+              <ActionIcon
+                variant='subtle'
+                size='sm'
+                onClick={onRetry}
+                aria-label='Retry upload'
+              >
+                <IconRefresh size={14} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+          {!isActive && (
+            <Tooltip label='Remove'>
+              <ActionIcon
+                variant='subtle'
+                size='sm'
+                color='gray'
+                onClick={onRemove}
+                aria-label='Remove from list'
+              >
+                <IconX size={14} />
+              </ActionIcon>
+            </Tooltip>
+          )}
+        </Group>
+      </Group>
+
+      <Progress
+        value={item.progress}
+        size='sm'
+        color={item.status === 'error' ? 'red' : undefined}
+        animated={isActive}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,77 @@
+import { ReactNode, useEffect, useRef } from 'react';
+import { Box, Center, Loader, Text } from '@mantine/core';
+import { BaseComponentProps } from '@/types';
+import { createLazyLoadObserver } from '@/utils/imageUtils';
+
+interface InfiniteScrollSentinelProps
+  extends Pick<BaseComponentProps, 'className' | 'testId'> {
+  // Usually fetchNextPage from useInfiniteApi
+  onLoadMore: () => void;
+  hasMore: boolean;
+  isLoading?: boolean;
+  // Start loading this far before the sentinel scrolls into view
+  rootMargin?: string;
+  // Scroll container, defaults to the viewport
+  root?: Element | null;
+  // Shown once every page has been loaded
+  endMessage?: ReactNode;
+}
+
+// Placed after the last item of a list; asks for the next page whenever it
+// becomes visible
+export function InfiniteScrollSentinel({
+  onLoadMore,
+  hasMore,
+  isLoading = false,
+  rootMargin = '200px',
+  root = null,
+  endMessage,
+  className,
+  testId,
+}: InfiniteScrollSentinelProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  // The observer is recreated after each load, so a sentinel that is still
+  // visible (a short page) keeps loading until the list fills the viewport
+  useEffect(() => {
+    if (!hasMore || isLoading || !sentinelRef.current) return;
+
+    const observer = createLazyLoadObserver(
+      entry => {
+        if (entry.isIntersecting) {
+          observer.disconnect();
+          onLoadMoreRef.current();
+        }
+      },
+      { root, rootMargin, threshold: 0 }
+    );
+
+    observer.observe(sentinelRef.current);
+
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, root, rootMargin]);
+
+  return (
+    <Box
+      ref={sentinelRef}
+      className={className}
+      data-testid={testId}
+      aria-busy={isLoading}
+    >
+      {isLoading && (
+        <Center py='md'>
+          <Loader size='sm' />
+        </Center>
+      )}
+      {!hasMore && !isLoading && endMessage && (
+        <Text size='sm' c='dimmed' ta='center' py='md'>
+          {endMessage}
+        </Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import {
+  ActionIcon,
+  Button,
+  CloseButton,
+  Drawer,
+  Group,
+  Indicator,
+  Paper,
+  SegmentedControl,
+  Stack,
+  Text,
+  ThemeIcon,
+  Tooltip,
+  UnstyledButton,
+  useDirection,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { IconBell, IconChecks, IconTrash } from '@tabler/icons-react';
+import { useNotificationCenter } from '@/hooks/useNotificationCenter';
+import { useTranslation } from '@/hooks/useTranslation';
+import { NOTIFICATION_STYLES } from '@/services/notify';
+import { AppNotification } from '@/types';
+import { formatRelativeTime } from '@/utils';
+
+type NotificationFilter = 'all' | AppNotification['type'];
+
+const FILTERS: NotificationFilter[] = [
+  'all',
+  'info',
+  'success',
+  'warning',
+  'error',
+];
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onRead: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+function NotificationItem({
+  notification,
+  onRead,
+  onRemove,
+}: NotificationItemProps) {
+  const { t, locale } = useTranslation();
+  const { color, icon: Icon } = NOTIFICATION_STYLES[notification.type];
+
+  return (
+    <Paper
+      withBorder
+      p='sm'
+      radius='md'
+      bg={notification.read ? undefined : 'var(--mantine-color-blue-light)'}
+    >
+      <Group align='flex-start' gap='sm' wrap='nowrap'>
+        <ThemeIcon color={color} variant='light' radius='xl'>
+          <Icon size={16} />
+        </ThemeIcon>
+        <UnstyledButton
+          className='min-w-0 flex-1 text-start'
+          aria-label={
+            notification.read ? undefined : t('notifications.markRead')
+          }
+          onClick={() => onRead(notification.id)}
+        >
+          <Text size='sm' fw={notification.read ? 500 : 700}>
+            {notification.title}
+          </Text>
+          {notification.message && (
+            <Text size='sm' c='dimmed'>
+              {notification.message}
+            </Text>
+          )}
+          <Text size='xs' c='dimmed' mt={4}>
+            {formatRelativeTime(notification.createdAt, locale)}
+          </Text>
+        </UnstyledButton>
+        <CloseButton
+          size='sm'
+          aria-label={t('notifications.remove')}
+          onClick={() => onRemove(notification.id)}
+        />
+      </Group>
+    </Paper>
+  );
+}
+
+// Header bell with the unread count, opening the notification history
+export function NotificationCenter() {
+  const [opened, { open, close }] = useDisclosure();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const { notifications, unreadCount, markRead, markAllRead, remove, clear } =
+    useNotificationCenter();
+  const { t } = useTranslation();
+  const { dir } = useDirection();
+
+  const visible =
+    filter === 'all'
+      ? notifications
+      : notifications.filter(({ type }) => type === filter);
+  const bellLabel = t('notifications.open', { count: unreadCount });
+
+  return (
+    <>
+      <Tooltip label={bellLabel}>
+        <Indicator
+          label={unreadCount > 99 ? '99+' : unreadCount}
+          size={16}
+          color='red'
+          offset={4}
+          disabled={unreadCount === 0}
+        >
+          <ActionIcon
+            variant='default'
+            size='lg'
+            aria-label={bellLabel}
+            onClick={open}
+          >
+            <IconBell size={18} />
+          </ActionIcon>
+        </Indicator>
+      </Tooltip>
+
+      <Drawer
+        opened={opened}
+        onClose={close}
+        position={dir === 'rtl' ? 'left' : 'right'}
+        title={t('notifications.title')}
+      >
+        <Stack gap='sm'>
+          <SegmentedControl
+            size='xs'
+            fullWidth
+            value={filter}
+            onChange={value => setFilter(value as NotificationFilter)}
+            data={FILTERS.map(value => ({
+              value,
+              label: t('notifications.filter', { type: value }),
+            }))}
+          />
+
+          <Group justify='space-between'>
+            <Button
+              size='xs'
+              variant='subtle'
+              leftSection={<IconChecks size={14} />}
+              disabled={unreadCount === 0}
+              onClick={markAllRead}
+            >
+              {t('notifications.markAllRead')}
+            </Button>
+            <Button
+              size='xs'
+              variant='subtle'
+              color='red'
+              leftSection={<IconTrash size={14} />}
+              disabled={notifications.length === 0}
+              onClick={clear}
+            >
+              {t('notifications.clear')}
+            </Button>
+          </Group>
+
+          {visible.length === 0 ? (
+            <Text size='sm' c='dimmed' ta='center' py='xl'>
+              {t('notifications.empty', { filter })}
+            </Text>
+          ) : (
+            visible.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onRead={markRead}
+                onRemove={remove}
+              />
+            ))
+          )}
+        </Stack>
+      </Drawer>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { ReactNode } from 'react';
+import { Button, Group, Text } from '@mantine/core';
+
+interface NotificationMessageProps {
+  message?: ReactNode;
+  color: string;
+  action: {
+    label: string;
+    onClick: () => void;
+  };
+}
+
+// Toast body with an action button, rendered by the notify service
+export function NotificationMessage({
+  message,
+  color,
+  action,
+}: NotificationMessageProps) {
+  return (
+    <Group justify='space-between' gap='sm' wrap='nowrap'>
+      <Text size='sm' c='dimmed'>
+        {message}
+      </Text>
+      <Button
+        size='compact-xs'
+        variant='light'
+        color={color}
+        onClick={action.onClick}
+      >
+        {action.label}
+      </Button>
+    </Group>
+  );
+}
@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { usePreferences } from '@/hooks/usePreferences';
+import { i18n } from '@/services/i18n';
+
+// Applies the stored preferences to the document as soon as they change, so
+// edits on the Settings page or from another device show up without a reload.
+// The theme is applied by the ThemeProvider.
+export function PreferencesManager() {
+  const { preferences } = usePreferences();
+  const { language, locale } = preferences;
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    i18n.setLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    i18n.setLocale(locale);
+  }, [locale]);
+
+  return null;
+}
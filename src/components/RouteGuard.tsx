@@ -0,0 +1,65 @@
+import { ReactNode, useState } from 'react';
+import { Button, Center, Loader, Stack, Text, Title } from '@mantine/core';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ROUTES } from '@/constants';
+import { useAuth } from '@/hooks/useAuth';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ForbiddenPage } from '@/pages/ForbiddenPage';
+import { RouteConfig } from '@/types';
+import { hasRole, requiresAuth } from '@/utils/permissions';
+
+interface RouteGuardProps {
+  route: Pick<RouteConfig, 'protected' | 'roles'>;
+  children: ReactNode;
+}
+
+export function RouteGuard({ route, children }: RouteGuardProps) {
+  const { user, isInitializing, sessionError, refreshUser } = useAuth();
+  const location = useLocation();
+  const { t } = useTranslation();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  if (!requiresAuth(route)) {
+    return <>{children}</>;
+  }
+
+  // Wait for the stored session to be restored before deciding
+  if (isInitializing) {
+    return (
+      <Center h='50vh'>
+        <Loader />
+      </Center>
+    );
+  }
+
+  // The session may still be valid, so offer a retry rather than the login
+  if (!user && sessionError) {
+    const retry = () => {
+      setIsRetrying(true);
+      refreshUser().finally(() => setIsRetrying(false));
+    };
+
+    return (
+      <Center h='50vh'>
+        <Stack align='center' gap='sm'>
+          <Title order={3}>{t('session.restoreFailed')}</Title>
+          <Text c='dimmed'>{t('session.restoreFailedDescription')}</Text>
+          <Button onClick={retry} loading={isRetrying}>
+            {t('error.retry')}
+          </Button>
+        </Stack>
+      </Center>
+    );
+  }
+
+  if (!user) {
+    // Remember where the user was headed so login can send them back
+    return <Navigate to={ROUTES.LOGIN} replace state={{ from: location }} />;
+  }
+
+  if (!hasRole(user, route.roles)) {
+    return <ForbiddenPage />;
+  }
+
+  return <>{children}</>;
+}
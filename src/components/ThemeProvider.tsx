@@ -0,0 +1,148 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DirectionProvider,
+  MantineColor,
+  MantineProvider,
+  useDirection,
+} from '@mantine/core';
+import { useColorScheme } from '@mantine/hooks';
+import {
+  createAppTheme,
+  DEFAULT_THEME_CONFIG,
+  resolveColorScheme,
+} from '@/config/theme';
+import { STORAGE_KEYS } from '@/constants';
+import { ThemeContext, ThemeContextValue } from '@/contexts/ThemeContext';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTranslation } from '@/hooks/useTranslation';
+import { TextDirection, ThemeConfig, ThemeMode } from '@/types';
+import { storage } from '@/utils';
+
+interface ThemeProviderProps {
+  children: ReactNode;
+}
+
+type Appearance = Pick<ThemeConfig, 'primaryColor' | 'fontFamily'>;
+
+const loadAppearance = (): Appearance => {
+  const stored = storage.get<Partial<ThemeConfig>>(STORAGE_KEYS.THEME);
+  return {
+    primaryColor: stored?.primaryColor ?? DEFAULT_THEME_CONFIG.primaryColor,
+    fontFamily: stored?.fontFamily ?? DEFAULT_THEME_CONFIG.fontFamily,
+  };
+};
+
+// Mantine's setDirection updates both its context and the document `dir`
+// attribute, which Tailwind's rtl: variants and logical CSS rely on
+function DirectionSync({ direction }: { direction: TextDirection }) {
+  const { setDirection } = useDirection();
+
+  useEffect(() => {
+    if (document.documentElement.dir !== direction) {
+      setDirection(direction);
+    }
+  }, [direction, setDirection]);
+
+  return null;
+}
+
+// Provides the Mantine theme built from the user's ThemeConfig. The mode is
+// part of the synced preferences; the whole config is also kept under
+// STORAGE_KEYS.THEME, where the script in index.html reads it to apply the
+// color scheme before the first paint. The text direction follows the
+// active language.
+export function ThemeProvider({ children }: ThemeProviderProps) {
+  const { preferences, updatePreferences } = usePreferences();
+  const { direction } = useTranslation();
+  const [appearance, setAppearance] = useState(loadAppearance);
+  const systemScheme = useColorScheme(undefined, {
+    getInitialValueInEffect: false,
+  });
+
+  const { primaryColor, fontFamily } = appearance;
+  const mode = preferences.theme;
+  const colorScheme = resolveColorScheme(mode, systemScheme);
+
+  const config = useMemo<ThemeConfig>(
+    () => ({ mode, primaryColor, fontFamily }),
+    [mode, primaryColor, fontFamily]
+  );
+  const theme = useMemo(() => createAppTheme(config), [config]);
+
+  useEffect(() => {
+    storage.set(STORAGE_KEYS.THEME, config);
+  }, [config]);
+
+  // Keep Tailwind's dark: variants and native controls in step with Mantine
+  useEffect(() => {
+    const root = document.documentElement;
+    root.classList.toggle('dark', colorScheme === 'dark');
+    root.style.colorScheme = colorScheme;
+  }, [colorScheme]);
+
+  useEffect(() => {
+    document.documentElement.style.setProperty('--font-family', fontFamily);
+  }, [fontFamily]);
+
+  const setMode = useCallback(
+    (nextMode: ThemeMode) => updatePreferences({ theme: nextMode }),
+    [updatePreferences]
+  );
+
+  const setPrimaryColor = useCallback(
+    (color: MantineColor) =>
+      setAppearance(current => ({ ...current, primaryColor: color })),
+    []
+  );
+
+  const setFontFamily = useCallback(
+    (family: string) =>
+      setAppearance(current => ({ ...current, fontFamily: family })),
+    []
+  );
+
+  const toggleColorScheme = useCallback(
+    () => setMode(colorScheme === 'dark' ? 'light' : 'dark'),
+    [colorScheme, setMode]
+  );
+
+  const resetTheme = useCallback(() => {
+    setMode(DEFAULT_THEME_CONFIG.mode);
+    setAppearance({
+      primaryColor: DEFAULT_THEME_CONFIG.primaryColor,
+      fontFamily: DEFAULT_THEME_CONFIG.fontFamily,
+    });
+  }, [setMode]);
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({
+      config,
+      colorScheme,
+      setMode,
+      setPrimaryColor,
+      setFontFamily,
+      toggleColorScheme,
+      resetTheme,
+    }),
+    [
+      config,
+      colorScheme,
+      setMode,
+      setPrimaryColor,
+      setFontFamily,
+      toggleColorScheme,
+      resetTheme,
+    ]
+  );
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <DirectionProvider initialDirection={direction} detectDirection={false}>
+        <DirectionSync direction={direction} />
+        <MantineProvider theme={theme} forceColorScheme={colorScheme}>
+          {children}
+        </MantineProvider>
+      </DirectionProvider>
+    </ThemeContext.Provider>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  Drawer,
+  Group,
+  Select,
+  Stack,
+  Switch,
+  TextInput,
+} from '@mantine/core';
+import { IconAlertTriangle } from '@tabler/icons-react';
+import { useForm } from '@/hooks/useForm';
+import { callEndpoint, endpoints } from '@/services/endpoints';
+import { User, UserInput, UserRole } from '@/types';
+import { capitalize } from '@/utils';
+import { email, required } from '@/utils/validators';
+
+interface UserFormDrawerProps {
+  opened: boolean;
+  // The user to edit, or null to create a new one
+  user: User | null;
+  // Roles the current user may hand out
+  assignableRoles: UserRole[];
+  onClose: () => void;
+  onSaved: (user: User) => void;
+}
+
+const emptyValues: UserInput = {
+  email: '',
+  firstName: '',
+  lastName: '',
+  role: UserRole.USER,
+  isActive: true,
+};
+
+const toFormValues = (user: User | null): UserInput =>
+  user
+    ? {
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        isActive: user.isActive,
+      }
+    : emptyValues;
+
+export function UserFormDrawer({
+  opened,
+  user,
+  assignableRoles,
+  onClose,
+  onSaved,
+}: UserFormDrawerProps) {
+  const form = useForm({
+    initialValues: toFormValues(user),
+    validate: {
+      firstName: required('First name is required'),
+      lastName: required('Last name is required'),
+      email: [
+        required('Enter a valid email address'),
+        email('Enter a valid email address'),
+      ],
+      role: required('Choose a role'),
+    },
+    onSubmit: async (values: UserInput) => {
+      const saved = user
+        ? await callEndpoint(endpoints.users.update, {
+            params: user.id,
+            body: values,
+          })
+        : await callEndpoint(endpoints.users.create, { body: values });
+      onSaved(saved);
+    },
+  });
+
+  // Start from the selected user every time the drawer opens
+  const { reset } = form;
+  useEffect(() => {
+    if (opened) {
+      reset(toFormValues(user));
+    }
+  }, [opened, user, reset]);
+
+  return (
+    <Drawer
+      opened={opened}
+      onClose={onClose}
+      position='right'
+      title={user ? 'Edit user' : 'Add user'}
+    >
+      <form onSubmit={form.handleSubmit} noValidate>
+        <Stack gap='md'>
+          {form.submitError && (
+            <Alert
+              variant='light'
+              color='red'
+              icon={<IconAlertTriangle size={16} />}
+            >
+              {form.submitError}
+            </Alert>
+          )}
+
+          <TextInput
+            label='First name'
+            data-autofocus
+            {...form.getInputProps('firstName')}
+          />
+          <TextInput label='Last name' {...form.getInputProps('lastName')} />
+          <TextInput
+            label='Email'
+            type='email'
+            {...form.getInputProps('email')}
+          />
+          <Select
+            label='Role'
+            data={assignableRoles.map(role => ({
+              value: role,
+              label: capitalize(role),
+            }))}
+            allowDeselect={false}
+            {...form.getInputProps<string | null>('role')}
+          />
+          <Switch
+            label='Active'
+            description='Inactive users cannot sign in'
+            {...form.getInputProps('isActive', { type: 'checkbox' })}
+          />
+
+          <Group justify='flex-end' mt='md'>
+            <Button variant='default' onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type='submit' loading={form.isSubmitting}>
+              {user ? 'Save changes' : 'Create user'}
+            </Button>
+          </Group>
+        </Stack>
+      </form>
+    </Drawer>
+  );
+}
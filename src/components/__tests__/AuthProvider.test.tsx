@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthProvider } from '@/components/AuthProvider';
+import { RouteGuard } from '@/components/RouteGuard';
+import { API_ENDPOINTS } from '@/constants';
+import { http, mockResponse, mockUser } from '@/mocks';
+import { apiClient } from '@/services/api';
+import { tokenStorage } from '@/services/tokenStorage';
+import { setupMockApi } from '@/test/mockApi';
+import { renderWithProviders, screen, userEvent } from '@/test/utils';
+
+const server = setupMockApi();
+
+const renderProtectedPage = () =>
+  renderWithProviders(
+    <AuthProvider>
+      <RouteGuard route={{ protected: true }}>Dashboard</RouteGuard>
+    </AuthProvider>,
+    { withModals: false, withNotifications: false }
+  );
+
+describe('AuthProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(tokenStorage, 'getAccessToken').mockReturnValue('access-token');
+  });
+
+  it('should keep the session when restoring it fails for other reasons', async () => {
+    const clearTokens = vi.spyOn(tokenStorage, 'clear');
+    server.use(
+      http.get(
+        API_ENDPOINTS.AUTH.PROFILE,
+        () => mockResponse.error(500, 'Server error'),
+        true
+      ),
+      http.get(API_ENDPOINTS.AUTH.PROFILE, () => mockResponse.ok(mockUser))
+    );
+    const user = userEvent.setup();
+    renderProtectedPage();
+
+    await user.click(await screen.findByRole('button', { name: 'Try Again' }));
+
+    expect(await screen.findByText('Dashboard')).toBeInTheDocument();
+    expect(clearTokens).not.toHaveBeenCalled();
+  });
+
+  it('should end the session when the server rejects it', async () => {
+    const clearTokens = vi.spyOn(tokenStorage, 'clear');
+    server.use(
+      http.get(
+        API_ENDPOINTS.AUTH.PROFILE,
+        () => mockResponse.error(403, 'Account disabled', 'FORBIDDEN'),
+        true
+      )
+    );
+    renderProtectedPage();
+
+    await vi.waitFor(() => expect(clearTokens).toHaveBeenCalled());
+    expect(screen.queryByText('Dashboard')).not.toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Try Again' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should sign out in place when a request is rejected for good', async () => {
+    server.use(
+      http.get(API_ENDPOINTS.AUTH.PROFILE, () => mockResponse.ok(mockUser)),
+      http.get(API_ENDPOINTS.USERS.LIST, () =>
+        mockResponse.error(401, 'Session expired', 'UNAUTHORIZED')
+      )
+    );
+    renderProtectedPage();
+    expect(await screen.findByText('Dashboard')).toBeInTheDocument();
+
+    await expect(apiClient.get(API_ENDPOINTS.USERS.LIST)).rejects.toMatchObject(
+      { status: 401 }
+    );
+
+    await vi.waitFor(() =>
+      expect(screen.queryByText('Dashboard')).not.toBeInTheDocument()
+    );
+    // No reload: the route guard takes the user to login and back
+    expect(window.location.href).toBe('http://localhost:3000');
+  });
+});
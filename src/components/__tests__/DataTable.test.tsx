@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DataTable } from '@/components/DataTable';
+import { TableColumn } from '@/types';
+import { renderWithProviders, screen, userEvent } from '@/test/utils';
+
+interface Row {
+  id: number;
+  name: string;
+}
+
+const columns: TableColumn<Row>[] = [{ key: 'name', title: 'Name' }];
+const firstPage: Row[] = [
+  { id: 1, name: 'Ada' },
+  { id: 2, name: 'Grace' },
+];
+const secondPage: Row[] = [{ id: 3, name: 'Linus' }];
+
+describe('DataTable', () => {
+  it('should only keep selected rows that are in the current data', async () => {
+    const user = userEvent.setup();
+    const archive = vi.fn();
+    const onSelectionChange = vi.fn();
+    const renderPage = (data: Row[]) => (
+      <DataTable
+        data={data}
+        columns={columns}
+        mode='server'
+        selectable
+        onSelectionChange={onSelectionChange}
+        bulkActions={[{ label: 'Archive', onClick: archive }]}
+      />
+    );
+    const { rerender } = renderWithProviders(renderPage(firstPage), {
+      withModals: false,
+      withNotifications: false,
+      withRouter: false,
+    });
+
+    const [firstRow] = screen.getAllByRole('checkbox', { name: 'Select row' });
+    await user.click(firstRow);
+    expect(screen.getByText('1 selected')).toBeInTheDocument();
+
+    // The server sends the next page
+    rerender(renderPage(secondPage));
+    expect(screen.queryByText(/selected$/)).not.toBeInTheDocument();
+    expect(onSelectionChange).toHaveBeenLastCalledWith([]);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Select row' }));
+    expect(screen.getByText('1 selected')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Archive' }));
+
+    expect(archive).toHaveBeenCalledWith(secondPage);
+  });
+});
@@ -5,8 +5,14 @@ interface EnvConfig {
   NODE_ENV: string;
   API_BASE_URL: string;
   API_TIMEOUT: number;
+  API_RETRY_ATTEMPTS: number;
   ENABLE_ANALYTICS: boolean;
   ENABLE_DEBUG: boolean;
+  ENABLE_OFFLINE_QUEUE: boolean;
+  ENABLE_MOCK_API: boolean;
+  ENABLE_ERROR_TOASTS: boolean;
+  ENABLE_REALTIME: boolean;
+  REALTIME_URL: string;
 }
 
 const getEnvVar = (key: string, defaultValue?: string): string => {
@@ -33,6 +39,8 @@ const getNumberEnvVar = (key: string, defaultValue?: number): number => {
   return parsed;
 };
 
+const apiBaseUrl = getEnvVar('VITE_API_BASE_URL', 'http://localhost:8000/api');
+
 export const env: EnvConfig = {
   APP_NAME: getEnvVar('VITE_APP_NAME', 'Kurama'),
   APP_VERSION: getEnvVar('VITE_APP_VERSION', '1.0.0'),
@@ -41,10 +49,17 @@ export const env: EnvConfig = {
     'Enterprise React Application'
   ),
   NODE_ENV: getEnvVar('VITE_NODE_ENV', 'development'),
-  API_BASE_URL: getEnvVar('VITE_API_BASE_URL', 'http://localhost:8000/api'),
+  API_BASE_URL: apiBaseUrl,
   API_TIMEOUT: getNumberEnvVar('VITE_API_TIMEOUT', 10000),
+  API_RETRY_ATTEMPTS: getNumberEnvVar('VITE_API_RETRY_ATTEMPTS', 3),
   ENABLE_ANALYTICS: getBooleanEnvVar('VITE_ENABLE_ANALYTICS', false),
   ENABLE_DEBUG: getBooleanEnvVar('VITE_ENABLE_DEBUG', true),
+  ENABLE_OFFLINE_QUEUE: getBooleanEnvVar('VITE_ENABLE_OFFLINE_QUEUE', false),
+  ENABLE_MOCK_API: getBooleanEnvVar('VITE_ENABLE_MOCK_API', false),
+  ENABLE_ERROR_TOASTS: getBooleanEnvVar('VITE_ENABLE_ERROR_TOASTS', false),
+  ENABLE_REALTIME: getBooleanEnvVar('VITE_ENABLE_REALTIME', false),
+  // http(s) URL; WebSocket connections use the matching ws(s) scheme
+  REALTIME_URL: getEnvVar('VITE_REALTIME_URL', `${apiBaseUrl}/realtime`),
 };
 
 export const isDevelopment = env.NODE_ENV === 'development';
@@ -0,0 +1,58 @@
+import { ROUTES } from '@/constants';
+import { DashboardPage } from '@/pages/DashboardPage';
+import { ForbiddenPage } from '@/pages/ForbiddenPage';
+import { HomePage } from '@/pages/HomePage';
+import { LoginPage } from '@/pages/LoginPage';
+import { NotFoundPage } from '@/pages/NotFoundPage';
+import { ProfilePage } from '@/pages/ProfilePage';
+import { RegisterPage } from '@/pages/RegisterPage';
+import { SettingsPage } from '@/pages/SettingsPage';
+import { UsersPage } from '@/pages/UsersPage';
+import { RouteConfig, UserRole } from '@/types';
+
+// Application route table. Routes listing `roles` are implicitly protected.
+export const routes: RouteConfig[] = [
+  { path: ROUTES.HOME, component: HomePage, title: 'Home' },
+  {
+    path: ROUTES.DASHBOARD,
+    component: DashboardPage,
+    roles: [UserRole.ADMIN, UserRole.MODERATOR],
+    title: 'Dashboard',
+  },
+  {
+    path: ROUTES.ADMIN_USERS,
+    component: UsersPage,
+    roles: [UserRole.ADMIN, UserRole.MODERATOR],
+    title: 'Users',
+  },
+  {
+    path: ROUTES.PROFILE,
+    component: ProfilePage,
+    protected: true,
+    title: 'Profile',
+  },
+  {
+    path: ROUTES.SETTINGS,
+    component: SettingsPage,
+    protected: true,
+    title: 'Settings',
+  },
+  { path: ROUTES.FORBIDDEN, component: ForbiddenPage, title: 'Access Denied' },
+
+  // Auth routes - no layout
+  {
+    path: ROUTES.LOGIN,
+    component: LoginPage,
+    title: 'Sign In',
+    withLayout: false,
+  },
+  {
+    path: ROUTES.REGISTER,
+    component: RegisterPage,
+    title: 'Create Account',
+    withLayout: false,
+  },
+
+  // 404 route - no layout
+  { path: '*', component: NotFoundPage, withLayout: false },
+];
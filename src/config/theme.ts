@@ -0,0 +1,105 @@
+import { createTheme, MantineColor, MantineThemeOverride } from '@mantine/core';
+import { THEME_CONSTANTS } from '@/constants';
+import { ThemeConfig, ThemeMode } from '@/types';
+
+export type ColorScheme = 'light' | 'dark';
+
+// Primary colors users can pick from; all are built-in Mantine palettes
+// except 'brand', defined below
+export const PRIMARY_COLOR_OPTIONS: Array<{
+  value: MantineColor;
+  label: string;
+}> = [
+  { value: 'blue', label: 'Blue' },
+  { value: 'brand', label: 'Brand' },
+  { value: 'indigo', label: 'Indigo' },
+  { value: 'violet', label: 'Violet' },
+  { value: 'teal', label: 'Teal' },
+  { value: 'green', label: 'Green' },
+  { value: 'orange', label: 'Orange' },
+  { value: 'red', label: 'Red' },
+];
+
+export const FONT_FAMILY_OPTIONS = [
+  {
+    value:
+      'Inter, -apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif',
+    label: 'Inter',
+  },
+  {
+    value: '-apple-system, BlinkMacSystemFont, Segoe UI, Roboto, sans-serif',
+    label: 'System',
+  },
+  {
+    value: 'Georgia, Cambria, Times New Roman, serif',
+    label: 'Serif',
+  },
+  {
+    value: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+    label: 'Monospace',
+  },
+];
+
+export const DEFAULT_THEME_CONFIG: ThemeConfig = {
+  mode: THEME_CONSTANTS.SYSTEM,
+  primaryColor: 'blue',
+  fontFamily: FONT_FAMILY_OPTIONS[0].value,
+};
+
+// Shared theme settings; primary color and font come from the ThemeConfig
+const baseTheme: MantineThemeOverride = {
+  defaultRadius: 'md',
+  cursorType: 'pointer',
+  focusRing: 'auto',
+  respectReducedMotion: true,
+  colors: {
+    // Custom color palette can be added here
+    brand: [
+      '#e3f2fd',
+      '#bbdefb',
+      '#90caf9',
+      '#64b5f6',
+      '#42a5f5',
+      '#2196f3',
+      '#1e88e5',
+      '#1976d2',
+      '#1565c0',
+      '#0d47a1',
+    ],
+  },
+  breakpoints: {
+    xs: '30em',
+    sm: '48em',
+    md: '64em',
+    lg: '74em',
+    xl: '90em',
+  },
+  spacing: {
+    xs: '0.625rem',
+    sm: '0.875rem',
+    md: '1.125rem',
+    lg: '1.375rem',
+    xl: '1.875rem',
+  },
+  shadows: {
+    xs: '0 1px 3px rgba(0, 0, 0, 0.05), 0 1px 2px rgba(0, 0, 0, 0.1)',
+    sm: '0 1px 3px rgba(0, 0, 0, 0.05), 0 1px 2px rgba(0, 0, 0, 0.1)',
+    md: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+    lg: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+    xl: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+  },
+};
+
+export const createAppTheme = ({ primaryColor, fontFamily }: ThemeConfig) =>
+  createTheme({
+    ...baseTheme,
+    primaryColor,
+    fontFamily,
+    headings: { fontFamily },
+  });
+
+// 'system' follows the operating system setting
+export const resolveColorScheme = (
+  mode: ThemeMode,
+  systemScheme: ColorScheme
+): ColorScheme => (mode === THEME_CONSTANTS.SYSTEM ? systemScheme : mode);
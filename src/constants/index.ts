@@ -5,8 +5,36 @@ export const APP_CONSTANTS = {
   SUPPORTED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
   DEBOUNCE_DELAY: 300,
   TOAST_DURATION: 5000,
+  PAGE_SIZE_OPTIONS: [10, 20, 50, 100],
+  // Oldest notifications are dropped from the history beyond this
+  NOTIFICATION_HISTORY_LIMIT: 100,
 } as const;
 
+// Languages the interface is offered in
+export const SUPPORTED_LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'ar', label: 'العربية' },
+  { value: 'he', label: 'עברית' },
+] as const;
+
+// Languages written right to left; the layout is mirrored for these
+export const RTL_LANGUAGES: readonly string[] = ['ar', 'he'];
+
+// Regional formats for dates and numbers
+export const SUPPORTED_LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+  { value: 'ar-EG', label: 'العربية (مصر)' },
+  { value: 'he-IL', label: 'עברית (ישראל)' },
+] as const;
+
 // Route Constants
 export const ROUTES = {
   HOME: '/',
@@ -15,8 +43,10 @@ export const ROUTES = {
   LOGIN: '/login',
   REGISTER: '/register',
   DASHBOARD: '/dashboard',
+  ADMIN_USERS: '/dashboard/users',
   PROFILE: '/profile',
   SETTINGS: '/settings',
+  FORBIDDEN: '/403',
   NOT_FOUND: '/404',
 } as const;
 
@@ -28,6 +58,9 @@ export const API_ENDPOINTS = {
     LOGOUT: '/auth/logout',
     REFRESH: '/auth/refresh',
     PROFILE: '/auth/profile',
+    AVATAR: '/auth/profile/avatar',
+    CHANGE_PASSWORD: '/auth/change-password',
+    PREFERENCES: '/auth/preferences',
   },
   USERS: {
     LIST: '/users',
@@ -36,6 +69,20 @@ export const API_ENDPOINTS = {
     DELETE: (id: string) => `/users/${id}`,
     GET: (id: string) => `/users/${id}`,
   },
+  NOTIFICATIONS: '/notifications',
+  SYSTEM: {
+    STATUS: '/system/status',
+  },
+  REALTIME: {
+    TICKETS: '/realtime/tickets',
+  },
+  UPLOADS: '/uploads',
+} as const;
+
+// Topics published over the realtime connection
+export const REALTIME_TOPICS = {
+  NOTIFICATIONS: 'notifications',
+  SYSTEM_STATUS: 'system.status',
 } as const;
 
 // Storage Keys
@@ -45,6 +92,8 @@ export const STORAGE_KEYS = {
   USER_PREFERENCES: 'user_preferences',
   THEME: 'theme',
   LANGUAGE: 'language',
+  UPLOAD_SESSIONS: 'upload_sessions',
+  NOTIFICATIONS: 'notifications',
 } as const;
 
 // Theme Constants
@@ -72,9 +121,12 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  REQUEST_TIMEOUT: 408,
   CONFLICT: 409,
   UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
   BAD_GATEWAY: 502,
   SERVICE_UNAVAILABLE: 503,
+  GATEWAY_TIMEOUT: 504,
 } as const;
@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import { LoginCredentials, RegisterData, User } from '@/types';
+
+export interface AuthContextValue {
+  user: User | null;
+  isAuthenticated: boolean;
+  // True while the stored session is being restored on startup
+  isInitializing: boolean;
+  // Why the stored session couldn't be restored when the server didn't
+  // reject it (e.g. offline); the tokens are kept so refreshUser can retry
+  sessionError: Error | null;
+  login: (credentials: LoginCredentials) => Promise<User>;
+  register: (data: RegisterData, rememberMe?: boolean) => Promise<User>;
+  logout: () => Promise<void>;
+  refreshUser: () => Promise<User | null>;
+  // Replace the signed-in user after their profile was changed
+  updateUser: (user: User) => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
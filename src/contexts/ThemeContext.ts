@@ -0,0 +1,17 @@
+import { createContext } from 'react';
+import { MantineColor } from '@mantine/core';
+import { ColorScheme } from '@/config/theme';
+import { ThemeConfig, ThemeMode } from '@/types';
+
+export interface ThemeContextValue {
+  config: ThemeConfig;
+  // The scheme in use, with 'system' resolved
+  colorScheme: ColorScheme;
+  setMode: (mode: ThemeMode) => void;
+  setPrimaryColor: (color: MantineColor) => void;
+  setFontFamily: (fontFamily: string) => void;
+  toggleColorScheme: () => void;
+  resetTheme: () => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
@@ -0,0 +1,380 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  MockInstance,
+} from 'vitest';
+import { createElement, ReactNode } from 'react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  cacheUpdate,
+  ApiCallContext,
+  cursorPagination,
+  useAbortableApi,
+  useApi,
+  useInfiniteApi,
+  useMutation,
+  usePaginatedApi,
+} from '@/hooks/useApi';
+import { ApiClientError, apiClient } from '@/services/api';
+import { queryCache } from '@/services/queryCache';
+import { SearchFilters } from '@/types';
+
+interface Item {
+  id: string;
+  name: string;
+}
+
+const LIST_KEY = '/items';
+
+describe('useApi', () => {
+  it('should pass only the execute() arguments to the API call', async () => {
+    const apiCall = vi.fn((id: string, params?: { expand: boolean }) =>
+      Promise.resolve(`${id}:${params?.expand ?? 'none'}`)
+    );
+    const { result } = renderHook(() => useApi(apiCall));
+
+    await act(async () => {
+      await result.current.execute('42');
+    });
+
+    expect(apiCall).toHaveBeenCalledWith('42');
+    expect(result.current.data).toBe('42:none');
+
+    // @ts-expect-error execute() is typed from the API call's parameters
+    const wrongArgs: Parameters<typeof result.current.execute> = [42];
+    expect(wrongArgs).toHaveLength(1);
+  });
+});
+
+describe('useAbortableApi', () => {
+  it('should pass the abort signal ahead of the execute() arguments', async () => {
+    const apiCall = vi.fn(({ signal }: ApiCallContext, id: string) =>
+      Promise.resolve(`${id}:${signal.aborted}`)
+    );
+    const { result, unmount } = renderHook(() => useAbortableApi(apiCall));
+
+    await act(async () => {
+      await result.current.execute('42');
+    });
+    expect(apiCall).toHaveBeenCalledWith(
+      { signal: expect.any(AbortSignal) },
+      '42'
+    );
+    expect(result.current.data).toBe('42:false');
+
+    let pending: Promise<string | null>;
+    act(() => {
+      pending = result.current.execute('43');
+    });
+    const [{ signal }] = apiCall.mock.lastCall!;
+    unmount();
+    expect(signal.aborted).toBe(true);
+    await act(async () => {
+      await pending;
+    });
+  });
+});
+
+describe('useMutation', () => {
+  beforeEach(() => {
+    queryCache.clear();
+    queryCache.setQueryData<Item[]>(LIST_KEY, [{ id: '1', name: 'Old' }]);
+  });
+
+  const renameOptimistically = (item: Item) => [
+    cacheUpdate<Item[]>(LIST_KEY, items =>
+      items?.map(current => (current.id === item.id ? item : current))
+    ),
+  ];
+
+  it('should apply optimistic updates and keep them on success', async () => {
+    const mutationFn = vi.fn().mockResolvedValue({ id: '1', name: 'New' });
+    const { result } = renderHook(() =>
+      useMutation<Item, Item>(mutationFn, { optimistic: renameOptimistically })
+    );
+
+    let pending: Promise<Item | null>;
+    act(() => {
+      pending = result.current.mutate({ id: '1', name: 'New' });
+    });
+    expect(queryCache.getQueryData<Item[]>(LIST_KEY)?.[0].name).toBe('New');
+
+    await act(async () => {
+      await pending;
+    });
+    expect(result.current.data).toEqual({ id: '1', name: 'New' });
+    expect(queryCache.getQueryData<Item[]>(LIST_KEY)?.[0].name).toBe('New');
+  });
+
+  it('should roll back optimistic updates when the request fails', async () => {
+    const mutationFn = vi
+      .fn()
+      .mockRejectedValue(new ApiClientError('Conflict', 409, 'CONFLICT'));
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useMutation<Item, Item>(mutationFn, {
+        optimistic: renameOptimistically,
+        onError,
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate({ id: '1', name: 'New' });
+    });
+
+    expect(queryCache.getQueryData<Item[]>(LIST_KEY)?.[0].name).toBe('Old');
+    expect(result.current.error).toBe('Conflict');
+    expect(onError).toHaveBeenCalledWith(expect.any(ApiClientError), {
+      id: '1',
+      name: 'New',
+    });
+  });
+
+  it('should invalidate related queries once settled', async () => {
+    const invalidate = vi.spyOn(queryCache, 'invalidate');
+    const { result } = renderHook(() =>
+      useMutation<Item, Item>(vi.fn().mockResolvedValue(null), {
+        invalidates: [LIST_KEY],
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutate({ id: '1', name: 'New' });
+    });
+
+    expect(invalidate).toHaveBeenCalledWith(LIST_KEY);
+    invalidate.mockRestore();
+  });
+});
+
+describe('usePaginatedApi', () => {
+  const emptyPage = {
+    data: [],
+    pagination: {
+      page: 1,
+      limit: 20,
+      total: 0,
+      totalPages: 1,
+      hasNext: false,
+      hasPrev: false,
+    },
+  };
+  let get: MockInstance<typeof apiClient.get>;
+
+  beforeEach(() => {
+    queryCache.clear();
+    get = vi.spyOn(apiClient, 'get').mockResolvedValue(emptyPage);
+  });
+
+  afterEach(() => {
+    get.mockRestore();
+  });
+
+  const renderList = (
+    initialUrl = '/items',
+    debounceDelay = 10,
+    filters?: SearchFilters
+  ) => {
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(MemoryRouter, { initialEntries: [initialUrl] }, children);
+    return renderHook(
+      () => ({
+        list: usePaginatedApi('/items', {
+          syncWithUrl: true,
+          debounceDelay,
+          filters,
+        }),
+        location: useLocation(),
+      }),
+      { wrapper }
+    );
+  };
+
+  const lastRequestUrl = () => get.mock.lastCall?.[0];
+
+  it('should restore page and filters from the query string', async () => {
+    const { result } = renderList('/items?page=3&status=active&sortBy=name');
+
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe(
+        '/items?page=3&limit=20&status=active&sortBy=name'
+      )
+    );
+    expect(result.current.list.currentPage).toBe(3);
+    expect(result.current.list.filters.status).toBe('active');
+  });
+
+  it('should reset to page 1 and update the URL when filters change', async () => {
+    const { result } = renderList('/items?page=3&tab=all');
+    await waitFor(() => expect(get).toHaveBeenCalled());
+
+    act(() => {
+      result.current.list.setFilters({ sortBy: 'name', sortOrder: 'desc' });
+    });
+
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe(
+        '/items?page=1&limit=20&sortBy=name&sortOrder=desc'
+      )
+    );
+    expect(result.current.location.search).toBe(
+      '?tab=all&sortBy=name&sortOrder=desc'
+    );
+  });
+
+  it('should keep cleared filters instead of the initial ones', async () => {
+    const { result } = renderList('/items', 10, { status: 'active' });
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe('/items?page=1&limit=20&status=active')
+    );
+
+    act(() => {
+      result.current.list.resetFilters();
+    });
+
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe('/items?page=1&limit=20')
+    );
+    expect(result.current.list.filters).toEqual({});
+    expect(result.current.location.search).toBe('?filters=none');
+  });
+
+  it('should debounce query changes', async () => {
+    const { result } = renderList();
+    await waitFor(() => expect(get).toHaveBeenCalledTimes(1));
+
+    act(() => {
+      result.current.list.setFilters({ query: 'j' });
+      result.current.list.setFilters({ query: 'jo' });
+    });
+    // The input reflects the draft right away
+    expect(result.current.list.filters.query).toBe('jo');
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe('/items?page=1&limit=20&query=jo')
+    );
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(result.current.location.search).toBe('?query=jo');
+  });
+
+  it('should work outside a Router when not syncing with the URL', async () => {
+    const { result } = renderHook(() => usePaginatedApi('/items'));
+
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe('/items?page=1&limit=20')
+    );
+    act(() => {
+      result.current.setPageSize(50);
+    });
+    await waitFor(() =>
+      expect(lastRequestUrl()).toBe('/items?page=1&limit=50')
+    );
+  });
+
+  it('should keep pages in the query cache for mutations to update', async () => {
+    const { result } = renderList();
+    await waitFor(() => expect(get).toHaveBeenCalledTimes(1));
+    expect(result.current.list.queryKey).toBe('/items?page=1&limit=20');
+
+    act(() => {
+      queryCache.setQueryData(result.current.list.queryKey, {
+        ...emptyPage,
+        data: [{ id: '1', name: 'Added' }],
+      });
+    });
+
+    expect(result.current.list.data).toEqual([{ id: '1', name: 'Added' }]);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useInfiniteApi', () => {
+  let get: MockInstance<typeof apiClient.get>;
+
+  afterEach(() => {
+    get.mockRestore();
+  });
+
+  const page = (page: number, hasNext: boolean) => ({
+    data: [{ id: String(page), name: `Item ${page}` }],
+    pagination: {
+      page,
+      limit: 1,
+      total: 2,
+      totalPages: 2,
+      hasNext,
+      hasPrev: page > 1,
+    },
+  });
+
+  it('should append page-numbered pages until the last one', async () => {
+    get = vi
+      .spyOn(apiClient, 'get')
+      .mockResolvedValueOnce(page(1, true))
+      .mockResolvedValueOnce(page(2, false));
+    const { result } = renderHook(() =>
+      useInfiniteApi<Item>('/items', { pageSize: 1 })
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+    expect(result.current.hasNextPage).toBe(true);
+
+    let pending: Promise<void>;
+    act(() => {
+      pending = result.current.fetchNextPage();
+    });
+    expect(result.current.isFetchingNextPage).toBe(true);
+    expect(result.current.isLoading).toBe(false);
+    await act(async () => {
+      await pending;
+    });
+
+    expect(get).toHaveBeenLastCalledWith('/items?page=2&limit=1', {
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.current.data.map(item => item.id)).toEqual(['1', '2']);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it('should follow cursors returned by the API', async () => {
+    interface AuditPage {
+      entries: { id: string }[];
+      nextToken: string | null;
+    }
+    get = vi
+      .spyOn(apiClient, 'get')
+      .mockResolvedValueOnce({ entries: [{ id: 'a' }], nextToken: 't2' })
+      .mockResolvedValueOnce({ entries: [{ id: 'b' }], nextToken: null });
+    const { result } = renderHook(() =>
+      useInfiniteApi<{ id: string }, AuditPage>('/audit-log', {
+        pageSize: 50,
+        pagination: cursorPagination<AuditPage>({
+          param: 'nextToken',
+          getNextCursor: page => page.nextToken,
+        }),
+        getItems: page => page.entries,
+      })
+    );
+
+    await waitFor(() => expect(result.current.data).toHaveLength(1));
+    expect(get).toHaveBeenLastCalledWith('/audit-log?limit=50', {
+      signal: expect.any(AbortSignal),
+    });
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    expect(get).toHaveBeenLastCalledWith('/audit-log?nextToken=t2&limit=50', {
+      signal: expect.any(AbortSignal),
+    });
+    expect(result.current.data.map(item => item.id)).toEqual(['a', 'b']);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+});
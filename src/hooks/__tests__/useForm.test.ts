@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useForm } from '@/hooks/useForm';
+import { ApiClientError } from '@/services/api';
+import { compose, email, required } from '@/utils/validators';
+
+interface ContactForm {
+  name: string;
+  address: { city: string };
+  contacts: Array<{ email: string }>;
+}
+
+const initialValues: ContactForm = {
+  name: '',
+  address: { city: '' },
+  contacts: [{ email: '' }],
+};
+
+const validate = {
+  name: required('Name is required'),
+  'address.city': required('City is required'),
+  'contacts[].email': [required(), email()],
+};
+
+describe('useForm', () => {
+  it('should validate every field before submitting', async () => {
+    const onSubmit = vi.fn();
+    const { result } = renderHook(() =>
+      useForm({ initialValues, validate, onSubmit })
+    );
+
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.errors).toEqual({
+      name: 'Name is required',
+      'address.city': 'City is required',
+      'contacts[0].email': 'This field is required',
+    });
+    expect(result.current.state.fields.name).toMatchObject({
+      touched: true,
+      required: true,
+      dirty: false,
+    });
+
+    act(() => {
+      result.current.setFieldValue('name', 'Ada');
+      result.current.setFieldValue('address.city', 'London');
+      result.current.setFieldValue('contacts.0.email', 'ada@example.com');
+    });
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Ada',
+      address: { city: 'London' },
+      contacts: [{ email: 'ada@example.com' }],
+    });
+    expect(result.current.isDirty).toBe(true);
+  });
+
+  it('should keep list errors attached to their items', async () => {
+    const { result } = renderHook(() =>
+      useForm({ initialValues, validate, onSubmit: vi.fn() })
+    );
+
+    act(() => {
+      result.current.insertListItem('contacts', { email: 'not-an-email' });
+    });
+    await act(async () => {
+      await result.current.validate();
+    });
+    expect(result.current.errors['contacts[1].email']).toBe(
+      'Enter a valid email address'
+    );
+
+    act(() => {
+      result.current.removeListItem('contacts', 0);
+    });
+
+    expect(result.current.values.contacts).toEqual([{ email: 'not-an-email' }]);
+    expect(result.current.errors['contacts[0].email']).toBe(
+      'Enter a valid email address'
+    );
+    expect(result.current.errors['contacts[1].email']).toBeUndefined();
+  });
+
+  it('should run async validators on blur', async () => {
+    const isTaken = vi.fn(async (value: unknown) =>
+      value === 'taken@example.com' ? 'Email is already in use' : undefined
+    );
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { email: 'taken@example.com' },
+        validate: { email: compose(required(), email(), isTaken) },
+        onSubmit: vi.fn(),
+      })
+    );
+
+    await act(async () => {
+      result.current.getInputProps('email').onBlur();
+    });
+
+    expect(isTaken).toHaveBeenCalledWith('taken@example.com', {
+      email: 'taken@example.com',
+    });
+    expect(result.current.getField('email')).toMatchObject({
+      error: 'Email is already in use',
+      touched: true,
+    });
+    expect(result.current.isValidating).toBe(false);
+  });
+
+  it('should map server field errors onto the form', async () => {
+    const onSubmit = vi.fn().mockRejectedValue(
+      new ApiClientError('Conflict', 409, 'EMAIL_TAKEN', {
+        fields: { 'contacts.0.email': 'An account with this email exists' },
+      })
+    );
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: {
+          ...initialValues,
+          name: 'Ada',
+          address: { city: 'London' },
+          contacts: [{ email: 'ada@example.com' }],
+        },
+        validate,
+        onSubmit,
+      })
+    );
+
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+
+    expect(result.current.errors).toEqual({
+      'contacts[0].email': 'An account with this email exists',
+    });
+    expect(result.current.submitError).toBeNull();
+
+    onSubmit.mockRejectedValueOnce(new Error('Service unavailable'));
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+
+    expect(result.current.submitError).toBe('Service unavailable');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ReactNode } from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { ThemeProvider } from '@/components/ThemeProvider';
+import { STORAGE_KEYS } from '@/constants';
+import { useTheme } from '@/hooks/useTheme';
+import { preferencesStore } from '@/services/preferences';
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <ThemeProvider>{children}</ThemeProvider>
+);
+
+const lastSavedTheme = () => {
+  const calls = vi
+    .mocked(localStorage.setItem)
+    .mock.calls.filter(([key]) => key === STORAGE_KEYS.THEME);
+  return JSON.parse(calls[calls.length - 1][1]);
+};
+
+describe('useTheme', () => {
+  afterEach(() => {
+    act(() => preferencesStore.reset());
+  });
+
+  it('should follow the system color scheme by default', () => {
+    const { result } = renderHook(() => useTheme(), { wrapper });
+
+    expect(result.current.config.mode).toBe('system');
+    // matchMedia is mocked to never match, so the system scheme is light
+    expect(result.current.colorScheme).toBe('light');
+    expect(document.documentElement.classList.contains('dark')).toBe(false);
+  });
+
+  it('should switch Mantine and Tailwind to the chosen scheme', () => {
+    const { result } = renderHook(() => useTheme(), { wrapper });
+
+    act(() => result.current.setMode('dark'));
+
+    expect(result.current.colorScheme).toBe('dark');
+    expect(preferencesStore.getPreferences().theme).toBe('dark');
+    expect(document.documentElement.classList.contains('dark')).toBe(true);
+    expect(
+      document.documentElement.getAttribute('data-mantine-color-scheme')
+    ).toBe('dark');
+
+    act(() => result.current.toggleColorScheme());
+
+    expect(result.current.colorScheme).toBe('light');
+    expect(document.documentElement.classList.contains('dark')).toBe(false);
+  });
+
+  it('should persist the theme config', () => {
+    const { result } = renderHook(() => useTheme(), { wrapper });
+
+    act(() => {
+      result.current.setMode('dark');
+      result.current.setPrimaryColor('teal');
+    });
+
+    expect(lastSavedTheme()).toEqual({
+      mode: 'dark',
+      primaryColor: 'teal',
+      fontFamily: result.current.config.fontFamily,
+    });
+  });
+});
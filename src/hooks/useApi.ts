@@ -1,6 +1,38 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { apiClient, ApiClientError } from '@/services/api';
-import { LoadingState } from '@/types';
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { APP_CONSTANTS } from '@/constants';
+import {
+  apiClient,
+  ApiClientError,
+  isAbortError,
+  isOfflineQueuedError,
+} from '@/services/api';
+import {
+  queryCache,
+  QueryKey,
+  QueryKeyMatcher,
+  QueryOptions,
+} from '@/services/queryCache';
+import {
+  CursorPaginatedResponse,
+  LoadingState,
+  PaginatedResponse,
+  SearchFilters,
+} from '@/types';
+import { debounce, isEmpty } from '@/utils';
+import {
+  buildUrlWithParams,
+  FILTER_PARAM_NAMES,
+  parseFilters,
+  serializeFilters,
+} from '@/utils/searchParams';
 
 interface UseApiOptions {
   immediate?: boolean;
@@ -8,69 +40,107 @@ interface UseApiOptions {
   onError?: (error: ApiClientError) => void;
 }
 
-interface UseApiReturn<T> extends LoadingState {
+interface UseApiReturn<T, A extends unknown[] = unknown[]>
+  extends LoadingState {
   data: T | null;
-  execute: (...args: unknown[]) => Promise<T | null>;
+  execute: (...args: A) => Promise<T | null>;
   reset: () => void;
 }
 
-export function useApi<T = unknown>(
-  apiCall: (...args: unknown[]) => Promise<T>,
+// Passed to useAbortableApi calls ahead of the arguments given to execute().
+// The signal fires when the call is superseded by a newer execute() or the
+// component unmounts.
+export interface ApiCallContext {
+  signal: AbortSignal;
+}
+
+// Calls apiCall with the arguments given to execute(). Results of superseded
+// calls are dropped; use useAbortableApi to also cancel their requests.
+export function useApi<T = unknown, A extends unknown[] = []>(
+  apiCall: (...args: A) => Promise<T>,
+  options: UseApiOptions = {}
+): UseApiReturn<T, A> {
+  const callWithoutContext = useCallback(
+    (_context: ApiCallContext, ...args: A) => apiCall(...args),
+    [apiCall]
+  );
+  return useAbortableApi(callWithoutContext, options);
+}
+
+export function useAbortableApi<T = unknown, A extends unknown[] = []>(
+  apiCall: (context: ApiCallContext, ...args: A) => Promise<T>,
   options: UseApiOptions = {}
-): UseApiReturn<T> {
-  const { immediate = false, onSuccess, onError } = options;
+): UseApiReturn<T, A> {
+  const { immediate = false } = options;
   const [data, setData] = useState<T | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const mountedRef = useRef(true);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Keep the latest callbacks without recreating execute on every render
+  const callbacksRef = useRef(options);
+  useEffect(() => {
+    callbacksRef.current = options;
+  });
 
   useEffect(() => {
     return () => {
-      mountedRef.current = false;
+      controllerRef.current?.abort();
+      controllerRef.current = null;
     };
   }, []);
 
   const execute = useCallback(
-    async (...args: unknown[]): Promise<T | null> => {
+    async (...args: A): Promise<T | null> => {
+      // Only the latest call may update state
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const isCurrent = () => controllerRef.current === controller;
+
       try {
         setIsLoading(true);
         setError(null);
 
-        const result = await apiCall(...args);
+        const result = await apiCall({ signal: controller.signal }, ...args);
 
-        if (mountedRef.current) {
+        if (isCurrent()) {
           setData(result);
-          onSuccess?.(result);
+          callbacksRef.current.onSuccess?.(result);
         }
 
         return result;
       } catch (err) {
         const apiError = err as ApiClientError;
 
-        if (mountedRef.current) {
+        if (isCurrent() && !isAbortError(apiError)) {
           setError(apiError.message);
-          onError?.(apiError);
+          callbacksRef.current.onError?.(apiError);
         }
 
         return null;
       } finally {
-        if (mountedRef.current) {
+        if (isCurrent()) {
           setIsLoading(false);
+          controllerRef.current = null;
         }
       }
     },
-    [apiCall, onSuccess, onError]
+    [apiCall]
   );
 
   const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
     setData(null);
     setIsLoading(false);
     setError(null);
   }, []);
 
+  // Immediate calls run without arguments
   useEffect(() => {
     if (immediate) {
-      execute();
+      (execute as () => Promise<T | null>)();
     }
   }, [immediate, execute]);
 
@@ -84,68 +154,323 @@ export function useApi<T = unknown>(
 }
 
 // Specialized hooks for common HTTP methods
+interface UseGetOptions extends UseApiOptions, QueryOptions {
+  // Cache key, defaults to the request URL
+  queryKey?: string;
+}
+
+interface UseGetReturn<T> extends UseApiReturn<T> {
+  isFetching: boolean;
+  invalidate: () => Promise<void>;
+}
+
+// GET requests are served from the shared query cache, so components asking
+// for the same URL share one request and its result.
 export function useGet<T = unknown>(
   url: string,
-  options: UseApiOptions & { immediate?: boolean } = {}
-): UseApiReturn<T> {
-  const apiCall = useCallback(() => apiClient.get<T>(url), [url]);
-  return useApi(apiCall, options);
+  options: UseGetOptions = {}
+): UseGetReturn<T> {
+  const {
+    immediate = false,
+    queryKey = url,
+    staleTime,
+    cacheTime,
+    refetchOnWindowFocus,
+    refetchOnReconnect,
+  } = options;
+
+  // Keep the latest callbacks without re-running effects on every render
+  const callbacksRef = useRef(options);
+  useEffect(() => {
+    callbacksRef.current = options;
+  });
+
+  const state = useSyncExternalStore(
+    useCallback(
+      listener => queryCache.subscribe(queryKey, listener),
+      [queryKey]
+    ),
+    () => queryCache.getState<T>(queryKey)
+  );
+
+  const fetchData = useCallback(
+    async (force: boolean): Promise<T | null> => {
+      try {
+        const result = await queryCache.fetchQuery(
+          queryKey,
+          signal => apiClient.get<T>(url, { signal }),
+          {
+            force,
+            staleTime,
+            cacheTime,
+            refetchOnWindowFocus,
+            refetchOnReconnect,
+          }
+        );
+        callbacksRef.current.onSuccess?.(result);
+        return result;
+      } catch (err) {
+        // Aborted because the entry was removed, e.g. on sign-out
+        if (!isAbortError(err)) {
+          callbacksRef.current.onError?.(err as ApiClientError);
+        }
+        return null;
+      }
+    },
+    [
+      queryKey,
+      url,
+      staleTime,
+      cacheTime,
+      refetchOnWindowFocus,
+      refetchOnReconnect,
+    ]
+  );
+
+  const execute = useCallback(() => fetchData(true), [fetchData]);
+
+  const reset = useCallback(() => queryCache.remove(queryKey), [queryKey]);
+
+  const invalidate = useCallback(
+    () => queryCache.invalidate(queryKey),
+    [queryKey]
+  );
+
+  // Fetch on mount unless the cached data is still fresh
+  useEffect(() => {
+    if (immediate) {
+      fetchData(false);
+    }
+  }, [immediate, fetchData]);
+
+  return {
+    data: state.data ?? null,
+    isLoading: state.status === 'loading',
+    isFetching: state.isFetching,
+    error: state.error?.message ?? null,
+    execute,
+    reset,
+    invalidate,
+  };
+}
+
+// Mutations
+interface CacheUpdate {
+  queryKey: QueryKey;
+  updater: (current: unknown) => unknown;
+}
+
+// Typed helper for building cache updates
+export function cacheUpdate<D>(
+  queryKey: QueryKey,
+  updater: (current: D | undefined) => D | undefined
+): CacheUpdate {
+  return { queryKey, updater: updater as (current: unknown) => unknown };
+}
+
+interface MutationCacheOptions<T, V> {
+  // Applied before the request; rolled back if it fails
+  optimistic?: (variables: V) => CacheUpdate[];
+  // Patch cached queries with the server response
+  updates?: (data: T, variables: V) => CacheUpdate[];
+  // Queries to refetch once the mutation settles
+  invalidates?:
+    | QueryKeyMatcher[]
+    | ((data: T | null, variables: V) => QueryKeyMatcher[]);
+}
+
+interface UseMutationOptions<T, V> extends MutationCacheOptions<T, V> {
+  onSuccess?: (data: T, variables: V) => void;
+  onError?: (error: ApiClientError, variables: V) => void;
+  onSettled?: (
+    data: T | null,
+    error: ApiClientError | null,
+    variables: V
+  ) => void;
+}
+
+interface UseMutationReturn<T, V> extends LoadingState {
+  data: T | null;
+  // Resolves to null on failure; use mutateAsync to handle errors yourself
+  mutate: (variables: V) => Promise<T | null>;
+  mutateAsync: (variables: V) => Promise<T>;
+  reset: () => void;
+}
+
+export function useMutation<T = unknown, V = void>(
+  mutationFn: (variables: V) => Promise<T>,
+  options: UseMutationOptions<T, V> = {}
+): UseMutationReturn<T, V> {
+  const [data, setData] = useState<T | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  // Keep the latest callbacks without recreating mutate on every render
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const mutateAsync = useCallback(
+    async (variables: V): Promise<T> => {
+      const {
+        optimistic,
+        updates,
+        invalidates,
+        onSuccess,
+        onError,
+        onSettled,
+      } = optionsRef.current;
+
+      // Snapshot affected queries, then apply the optimistic changes
+      const snapshots = new Map<QueryKey, unknown>();
+      optimistic?.(variables).forEach(({ queryKey, updater }) => {
+        if (!snapshots.has(queryKey)) {
+          snapshots.set(queryKey, queryCache.getQueryData(queryKey));
+        }
+        queryCache.setQueryData(queryKey, updater);
+      });
+
+      setIsLoading(true);
+      setError(null);
+
+      let result: T | null = null;
+      let apiError: ApiClientError | null = null;
+
+      try {
+        result = await mutationFn(variables);
+        updates?.(result, variables).forEach(({ queryKey, updater }) => {
+          queryCache.setQueryData(queryKey, updater);
+        });
+
+        if (mountedRef.current) {
+          setData(result);
+        }
+        onSuccess?.(result, variables);
+        return result;
+      } catch (err) {
+        apiError = err as ApiClientError;
+
+        // Roll back optimistic changes, unless the mutation was queued to be
+        // sent once the connection returns
+        if (!isOfflineQueuedError(apiError)) {
+          snapshots.forEach((snapshot, queryKey) => {
+            queryCache.setQueryData(queryKey, snapshot);
+          });
+        }
+
+        if (mountedRef.current) {
+          setError(apiError.message);
+        }
+        onError?.(apiError, variables);
+        throw apiError;
+      } finally {
+        if (mountedRef.current) {
+          setIsLoading(false);
+        }
+
+        const keys =
+          typeof invalidates === 'function'
+            ? invalidates(result, variables)
+            : (invalidates ?? []);
+        keys.forEach(key => queryCache.invalidate(key));
+
+        onSettled?.(result, apiError, variables);
+      }
+    },
+    [mutationFn]
+  );
+
+  const mutate = useCallback(
+    (variables: V) => mutateAsync(variables).catch(() => null),
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => {
+    setData(null);
+    setIsLoading(false);
+    setError(null);
+  }, []);
+
+  return {
+    data,
+    isLoading,
+    error,
+    mutate,
+    mutateAsync,
+    reset,
+  };
 }
 
+// Adapt a mutation to the UseApiReturn shape shared by the HTTP method hooks
+function toApiReturn<T, V>(mutation: UseMutationReturn<T, V>): UseApiReturn<T> {
+  return {
+    data: mutation.data,
+    isLoading: mutation.isLoading,
+    error: mutation.error,
+    execute: (...args: unknown[]) => mutation.mutate(args[0] as V),
+    reset: mutation.reset,
+  };
+}
+
+type MutationHookOptions<T, D> = UseApiOptions & MutationCacheOptions<T, D>;
+
 export function usePost<T = unknown, D = unknown>(
   url: string,
-  options: UseApiOptions = {}
+  options: MutationHookOptions<T, D> = {}
 ): UseApiReturn<T> & {
   post: (data: D) => Promise<T | null>;
 } {
-  const apiCall = useCallback(
-    (...args: unknown[]) => {
-      const data = args[0] as D;
-      return apiClient.post<T>(url, data);
-    },
+  const mutationFn = useCallback(
+    (data: D) => apiClient.post<T>(url, data),
     [url]
   );
-  const result = useApi(apiCall, options);
+  const mutation = useMutation(mutationFn, options);
 
   return {
-    ...result,
-    post: result.execute as (data: D) => Promise<T | null>,
+    ...toApiReturn(mutation),
+    post: mutation.mutate,
   };
 }
 
 export function usePut<T = unknown, D = unknown>(
   url: string,
-  options: UseApiOptions = {}
+  options: MutationHookOptions<T, D> = {}
 ): UseApiReturn<T> & {
   put: (data: D) => Promise<T | null>;
 } {
-  const apiCall = useCallback(
-    (...args: unknown[]) => {
-      const data = args[0] as D;
-      return apiClient.put<T>(url, data);
-    },
+  const mutationFn = useCallback(
+    (data: D) => apiClient.put<T>(url, data),
     [url]
   );
-  const result = useApi(apiCall, options);
+  const mutation = useMutation(mutationFn, options);
 
   return {
-    ...result,
-    put: result.execute as (data: D) => Promise<T | null>,
+    ...toApiReturn(mutation),
+    put: mutation.mutate,
   };
 }
 
 export function useDelete<T = unknown>(
   url: string,
-  options: UseApiOptions = {}
+  options: MutationHookOptions<T, void> = {}
 ): UseApiReturn<T> & {
   deleteResource: () => Promise<T | null>;
 } {
-  const apiCall = useCallback(() => apiClient.delete<T>(url), [url]);
-  const result = useApi(apiCall, options);
+  const mutationFn = useCallback(() => apiClient.delete<T>(url), [url]);
+  const mutation = useMutation(mutationFn, options);
 
   return {
-    ...result,
-    deleteResource: result.execute as () => Promise<T | null>,
+    ...toApiReturn(mutation),
+    deleteResource: () => mutation.mutate(),
   };
 }
 
@@ -153,6 +478,12 @@ export function useDelete<T = unknown>(
 interface UsePaginatedApiOptions extends UseApiOptions {
   initialPage?: number;
   pageSize?: number;
+  // Filters to start from when the URL doesn't provide any
+  filters?: SearchFilters;
+  // Mirror page, page size and filters in the browser query string
+  syncWithUrl?: boolean;
+  // Delay before a changed text query is applied (ms)
+  debounceDelay?: number;
 }
 
 interface PaginatedData<T> {
@@ -170,80 +501,466 @@ interface PaginatedData<T> {
 interface UsePaginatedApiReturn<T> extends LoadingState {
   data: T[];
   pagination: PaginatedData<T>['pagination'] | null;
+  // Cache key of the current page, for mutations that update it
+  queryKey: QueryKey;
+  currentPage: number;
+  pageSize: number;
+  filters: SearchFilters;
   loadPage: (page: number) => Promise<void>;
   nextPage: () => Promise<void>;
   prevPage: () => Promise<void>;
   refresh: () => Promise<void>;
+  // Changing filters or page size starts over at page 1
+  setFilters: (filters: Partial<SearchFilters>) => void;
+  setPageSize: (pageSize: number) => void;
+  resetFilters: () => void;
+}
+
+interface ListState {
+  page: number;
+  pageSize: number;
+  filters: SearchFilters;
 }
 
+// Marks filters cleared on a list that starts filtered, so the URL doesn't
+// read back as the initial filters
+const NO_FILTERS_PARAM = 'filters';
+const LIST_PARAM_NAMES = [
+  'page',
+  'limit',
+  NO_FILTERS_PARAM,
+  ...FILTER_PARAM_NAMES,
+];
+
+// The initial filters apply only to a URL without any list state
+const readListState = (
+  params: URLSearchParams,
+  defaults: ListState
+): ListState => {
+  const hasListParams = LIST_PARAM_NAMES.some(name => params.has(name));
+  return {
+    page: Number(params.get('page')) || defaults.page,
+    pageSize: Number(params.get('limit')) || defaults.pageSize,
+    filters: hasListParams ? parseFilters(params) : defaults.filters,
+  };
+};
+
+type ListStateHook = (
+  defaults: ListState
+) => [ListState, (next: ListState) => void];
+
+const useLocalListState: ListStateHook = defaults => useState(defaults);
+
+// The URL is the source of truth when syncing, so back/forward and shared
+// links restore the same view. Must be used inside the Router.
+const useUrlListState: ListStateHook = defaults => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const defaultPageSize = defaults.pageSize;
+  const hasDefaultFilters = !isEmpty(serializeFilters(defaults.filters));
+
+  const setState = useCallback(
+    (next: ListState) =>
+      setSearchParams(
+        current => {
+          const params = new URLSearchParams(current);
+          LIST_PARAM_NAMES.forEach(name => params.delete(name));
+          if (next.page !== 1) params.set('page', String(next.page));
+          if (next.pageSize !== defaultPageSize) {
+            params.set('limit', String(next.pageSize));
+          }
+          const filterParams = serializeFilters(next.filters);
+          Object.entries(filterParams).forEach(([name, value]) =>
+            params.set(name, value)
+          );
+          if (isEmpty(filterParams) && hasDefaultFilters) {
+            params.set(NO_FILTERS_PARAM, 'none');
+          }
+          return params;
+        },
+        { replace: true }
+      ),
+    [setSearchParams, defaultPageSize, hasDefaultFilters]
+  );
+
+  return [readListState(searchParams, defaults), setState];
+};
+
+// Only needs the Router when syncWithUrl is set
 export function usePaginatedApi<T = unknown>(
   baseUrl: string,
   options: UsePaginatedApiOptions = {}
 ): UsePaginatedApiReturn<T> {
-  const { initialPage = 1, pageSize = 20, ...apiOptions } = options;
-  const [currentPage, setCurrentPage] = useState(initialPage);
-  const [data, setData] = useState<T[]>([]);
-  const [pagination, setPagination] = useState<
-    PaginatedData<T>['pagination'] | null
-  >(null);
-
-  const apiCall = useCallback(
-    (...args: unknown[]) => {
-      const page = args[0] as number;
-      const url = `${baseUrl}?page=${page}&limit=${pageSize}`;
-      return apiClient.get<PaginatedData<T>>(url);
+  const {
+    initialPage = 1,
+    pageSize: initialPageSize = 20,
+    filters: initialFilters = {},
+    syncWithUrl = false,
+    debounceDelay = APP_CONSTANTS.DEBOUNCE_DELAY,
+    immediate = true,
+    ...apiOptions
+  } = options;
+  // syncWithUrl is fixed for the lifetime of the component, so the same
+  // hooks run on every render
+  const useListState = syncWithUrl ? useUrlListState : useLocalListState;
+  const [state, setState] = useListState({
+    page: initialPage,
+    pageSize: initialPageSize,
+    filters: initialFilters,
+  });
+  const [enabled, setEnabled] = useState(immediate);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const updateState = useCallback(
+    (update: Partial<ListState>) => {
+      const next = { ...stateRef.current, ...update };
+      stateRef.current = next;
+      setState(next);
     },
-    [baseUrl, pageSize]
+    [setState]
   );
 
-  const { isLoading, error, execute } = useApi(apiCall, {
-    ...apiOptions,
-    onSuccess: result => {
-      const paginatedResult = result as PaginatedData<T>;
-      setData(paginatedResult.data);
-      setPagination(paginatedResult.pagination);
-      apiOptions.onSuccess?.(result);
-    },
+  // The text query follows the input right away but is only applied once
+  // typing pauses
+  const [draftQuery, setDraftQuery] = useState(state.filters.query ?? '');
+  const appliedQuery = state.filters.query ?? '';
+  useEffect(() => {
+    setDraftQuery(appliedQuery);
+  }, [appliedQuery]);
+
+  const applyQuery = useMemo(
+    () =>
+      debounce((query: string) => {
+        updateState({
+          page: 1,
+          filters: { ...stateRef.current.filters, query: query || undefined },
+        });
+      }, debounceDelay),
+    [updateState, debounceDelay]
+  );
+  useEffect(() => () => applyQuery.cancel(), [applyQuery]);
+
+  const requestUrl = buildUrlWithParams(baseUrl, {
+    page: state.page,
+    limit: state.pageSize,
+    ...serializeFilters(state.filters),
   });
 
+  // Pages live in the shared query cache under their request URL, so
+  // mutations can update or invalidate them like any useGet query
+  const callbacksRef = useRef(apiOptions);
+  useEffect(() => {
+    callbacksRef.current = apiOptions;
+  });
+
+  const queryState = useSyncExternalStore(
+    useCallback(
+      listener => queryCache.subscribe(requestUrl, listener),
+      [requestUrl]
+    ),
+    () => queryCache.getState<PaginatedData<T>>(requestUrl)
+  );
+
+  // Keep showing the previous page while the next one loads
+  const lastResultRef = useRef<PaginatedData<T> | undefined>(undefined);
+  if (queryState.data) lastResultRef.current = queryState.data;
+  const result = queryState.data ?? lastResultRef.current;
+  const pagination = result?.pagination ?? null;
+
+  const fetchPage = useCallback(
+    async (force: boolean) => {
+      try {
+        const page = await queryCache.fetchQuery(
+          requestUrl,
+          signal => apiClient.get<PaginatedData<T>>(requestUrl, { signal }),
+          { force }
+        );
+        callbacksRef.current.onSuccess?.(page);
+      } catch (err) {
+        if (!isAbortError(err)) {
+          callbacksRef.current.onError?.(err as ApiClientError);
+        }
+      }
+    },
+    [requestUrl]
+  );
+
+  useEffect(() => {
+    if (enabled) {
+      fetchPage(false);
+    }
+  }, [enabled, fetchPage]);
+
   const loadPage = useCallback(
     async (page: number) => {
-      setCurrentPage(page);
-      await execute(page);
+      setEnabled(true);
+      if (page === stateRef.current.page) {
+        await fetchPage(true);
+      } else {
+        updateState({ page });
+      }
     },
-    [execute]
+    [fetchPage, updateState]
   );
 
   const nextPage = useCallback(async () => {
     if (pagination?.hasNext) {
-      await loadPage(currentPage + 1);
+      await loadPage(state.page + 1);
     }
-  }, [pagination?.hasNext, loadPage, currentPage]);
+  }, [pagination?.hasNext, loadPage, state.page]);
 
   const prevPage = useCallback(async () => {
     if (pagination?.hasPrev) {
-      await loadPage(currentPage - 1);
+      await loadPage(state.page - 1);
     }
-  }, [pagination?.hasPrev, loadPage, currentPage]);
+  }, [pagination?.hasPrev, loadPage, state.page]);
+
+  const refresh = useCallback(() => fetchPage(true), [fetchPage]);
+
+  const setFilters = useCallback(
+    (filters: Partial<SearchFilters>) => {
+      const { query, ...rest } = filters;
+      if ('query' in filters) {
+        setDraftQuery(query ?? '');
+        applyQuery(query ?? '');
+      }
+      if (Object.keys(rest).length > 0) {
+        updateState({
+          page: 1,
+          filters: { ...stateRef.current.filters, ...rest },
+        });
+      }
+    },
+    [applyQuery, updateState]
+  );
+
+  const setPageSize = useCallback(
+    (pageSize: number) => updateState({ page: 1, pageSize }),
+    [updateState]
+  );
+
+  const resetFilters = useCallback(() => {
+    applyQuery.cancel();
+    setDraftQuery('');
+    updateState({ page: 1, filters: {} });
+  }, [applyQuery, updateState]);
+
+  const filters = useMemo(
+    () => ({ ...state.filters, query: draftQuery || undefined }),
+    [state.filters, draftQuery]
+  );
+
+  return {
+    data: result?.data ?? [],
+    pagination,
+    isLoading: queryState.status === 'loading',
+    error: queryState.error?.message ?? null,
+    queryKey: requestUrl,
+    currentPage: state.page,
+    pageSize: state.pageSize,
+    filters,
+    loadPage,
+    nextPage,
+    prevPage,
+    refresh,
+    setFilters,
+    setPageSize,
+    resetFilters,
+  };
+}
+
+// Hook for infinite lists
+type PageParam = string | number;
+
+// Describes how a list API pages through its results
+interface InfinitePagination<P> {
+  initialPageParam: PageParam;
+  // Query parameters that request the page identified by pageParam
+  getParams: (
+    pageParam: PageParam,
+    pageSize: number
+  ) => Record<string, string | number | undefined>;
+  // Identifies the page after lastPage, or null when it was the last one
+  getNextPageParam: (lastPage: P) => PageParam | null;
+}
+
+// Page-number APIs shaped like PaginatedResponse
+export const offsetPagination: InfinitePagination<PaginatedResponse<unknown>> =
+  {
+    initialPageParam: 1,
+    getParams: (page, limit) => ({ page, limit }),
+    getNextPageParam: ({ pagination }) =>
+      pagination.hasNext ? pagination.page + 1 : null,
+  };
+
+// Cursor/nextToken APIs; the parameter and response field names vary
+// between services
+export const cursorPagination = <P = CursorPaginatedResponse<unknown>>({
+  param = 'cursor',
+  getNextCursor = page =>
+    (page as CursorPaginatedResponse<unknown>).nextCursor ?? null,
+}: {
+  param?: string;
+  getNextCursor?: (page: P) => string | null | undefined;
+} = {}): InfinitePagination<P> => ({
+  initialPageParam: '',
+  getParams: (cursor, limit) => ({ [param]: cursor || undefined, limit }),
+  getNextPageParam: page => getNextCursor(page) || null,
+});
+
+interface UseInfiniteApiOptions<T, P> extends UseApiOptions {
+  pageSize?: number;
+  // Sent with every page; changing them starts the list over
+  filters?: SearchFilters;
+  // Defaults to offsetPagination
+  pagination?: InfinitePagination<P>;
+  // Extracts the items of one page, defaults to page.data
+  getItems?: (page: P) => T[];
+}
+
+interface UseInfiniteApiReturn<T, P> extends LoadingState {
+  // Items of every loaded page, in order
+  data: T[];
+  pages: P[];
+  hasNextPage: boolean;
+  // Loading a page after the first; isLoading only covers the first page
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => Promise<void>;
+  // Drops the loaded pages and fetches the first one again
+  refresh: () => Promise<void>;
+}
+
+interface InfiniteState<P> {
+  pages: P[];
+  nextPageParam: PageParam | null;
+}
+
+export function useInfiniteApi<T = unknown, P = PaginatedResponse<T>>(
+  baseUrl: string,
+  options: UseInfiniteApiOptions<T, P> = {}
+): UseInfiniteApiReturn<T, P> {
+  const {
+    immediate = true,
+    pageSize = 20,
+    filters,
+    pagination = offsetPagination as unknown as InfinitePagination<P>,
+    getItems = (page: P) => (page as { data: T[] }).data,
+  } = options;
+  const [state, setState] = useState<InfiniteState<P>>({
+    pages: [],
+    nextPageParam: pagination.initialPageParam,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Keep the latest options without refetching on every render
+  const optionsRef = useRef({ ...options, pagination, getItems, pageSize });
+  useEffect(() => {
+    optionsRef.current = { ...options, pagination, getItems, pageSize };
+  });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Filters are compared by their serialized form so inline objects don't
+  // restart the list
+  const filterParams = JSON.stringify(filters ? serializeFilters(filters) : {});
+
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, []);
+
+  const fetchPage = useCallback(
+    async (pageParam: PageParam, previousPages: P[]) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const isCurrent = () => controllerRef.current === controller;
+      const { pagination, pageSize } = optionsRef.current;
+      const isFirstPage = previousPages.length === 0;
+
+      try {
+        // Later pages leave the loaded ones on screen
+        setIsLoading(isFirstPage);
+        setIsFetchingNextPage(!isFirstPage);
+        setError(null);
+
+        const url = buildUrlWithParams(baseUrl, {
+          ...pagination.getParams(pageParam, pageSize),
+          ...JSON.parse(filterParams),
+        });
+        const page = await apiClient.get<P>(url, {
+          signal: controller.signal,
+        });
+
+        if (isCurrent()) {
+          const next = {
+            pages: [...previousPages, page],
+            nextPageParam: pagination.getNextPageParam(page),
+          };
+          stateRef.current = next;
+          setState(next);
+          optionsRef.current.onSuccess?.(page);
+        }
+      } catch (err) {
+        const apiError = err as ApiClientError;
+
+        if (isCurrent() && !isAbortError(apiError)) {
+          setError(apiError.message);
+          optionsRef.current.onError?.(apiError);
+        }
+      } finally {
+        if (isCurrent()) {
+          setIsLoading(false);
+          setIsFetchingNextPage(false);
+          controllerRef.current = null;
+        }
+      }
+    },
+    [baseUrl, filterParams]
+  );
 
   const refresh = useCallback(async () => {
-    await loadPage(currentPage);
-  }, [loadPage, currentPage]);
+    controllerRef.current?.abort();
+    const { initialPageParam } = optionsRef.current.pagination;
+    stateRef.current = { pages: [], nextPageParam: initialPageParam };
+    setState(stateRef.current);
+    await fetchPage(initialPageParam, []);
+  }, [fetchPage]);
+
+  const fetchNextPage = useCallback(async () => {
+    // One page at a time: sentinels and scroll handlers fire repeatedly
+    if (controllerRef.current) return;
+    const { pages, nextPageParam } = stateRef.current;
+    if (nextPageParam === null) return;
+    await fetchPage(nextPageParam, pages);
+  }, [fetchPage]);
 
   useEffect(() => {
-    if (options.immediate !== false) {
-      loadPage(initialPage);
+    if (immediate) {
+      refresh();
     }
-  }, [loadPage, initialPage, options.immediate]);
+  }, [immediate, refresh]);
+
+  const data = useMemo(
+    () => state.pages.flatMap(page => optionsRef.current.getItems(page)),
+    [state.pages]
+  );
 
   return {
     data,
-    pagination,
+    pages: state.pages,
     isLoading,
     error,
-    loadPage,
-    nextPage,
-    prevPage,
+    hasNextPage: state.nextPageParam !== null,
+    isFetchingNextPage,
+    fetchNextPage,
     refresh,
   };
 }
+
+export type { InfinitePagination, PageParam };
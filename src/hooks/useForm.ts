@@ -0,0 +1,479 @@
+import { FormEvent, useCallback, useMemo, useRef, useState } from 'react';
+import { cloneDeep, get, isEqual, setWith, toPath } from 'lodash-es';
+import { ApiClientError } from '@/services/api';
+import { FormField, FormState } from '@/types';
+import { getErrorMessage, isEmpty } from '@/utils';
+import { formatSchemaPath, Schema, SchemaIssue } from '@/utils/schema';
+import {
+  compose,
+  isRequiredValidator,
+  ValidationResult,
+  Validator,
+} from '@/utils/validators';
+
+// Form types
+type FormErrors = Record<string, string>;
+
+// Validators keyed by field path, e.g. "email" or "address.city". A "[]"
+// segment applies the rule to every item of a list: "contacts[].email".
+type FormValidators<T> = Record<
+  string,
+  Validator<unknown, T> | Validator<unknown, T>[]
+>;
+
+interface UseFormOptions<T extends object> {
+  initialValues: T;
+  validate?: FormValidators<T>;
+  // Checked together with the field validators
+  schema?: Schema<unknown>;
+  // Fields validate on blur by default; a field showing an error also
+  // re-validates on every change so the message clears as soon as it's fixed
+  validateOn?: 'blur' | 'change';
+  // Field errors carried by a rejected ApiClientError are mapped onto the
+  // form; any other failure becomes submitError
+  onSubmit: (values: T) => unknown;
+}
+
+interface InputPropsOptions {
+  type?: 'input' | 'checkbox';
+}
+
+// Props for Mantine inputs; V is the input's value type
+interface InputProps<V = string> {
+  value?: V;
+  checked?: boolean;
+  error?: string;
+  required?: boolean;
+  onChange: (eventOrValue: unknown) => void;
+  onBlur: () => void;
+}
+
+interface UseFormReturn<T extends object> {
+  values: T;
+  errors: FormErrors;
+  state: FormState<T>;
+  isValid: boolean;
+  isDirty: boolean;
+  isSubmitting: boolean;
+  isValidating: boolean;
+  submitError: string | null;
+  getField: <V = unknown>(path: string) => FormField<V>;
+  getInputProps: <V = string>(
+    path: string,
+    options?: InputPropsOptions
+  ) => InputProps<V>;
+  setFieldValue: (path: string, value: unknown) => void;
+  setFieldError: (path: string, error: string | undefined) => void;
+  setErrors: (errors: FormErrors) => void;
+  // Maps field errors from an API error onto the form; returns whether any
+  // were found
+  setServerErrors: (error: unknown) => boolean;
+  validateField: (path: string) => Promise<boolean>;
+  validate: () => Promise<boolean>;
+  insertListItem: (path: string, item: unknown, index?: number) => void;
+  removeListItem: (path: string, index: number) => void;
+  handleSubmit: (event?: FormEvent) => Promise<void>;
+  reset: (values?: T) => void;
+}
+
+// Path helpers. Paths are normalized to the format schema issues use,
+// "contacts[1].email", so "contacts.1.email" works too.
+const normalizePath = (path: string): string =>
+  formatSchemaPath(
+    toPath(path).map(segment =>
+      /^\d+$/.test(segment) ? Number(segment) : segment
+    )
+  );
+
+const toRuleKey = (path: string) => path.replace(/\[\d+\]/g, '[]');
+
+const setIn = <T>(values: T, path: string, value: unknown): T =>
+  setWith(cloneDeep(values as object), path, value, Object) as T;
+
+// Expands "contacts[].email" to one path per item of contacts
+const expandRulePath = (rule: string, values: unknown): string[] => {
+  const marker = rule.indexOf('[]');
+  if (marker === -1) return [rule];
+
+  const listPath = rule.slice(0, marker);
+  const list = get(values, listPath);
+  if (!Array.isArray(list)) return [];
+  return list.flatMap((_, index) =>
+    expandRulePath(`${listPath}[${index}]${rule.slice(marker + 2)}`, values)
+  );
+};
+
+// Re-keys errors/touched entries of a list after an item was inserted or
+// removed, so they stay attached to the same items
+const shiftListEntries = <V>(
+  entries: Record<string, V>,
+  listPath: string,
+  fromIndex: number,
+  delta: number
+): Record<string, V> => {
+  const prefix = `${listPath}[`;
+  const shifted: Record<string, V> = {};
+  Object.entries(entries).forEach(([key, value]) => {
+    const match = key.startsWith(prefix)
+      ? /^(\d+)\](.*)$/.exec(key.slice(prefix.length))
+      : null;
+    if (!match) {
+      shifted[key] = value;
+      return;
+    }
+    const index = Number(match[1]);
+    if (delta < 0 && index === fromIndex) return;
+    const nextIndex = index >= fromIndex ? index + delta : index;
+    shifted[`${prefix}${nextIndex}]${match[2]}`] = value;
+  });
+  return shifted;
+};
+
+const getServerFieldErrors = (error: unknown): FormErrors => {
+  if (!(error instanceof ApiClientError) || !error.details) return {};
+  const errors: FormErrors = {};
+
+  const { fields, issues } = error.details as {
+    fields?: Record<string, string | string[]>;
+    issues?: SchemaIssue[];
+  };
+  Object.entries(fields ?? {}).forEach(([path, message]) => {
+    errors[normalizePath(path)] = Array.isArray(message) ? message[0] : message;
+  });
+  issues?.forEach(({ path, message }) => {
+    if (path) errors[normalizePath(path)] ??= message;
+  });
+
+  return errors;
+};
+
+const isInputEvent = (
+  value: unknown
+): value is { currentTarget: HTMLInputElement } =>
+  typeof value === 'object' &&
+  value !== null &&
+  'currentTarget' in value &&
+  value.currentTarget instanceof HTMLElement;
+
+export function useForm<T extends object>(
+  options: UseFormOptions<T>
+): UseFormReturn<T> {
+  const { initialValues, validateOn = 'blur' } = options;
+  const [values, setValuesState] = useState<T>(initialValues);
+  const [errors, setErrorsState] = useState<FormErrors>({});
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingValidations, setPendingValidations] = useState(0);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Handlers read the latest values and options without being recreated
+  const valuesRef = useRef(values);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const initialValuesRef = useRef(initialValues);
+  const errorsRef = useRef(errors);
+  errorsRef.current = errors;
+  // Only the latest async validation of a field may set its error
+  const validationRunsRef = useRef(new Map<string, number>());
+
+  const setValues = useCallback((next: T) => {
+    valuesRef.current = next;
+    setValuesState(next);
+  }, []);
+
+  const setFieldError = useCallback(
+    (path: string, error: string | undefined) => {
+      const key = normalizePath(path);
+      setErrorsState(current => {
+        if (current[key] === error) return current;
+        const next = { ...current };
+        if (error) {
+          next[key] = error;
+        } else {
+          delete next[key];
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  const getRules = useCallback((path: string): Validator<unknown, T>[] => {
+    const rules = optionsRef.current.validate?.[toRuleKey(path)];
+    if (!rules) return [];
+    return Array.isArray(rules) ? rules : [rules];
+  }, []);
+
+  // Field validators first; the schema is consulted when they pass
+  const runFieldValidation = useCallback(
+    (
+      path: string,
+      formValues: T
+    ): ValidationResult | Promise<ValidationResult> => {
+      const schemaError = () => {
+        const parsed = optionsRef.current.schema?.safeParse(formValues);
+        return parsed && !parsed.success
+          ? parsed.issues.find(issue => issue.path === path)?.message
+          : undefined;
+      };
+      const result = compose(...getRules(path))(
+        get(formValues, path),
+        formValues
+      );
+      return result instanceof Promise
+        ? result.then(error => error ?? schemaError())
+        : (result ?? schemaError());
+    },
+    [getRules]
+  );
+
+  const validateField = useCallback(
+    async (path: string): Promise<boolean> => {
+      const key = normalizePath(path);
+      const run = (validationRunsRef.current.get(key) ?? 0) + 1;
+      validationRunsRef.current.set(key, run);
+
+      const result = runFieldValidation(key, valuesRef.current);
+      let error: ValidationResult;
+      if (result instanceof Promise) {
+        setPendingValidations(count => count + 1);
+        try {
+          error = await result;
+        } finally {
+          setPendingValidations(count => count - 1);
+        }
+      } else {
+        error = result;
+      }
+
+      if (validationRunsRef.current.get(key) === run) {
+        setFieldError(key, error);
+      }
+      return !error;
+    },
+    [runFieldValidation, setFieldError]
+  );
+
+  const validate = useCallback(async (): Promise<boolean> => {
+    const formValues = valuesRef.current;
+    const { validate: rules = {}, schema } = optionsRef.current;
+    const paths = Object.keys(rules).flatMap(rule =>
+      expandRulePath(rule, formValues)
+    );
+    const nextErrors: FormErrors = {};
+
+    setPendingValidations(count => count + 1);
+    try {
+      const results = await Promise.all(
+        paths.map(path =>
+          compose(...getRules(path))(get(formValues, path), formValues)
+        )
+      );
+      results.forEach((error, index) => {
+        if (error) nextErrors[paths[index]] = error;
+      });
+    } finally {
+      setPendingValidations(count => count - 1);
+    }
+
+    const parsed = schema?.safeParse(formValues);
+    if (parsed && !parsed.success) {
+      parsed.issues.forEach(({ path, message }) => {
+        nextErrors[path] ??= message;
+      });
+    }
+
+    // Supersede any async field validation still in flight
+    paths.forEach(path =>
+      validationRunsRef.current.set(
+        path,
+        (validationRunsRef.current.get(path) ?? 0) + 1
+      )
+    );
+    setErrorsState(nextErrors);
+    setTouched(current => ({
+      ...current,
+      ...Object.fromEntries(
+        [...paths, ...Object.keys(nextErrors)].map(path => [path, true])
+      ),
+    }));
+    return isEmpty(nextErrors);
+  }, [getRules]);
+
+  const setFieldValue = useCallback(
+    (path: string, value: unknown) => {
+      const key = normalizePath(path);
+      setValues(setIn(valuesRef.current, key, value));
+      if (validateOn === 'change' || errorsRef.current[key]) {
+        validateField(key);
+      }
+    },
+    [setValues, validateField, validateOn]
+  );
+
+  const setErrors = useCallback((nextErrors: FormErrors) => {
+    setErrorsState(
+      Object.fromEntries(
+        Object.entries(nextErrors).map(([path, error]) => [
+          normalizePath(path),
+          error,
+        ])
+      )
+    );
+  }, []);
+
+  const setServerErrors = useCallback((error: unknown): boolean => {
+    const fieldErrors = getServerFieldErrors(error);
+    if (isEmpty(fieldErrors)) return false;
+    setErrorsState(current => ({ ...current, ...fieldErrors }));
+    setTouched(current => ({
+      ...current,
+      ...Object.fromEntries(Object.keys(fieldErrors).map(path => [path, true])),
+    }));
+    return true;
+  }, []);
+
+  // Field arrays
+  const insertListItem = useCallback(
+    (path: string, item: unknown, index?: number) => {
+      const key = normalizePath(path);
+      const list = [...((get(valuesRef.current, key) as unknown[]) ?? [])];
+      const position = index ?? list.length;
+      list.splice(position, 0, item);
+      setValues(setIn(valuesRef.current, key, list));
+      setErrorsState(current => shiftListEntries(current, key, position, 1));
+      setTouched(current => shiftListEntries(current, key, position, 1));
+    },
+    [setValues]
+  );
+
+  const removeListItem = useCallback(
+    (path: string, index: number) => {
+      const key = normalizePath(path);
+      const list = [...((get(valuesRef.current, key) as unknown[]) ?? [])];
+      list.splice(index, 1);
+      setValues(setIn(valuesRef.current, key, list));
+      setErrorsState(current => shiftListEntries(current, key, index, -1));
+      setTouched(current => shiftListEntries(current, key, index, -1));
+    },
+    [setValues]
+  );
+
+  const getField = useCallback(
+    <V = unknown>(path: string): FormField<V> => {
+      const key = normalizePath(path);
+      const value = get(values, key) as V;
+      return {
+        value,
+        error: errors[key],
+        touched: !!touched[key],
+        dirty: !isEqual(value, get(initialValuesRef.current, key)),
+        required: getRules(key).some(isRequiredValidator),
+      };
+    },
+    [values, errors, touched, getRules]
+  );
+
+  const getInputProps = useCallback(
+    <V = string>(
+      path: string,
+      { type = 'input' }: InputPropsOptions = {}
+    ): InputProps<V> => {
+      const key = normalizePath(path);
+      const field = getField<V>(key);
+      return {
+        ...(type === 'checkbox'
+          ? { checked: Boolean(field.value) }
+          : { value: field.value ?? ('' as V) }),
+        error: field.error,
+        required: field.required,
+        onChange: eventOrValue => {
+          const value = isInputEvent(eventOrValue)
+            ? type === 'checkbox'
+              ? eventOrValue.currentTarget.checked
+              : eventOrValue.currentTarget.value
+            : eventOrValue;
+          setFieldValue(key, value);
+        },
+        onBlur: () => {
+          setTouched(current =>
+            current[key] ? current : { ...current, [key]: true }
+          );
+          validateField(key);
+        },
+      };
+    },
+    [getField, setFieldValue, validateField]
+  );
+
+  const handleSubmit = useCallback(
+    async (event?: FormEvent) => {
+      event?.preventDefault();
+      setSubmitError(null);
+      setIsSubmitting(true);
+      try {
+        if (!(await validate())) return;
+        await optionsRef.current.onSubmit(valuesRef.current);
+      } catch (error) {
+        if (!setServerErrors(error)) {
+          setSubmitError(getErrorMessage(error));
+        }
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [validate, setServerErrors]
+  );
+
+  const reset = useCallback(
+    (nextValues: T = initialValuesRef.current) => {
+      initialValuesRef.current = nextValues;
+      validationRunsRef.current.clear();
+      setValues(nextValues);
+      setErrorsState({});
+      setTouched({});
+      setSubmitError(null);
+    },
+    [setValues]
+  );
+
+  const isValid = isEmpty(errors);
+  const isDirty = !isEqual(values, initialValuesRef.current);
+
+  const state = useMemo<FormState<T>>(
+    () => ({
+      fields: Object.fromEntries(
+        Object.keys(values).map(key => [key, getField(key)])
+      ) as FormState<T>['fields'],
+      isValid,
+      isSubmitting,
+      isDirty,
+    }),
+    [values, getField, isValid, isSubmitting, isDirty]
+  );
+
+  return {
+    values,
+    errors,
+    state,
+    isValid,
+    isDirty,
+    isSubmitting,
+    isValidating: pendingValidations > 0,
+    submitError,
+    getField,
+    getInputProps,
+    setFieldValue,
+    setFieldError,
+    setErrors,
+    setServerErrors,
+    validateField,
+    validate,
+    insertListItem,
+    removeListItem,
+    handleSubmit,
+    reset,
+  };
+}
+
+export type { FormErrors, FormValidators, InputProps, UseFormOptions };
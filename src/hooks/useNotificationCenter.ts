@@ -0,0 +1,30 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  NotificationCenterState,
+  notificationCenter,
+} from '@/services/notificationCenter';
+
+interface UseNotificationCenterReturn extends NotificationCenterState {
+  markRead: (id: string) => void;
+  markAllRead: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+const subscribe = (listener: () => void) =>
+  notificationCenter.subscribe(listener);
+const getSnapshot = () => notificationCenter.getState();
+
+export function useNotificationCenter(): UseNotificationCenterReturn {
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const markRead = useCallback(
+    (id: string) => notificationCenter.markRead(id),
+    []
+  );
+  const markAllRead = useCallback(() => notificationCenter.markAllRead(), []);
+  const remove = useCallback((id: string) => notificationCenter.remove(id), []);
+  const clear = useCallback(() => notificationCenter.clear(), []);
+
+  return { ...state, markRead, markAllRead, remove, clear };
+}
@@ -0,0 +1,6 @@
+import { notify, NotifyService } from '@/services/notify';
+
+// Toasts are global, so every component shares the notify service
+export function useNotify(): NotifyService {
+  return notify;
+}
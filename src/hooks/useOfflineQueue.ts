@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import {
+  ConflictResolution,
+  offlineQueue,
+  OfflineQueueState,
+  QueuedRequest,
+} from '@/services/offlineQueue';
+
+interface UseOfflineQueueReturn extends OfflineQueueState {
+  pendingCount: number;
+  // Requests the server rejected on replay, waiting for a decision
+  conflicts: QueuedRequest[];
+  replay: () => Promise<void>;
+  resolve: (id: number, resolution: ConflictResolution) => Promise<void>;
+}
+
+const subscribe = (listener: () => void) => offlineQueue.subscribe(listener);
+const getSnapshot = () => offlineQueue.getState();
+
+export function useOfflineQueue(): UseOfflineQueueReturn {
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const { pendingCount, conflicts } = useMemo(
+    () => ({
+      pendingCount: state.requests.filter(({ status }) => status === 'pending')
+        .length,
+      conflicts: state.requests.filter(({ status }) => status === 'conflict'),
+    }),
+    [state.requests]
+  );
+
+  const replay = useCallback(() => offlineQueue.replay(), []);
+  const resolve = useCallback(
+    (id: number, resolution: ConflictResolution) =>
+      offlineQueue.resolve(id, resolution),
+    []
+  );
+
+  return { ...state, pendingCount, conflicts, replay, resolve };
+}
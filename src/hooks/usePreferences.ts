@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  PreferencesPatch,
+  PreferencesState,
+  preferencesStore,
+} from '@/services/preferences';
+
+interface UsePreferencesReturn extends PreferencesState {
+  updatePreferences: (patch: PreferencesPatch) => void;
+  resetPreferences: () => void;
+}
+
+const subscribe = (listener: () => void) =>
+  preferencesStore.subscribe(listener);
+const getSnapshot = () => preferencesStore.getState();
+
+export function usePreferences(): UsePreferencesReturn {
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const updatePreferences = useCallback(
+    (patch: PreferencesPatch) => preferencesStore.update(patch),
+    []
+  );
+  const resetPreferences = useCallback(() => preferencesStore.reset(), []);
+
+  return { ...state, updatePreferences, resetPreferences };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { QueryKey, queryCache } from '@/services/queryCache';
+import { realtime, RealtimeStatus } from '@/services/realtime';
+
+interface UseSubscriptionOptions<T, D> {
+  enabled?: boolean;
+  onMessage?: (message: T) => void;
+  // Writes each message into the cached data of this useGet query
+  queryKey?: QueryKey;
+  // Merges a message into the cached data; by default the message replaces it
+  updateQueryData?: (current: D | undefined, message: T) => D | undefined;
+}
+
+interface UseSubscriptionReturn<T> {
+  lastMessage: T | undefined;
+  status: RealtimeStatus;
+}
+
+const subscribe = (listener: () => void) => realtime.subscribe(listener);
+const getSnapshot = () => realtime.getState();
+
+// Subscribes to a realtime topic while the component is mounted
+export function useSubscription<T = unknown, D = T>(
+  topic: string,
+  options: UseSubscriptionOptions<T, D> = {}
+): UseSubscriptionReturn<T> {
+  const { enabled = true, queryKey } = options;
+  const { status } = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  const [lastMessage, setLastMessage] = useState<T>();
+
+  // Keep the latest callbacks without resubscribing on every render
+  const callbacksRef = useRef(options);
+  useEffect(() => {
+    callbacksRef.current = options;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return realtime.subscribeTopic<T>(topic, message => {
+      const { onMessage, updateQueryData } = callbacksRef.current;
+      if (queryKey) {
+        queryCache.setQueryData<D>(queryKey, current =>
+          updateQueryData
+            ? updateQueryData(current, message)
+            : (message as unknown as D)
+        );
+      }
+      setLastMessage(message);
+      onMessage?.(message);
+    });
+  }, [topic, enabled, queryKey]);
+
+  return { lastMessage, status };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { MessageKey } from '@/locales/en';
+import { i18n, I18nState, translate } from '@/services/i18n';
+import { preferencesStore } from '@/services/preferences';
+import { MessageValues } from '@/utils/messageFormat';
+
+interface UseTranslationReturn extends Omit<I18nState, 'messages'> {
+  t: (key: MessageKey, values?: MessageValues) => string;
+  // Saves the language to the user's preferences, which apply it
+  changeLanguage: (language: string) => void;
+}
+
+const subscribe = (listener: () => void) => i18n.subscribe(listener);
+const getSnapshot = () => i18n.getState();
+
+export function useTranslation(): UseTranslationReturn {
+  const { language, locale, direction, messages, isLoading } =
+    useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  // A new function whenever the language changes, so memoized output that
+  // depends on `t` is recomputed
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) =>
+      translate(messages, locale, key, values),
+    [messages, locale]
+  );
+
+  const changeLanguage = useCallback(
+    (nextLanguage: string) =>
+      preferencesStore.update({ language: nextLanguage }),
+    []
+  );
+
+  return { language, locale, direction, isLoading, t, changeLanguage };
+}
@@ -1,10 +1,38 @@
 import React, { ReactNode } from 'react';
-import { AppShell, Burger, Group, Text, UnstyledButton } from '@mantine/core';
+import {
+  ActionIcon,
+  AppShell,
+  Avatar,
+  Burger,
+  Button,
+  Group,
+  Menu,
+  Text,
+  Tooltip,
+  UnstyledButton,
+} from '@mantine/core';
 import { useDisclosure } from '@mantine/hooks';
-import { IconHome, IconSettings, IconUser } from '@tabler/icons-react';
+import {
+  IconDashboard,
+  IconHome,
+  IconLogin,
+  IconLogout,
+  IconMoon,
+  IconSettings,
+  IconSun,
+  IconUser,
+  IconUsers,
+} from '@tabler/icons-react';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { NotificationCenter } from '@/components/NotificationCenter';
 import { env } from '@/config/env';
 import { ROUTES } from '@/constants';
+import { useAuth } from '@/hooks/useAuth';
+import { useTheme } from '@/hooks/useTheme';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/locales/en';
+import { UserRole } from '@/types';
+import { canAccessRoute } from '@/utils/permissions';
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -12,20 +40,55 @@ interface AppLayoutProps {
 
 interface NavItem {
   icon: React.ComponentType<{ size?: number | string }>;
-  label: string;
+  labelKey: MessageKey;
   path: string;
+  protected?: boolean;
+  roles?: UserRole[];
 }
 
 const navItems: NavItem[] = [
-  { icon: IconHome, label: 'Home', path: ROUTES.HOME },
-  { icon: IconUser, label: 'Profile', path: ROUTES.PROFILE },
-  { icon: IconSettings, label: 'Settings', path: ROUTES.SETTINGS },
+  { icon: IconHome, labelKey: 'nav.home', path: ROUTES.HOME },
+  {
+    icon: IconDashboard,
+    labelKey: 'nav.dashboard',
+    path: ROUTES.DASHBOARD,
+    roles: [UserRole.ADMIN, UserRole.MODERATOR],
+  },
+  {
+    icon: IconUsers,
+    labelKey: 'nav.users',
+    path: ROUTES.ADMIN_USERS,
+    roles: [UserRole.ADMIN, UserRole.MODERATOR],
+  },
+  {
+    icon: IconUser,
+    labelKey: 'nav.profile',
+    path: ROUTES.PROFILE,
+    protected: true,
+  },
+  {
+    icon: IconSettings,
+    labelKey: 'nav.settings',
+    path: ROUTES.SETTINGS,
+    protected: true,
+  },
 ];
 
 export function AppLayout({ children }: AppLayoutProps) {
   const [opened, { toggle }] = useDisclosure();
   const navigate = useNavigate();
   const location = useLocation();
+  const { user, logout } = useAuth();
+  const { colorScheme, toggleColorScheme } = useTheme();
+  const { t } = useTranslation();
+  const switchThemeLabel = t('layout.switchTheme', {
+    scheme: colorScheme === 'dark' ? 'light' : 'dark',
+  });
+
+  const handleLogout = async () => {
+    await logout();
+    navigate(ROUTES.LOGIN);
+  };
 
   const handleNavigation = (path: string) => {
     navigate(path);
@@ -38,7 +101,9 @@ export function AppLayout({ children }: AppLayoutProps) {
     <AppShell
       header={{ height: 60 }}
       navbar={{
-        width: 300,
+        // Mantine places the navbar on the start side, so it moves to the
+        // right for right-to-left languages
+        width: { sm: 240, lg: 300 },
         breakpoint: 'sm',
         collapsed: { mobile: !opened },
       }}
@@ -64,47 +129,116 @@ export function AppLayout({ children }: AppLayoutProps) {
             </Text>
           </Group>
 
-          <Group visibleFrom='sm'>
-            <Text size='sm' c='dimmed'>
+          <Group>
+            <Text size='sm' c='dimmed' visibleFrom='sm'>
               v{env.APP_VERSION}
             </Text>
+
+            <NotificationCenter />
+
+            <Tooltip label={switchThemeLabel}>
+              <ActionIcon
+                variant='default'
+                size='lg'
+                aria-label={switchThemeLabel}
+                onClick={toggleColorScheme}
+              >
+                {colorScheme === 'dark' ? (
+                  <IconSun size={18} />
+                ) : (
+                  <IconMoon size={18} />
+                )}
+              </ActionIcon>
+            </Tooltip>
+
+            {user ? (
+              <Menu position='bottom-end' withArrow>
+                <Menu.Target>
+                  <UnstyledButton aria-label={t('layout.accountMenu')}>
+                    <Group gap='xs'>
+                      <Avatar src={user.avatar} radius='xl' size='sm'>
+                        {user.firstName.charAt(0)}
+                        {user.lastName.charAt(0)}
+                      </Avatar>
+                      <Text size='sm' fw={500} visibleFrom='sm'>
+                        {user.firstName} {user.lastName}
+                      </Text>
+                    </Group>
+                  </UnstyledButton>
+                </Menu.Target>
+                <Menu.Dropdown>
+                  <Menu.Label>{user.email}</Menu.Label>
+                  <Menu.Item
+                    leftSection={<IconUser size={14} />}
+                    onClick={() => handleNavigation(ROUTES.PROFILE)}
+                  >
+                    {t('nav.profile')}
+                  </Menu.Item>
+                  <Menu.Item
+                    leftSection={<IconSettings size={14} />}
+                    onClick={() => handleNavigation(ROUTES.SETTINGS)}
+                  >
+                    {t('nav.settings')}
+                  </Menu.Item>
+                  <Menu.Divider />
+                  <Menu.Item
+                    color='red'
+                    leftSection={<IconLogout size={14} />}
+                    onClick={handleLogout}
+                  >
+                    {t('layout.signOut')}
+                  </Menu.Item>
+                </Menu.Dropdown>
+              </Menu>
+            ) : (
+              <Button
+                size='xs'
+                variant='light'
+                leftSection={<IconLogin size={14} />}
+                onClick={() => handleNavigation(ROUTES.LOGIN)}
+              >
+                {t('layout.signIn')}
+              </Button>
+            )}
           </Group>
         </Group>
       </AppShell.Header>
 
       <AppShell.Navbar p='md'>
         <AppShell.Section grow>
-          {navItems.map(item => {
-            const Icon = item.icon;
-            const isActive = location.pathname === item.path;
+          {navItems
+            .filter(item => canAccessRoute(item, user))
+            .map(item => {
+              const Icon = item.icon;
+              const isActive = location.pathname === item.path;
 
-            return (
-              <UnstyledButton
-                key={item.path}
-                onClick={() => handleNavigation(item.path)}
-                style={theme => ({
-                  display: 'block',
-                  width: '100%',
-                  padding: theme.spacing.xs,
-                  borderRadius: theme.radius.sm,
-                  color: isActive
-                    ? 'var(--mantine-color-blue-6)'
-                    : 'var(--mantine-color-text)',
-                  backgroundColor: isActive
-                    ? 'var(--mantine-color-blue-light)'
-                    : 'transparent',
-                  '&:hover': {
-                    backgroundColor: 'var(--mantine-color-gray-light-hover)',
-                  },
-                })}
-              >
-                <Group gap='sm'>
-                  <Icon size={16} />
-                  <Text size='sm'>{item.label}</Text>
-                </Group>
-              </UnstyledButton>
-            );
-          })}
+              return (
+                <UnstyledButton
+                  key={item.path}
+                  onClick={() => handleNavigation(item.path)}
+                  style={theme => ({
+                    display: 'block',
+                    width: '100%',
+                    padding: theme.spacing.xs,
+                    borderRadius: theme.radius.sm,
+                    color: isActive
+                      ? 'var(--mantine-color-blue-6)'
+                      : 'var(--mantine-color-text)',
+                    backgroundColor: isActive
+                      ? 'var(--mantine-color-blue-light)'
+                      : 'transparent',
+                    '&:hover': {
+                      backgroundColor: 'var(--mantine-color-gray-light-hover)',
+                    },
+                  })}
+                >
+                  <Group gap='sm'>
+                    <Icon size={16} />
+                    <Text size='sm'>{t(item.labelKey)}</Text>
+                  </Group>
+                </UnstyledButton>
+              );
+            })}
         </AppShell.Section>
 
         <AppShell.Section>
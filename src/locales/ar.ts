@@ -0,0 +1,64 @@
+import type { Messages } from '@/locales/en';
+
+// Untranslated messages fall back to English
+const ar: Messages = {
+  // Navigation and layout
+  'nav.home': 'الرئيسية',
+  'nav.dashboard': 'لوحة التحكم',
+  'nav.users': 'المستخدمون',
+  'nav.profile': 'الملف الشخصي',
+  'nav.settings': 'الإعدادات',
+  'layout.accountMenu': 'قائمة الحساب',
+  'layout.signIn': 'تسجيل الدخول',
+  'layout.signOut': 'تسجيل الخروج',
+  'layout.switchTheme':
+    '{scheme, select, dark {التبديل إلى المظهر الداكن} other {التبديل إلى المظهر الفاتح}}',
+
+  // Home page
+  'home.meta.title': '{appName} - تطبيق React للمؤسسات',
+  'home.hero.badge': 'الإصدار {version} • جاهز للمؤسسات',
+  'home.hero.description':
+    '{description}. مبني بتقنيات حديثة وأفضل الممارسات لتطبيقات مؤسسية قابلة للتوسع.',
+  'home.hero.getStarted': 'ابدأ الآن',
+  'home.hero.github': 'عرض على GitHub',
+  'home.features.title': 'مصمم للتطوير الحديث',
+  'home.features.subtitle':
+    'كل ما تحتاجه لبناء تطبيقات React قابلة للتوسع وسهلة الصيانة وعالية الأداء.',
+  'home.stack.title': 'تقنيات حديثة',
+  'home.cta.title': 'هل أنت مستعد لبناء شيء رائع؟',
+  'home.cta.description':
+    'ابدأ تطبيقك المؤسسي القادم بهذا الإعداد الجاهز للإنتاج.',
+  'home.cta.button': 'ابدأ البناء',
+
+  // Not found page
+  'notFound.meta.title': '404 - الصفحة غير موجودة',
+  'notFound.meta.description': 'الصفحة التي تبحث عنها غير موجودة.',
+  'notFound.title': 'الصفحة غير موجودة',
+  'notFound.description':
+    'عذرًا! الصفحة التي تبحث عنها غير موجودة. ربما تم نقلها أو حذفها، أو أن الرابط غير صحيح.',
+  'notFound.home': 'الذهاب إلى الصفحة الرئيسية',
+  'notFound.back': 'رجوع',
+  'notFound.support': 'إذا كنت تعتقد أن هذا خطأ، يرجى التواصل مع فريق الدعم.',
+
+  // Notifications
+  'notify.error': 'حدث خطأ ما',
+  'notify.networkError': 'مشكلة في الاتصال',
+  'notify.forbidden': 'غير مسموح',
+  'notify.serverError': 'خطأ في الخادم',
+  'notify.requestFailed': 'فشل الطلب',
+
+  // Notification center
+  'notifications.title': 'الإشعارات',
+  'notifications.markAllRead': 'تعليم الكل كمقروء',
+  'notifications.clear': 'مسح الكل',
+
+  // Error boundary
+  'error.title': 'عذرًا! حدث خطأ ما',
+  'error.description': 'نأسف، حدث خطأ غير متوقع. يرجى إعادة تحميل الصفحة.',
+  'error.details': 'تفاصيل الخطأ (وضع التطوير)',
+  'error.componentStack': 'مكدس المكونات: {stack}',
+  'error.reload': 'إعادة تحميل الصفحة',
+  'error.retry': 'حاول مرة أخرى',
+};
+
+export default ar;
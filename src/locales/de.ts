@@ -0,0 +1,110 @@
+import type { Messages } from '@/locales/en';
+
+const de: Messages = {
+  // Navigation and layout
+  'nav.home': 'Startseite',
+  'nav.dashboard': 'Dashboard',
+  'nav.users': 'Benutzer',
+  'nav.profile': 'Profil',
+  'nav.settings': 'Einstellungen',
+  'layout.accountMenu': 'Kontomenü',
+  'layout.signIn': 'Anmelden',
+  'layout.signOut': 'Abmelden',
+  'layout.switchTheme':
+    '{scheme, select, dark {Zum dunklen Design wechseln} other {Zum hellen Design wechseln}}',
+
+  // Home page
+  'home.meta.title': '{appName} - React-Anwendung für Unternehmen',
+  'home.hero.badge': 'v{version} • Bereit für Unternehmen',
+  'home.hero.description':
+    '{description}. Entwickelt mit modernen Technologien und bewährten Methoden für skalierbare Unternehmensanwendungen.',
+  'home.hero.getStarted': 'Loslegen',
+  'home.hero.github': 'Auf GitHub ansehen',
+  'home.features.title': 'Gemacht für moderne Entwicklung',
+  'home.features.subtitle':
+    'Alles, was Sie für skalierbare, wartbare und performante React-Anwendungen brauchen.',
+  'home.features.react':
+    'Entwickelt mit den neuesten React-Funktionen wie Concurrent Rendering und automatischem Batching.',
+  'home.features.reactBadge': 'Neueste',
+  'home.features.typescript':
+    'Vollständige Typsicherheit dank strikter TypeScript-Konfiguration für eine bessere Entwicklererfahrung.',
+  'home.features.typescriptBadge': 'Typsicher',
+  'home.features.mantine':
+    'Ansprechende und barrierefreie Komponenten mit integriertem Dark Mode.',
+  'home.features.tailwind':
+    'Utility-First-CSS-Framework für schnelle UI-Entwicklung mit eigenem Designsystem.',
+  'home.features.viteTitle': 'Build mit Vite',
+  'home.features.vite':
+    'Blitzschneller Entwicklungsserver und optimierte Produktions-Builds.',
+  'home.features.viteBadge': 'Schnell',
+  'home.features.enterpriseTitle': 'Bereit für Unternehmen',
+  'home.features.enterprise':
+    'Produktionsreifes Setup mit ESLint, Prettier, Husky und umfassender Fehlerbehandlung.',
+  'home.features.enterpriseBadge': 'Produktion',
+  'home.stack.title': 'Moderner Tech-Stack',
+  'home.stack.subtitle':
+    'Sorgfältig ausgewählte Technologien für optimale Entwicklererfahrung und Performance.',
+  'home.stack.frontend': 'Frontend-Technologien',
+  'home.stack.react': 'React 19 mit TypeScript',
+  'home.stack.mantine': 'Mantine-UI-Komponenten',
+  'home.stack.tailwind': 'TailwindCSS für das Styling',
+  'home.stack.router': 'React Router für die Navigation',
+  'home.stack.helmet': 'React Helmet für SEO',
+  'home.stack.tools': 'Entwicklungswerkzeuge',
+  'home.stack.vite': 'Vite für schnelle Entwicklung',
+  'home.stack.lint': 'ESLint + Prettier',
+  'home.stack.husky': 'Git-Hooks mit Husky',
+  'home.stack.strict': 'Strikter TypeScript-Modus',
+  'home.stack.aliases': 'Pfad-Aliase',
+  'home.cta.title': 'Bereit, etwas Großartiges zu entwickeln?',
+  'home.cta.description':
+    'Starten Sie Ihre nächste Unternehmensanwendung mit diesem produktionsreifen Setup.',
+  'home.cta.button': 'Jetzt entwickeln',
+
+  // Not found page
+  'notFound.meta.title': '404 - Seite nicht gefunden',
+  'notFound.meta.description': 'Die gesuchte Seite existiert nicht.',
+  'notFound.title': 'Seite nicht gefunden',
+  'notFound.description':
+    'Hoppla! Die gesuchte Seite existiert nicht. Sie wurde möglicherweise verschoben oder gelöscht, oder die URL ist falsch.',
+  'notFound.home': 'Zur Startseite',
+  'notFound.back': 'Zurück',
+  'notFound.support':
+    'Wenn Sie glauben, dass es sich um einen Fehler handelt, wenden Sie sich bitte an unser Support-Team.',
+
+  // Notifications
+  'notify.error': 'Etwas ist schiefgelaufen',
+  'notify.networkError': 'Verbindungsproblem',
+  'notify.forbidden': 'Nicht erlaubt',
+  'notify.serverError': 'Serverfehler',
+  'notify.requestFailed': 'Anfrage fehlgeschlagen',
+
+  // Notification center
+  'notifications.open':
+    '{count, plural, =0 {Benachrichtigungen} other {Benachrichtigungen, # ungelesen}}',
+  'notifications.title': 'Benachrichtigungen',
+  'notifications.filter':
+    '{type, select, info {Infos} success {Erfolge} warning {Warnungen} error {Fehler} other {Alle}}',
+  'notifications.markAllRead': 'Alle als gelesen markieren',
+  'notifications.clear': 'Alle löschen',
+  'notifications.markRead': 'Als gelesen markieren',
+  'notifications.remove': 'Benachrichtigung entfernen',
+  'notifications.empty':
+    '{filter, select, all {Sie sind auf dem neuesten Stand} other {Keine Benachrichtigungen dieses Typs}}',
+
+  // Session restore
+  'session.restoreFailed': 'Sitzung konnte nicht wiederhergestellt werden',
+  'session.restoreFailedDescription':
+    'Prüfe deine Verbindung und versuche es erneut.',
+
+  // Error boundary
+  'error.title': 'Hoppla! Etwas ist schiefgelaufen',
+  'error.description':
+    'Leider ist ein unerwarteter Fehler aufgetreten. Bitte laden Sie die Seite neu.',
+  'error.details': 'Fehlerdetails (Entwicklungsmodus)',
+  'error.componentStack': 'Komponenten-Stack: {stack}',
+  'error.reload': 'Seite neu laden',
+  'error.retry': 'Erneut versuchen',
+};
+
+export default de;
@@ -0,0 +1,112 @@
+// English is the source catalog: it defines every message key and is the
+// fallback for messages missing from other catalogs
+const en = {
+  // Navigation and layout
+  'nav.home': 'Home',
+  'nav.dashboard': 'Dashboard',
+  'nav.users': 'Users',
+  'nav.profile': 'Profile',
+  'nav.settings': 'Settings',
+  'layout.accountMenu': 'Account menu',
+  'layout.signIn': 'Sign in',
+  'layout.signOut': 'Sign out',
+  'layout.switchTheme':
+    '{scheme, select, dark {Switch to dark theme} other {Switch to light theme}}',
+
+  // Home page
+  'home.meta.title': '{appName} - Enterprise React Application',
+  'home.hero.badge': 'v{version} • Enterprise Ready',
+  'home.hero.description':
+    '{description}. Built with modern technologies and best practices for scalable enterprise applications.',
+  'home.hero.getStarted': 'Get Started',
+  'home.hero.github': 'View on GitHub',
+  'home.features.title': 'Built for Modern Development',
+  'home.features.subtitle':
+    'Everything you need to build scalable, maintainable, and performant React applications.',
+  'home.features.react':
+    'Built with the latest React features including concurrent rendering and automatic batching.',
+  'home.features.reactBadge': 'Latest',
+  'home.features.typescript':
+    'Full type safety with strict TypeScript configuration for better developer experience.',
+  'home.features.typescriptBadge': 'Type Safe',
+  'home.features.mantine':
+    'Beautiful and accessible components with built-in dark mode support.',
+  'home.features.tailwind':
+    'Utility-first CSS framework for rapid UI development with custom design system.',
+  'home.features.viteTitle': 'Vite Build',
+  'home.features.vite':
+    'Lightning-fast development server and optimized production builds.',
+  'home.features.viteBadge': 'Fast',
+  'home.features.enterpriseTitle': 'Enterprise Ready',
+  'home.features.enterprise':
+    'Production-ready setup with ESLint, Prettier, Husky, and comprehensive error handling.',
+  'home.features.enterpriseBadge': 'Production',
+  'home.stack.title': 'Modern Tech Stack',
+  'home.stack.subtitle':
+    'Carefully selected technologies for optimal developer experience and performance.',
+  'home.stack.frontend': 'Frontend Technologies',
+  'home.stack.react': 'React 19 with TypeScript',
+  'home.stack.mantine': 'Mantine UI Components',
+  'home.stack.tailwind': 'TailwindCSS for Styling',
+  'home.stack.router': 'React Router for Navigation',
+  'home.stack.helmet': 'React Helmet for SEO',
+  'home.stack.tools': 'Development Tools',
+  'home.stack.vite': 'Vite for Fast Development',
+  'home.stack.lint': 'ESLint + Prettier',
+  'home.stack.husky': 'Husky Git Hooks',
+  'home.stack.strict': 'TypeScript Strict Mode',
+  'home.stack.aliases': 'Path Mapping & Aliases',
+  'home.cta.title': 'Ready to Build Something Amazing?',
+  'home.cta.description':
+    'Start building your next enterprise application with this production-ready setup.',
+  'home.cta.button': 'Start Building',
+
+  // Not found page
+  'notFound.meta.title': '404 - Page Not Found',
+  'notFound.meta.description': "The page you're looking for doesn't exist.",
+  'notFound.title': 'Page Not Found',
+  'notFound.description':
+    "Oops! The page you're looking for doesn't exist. It might have been moved, deleted, or you entered the wrong URL.",
+  'notFound.home': 'Go to Homepage',
+  'notFound.back': 'Go Back',
+  'notFound.support':
+    'If you believe this is an error, please contact our support team.',
+
+  // Notifications
+  'notify.error': 'Something went wrong',
+  'notify.networkError': 'Connection problem',
+  'notify.forbidden': 'Not allowed',
+  'notify.serverError': 'Server error',
+  'notify.requestFailed': 'Request failed',
+
+  // Notification center
+  'notifications.open':
+    '{count, plural, =0 {Notifications} other {Notifications, # unread}}',
+  'notifications.title': 'Notifications',
+  'notifications.filter':
+    '{type, select, info {Info} success {Success} warning {Warnings} error {Errors} other {All}}',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.clear': 'Clear all',
+  'notifications.markRead': 'Mark as read',
+  'notifications.remove': 'Remove notification',
+  'notifications.empty':
+    "{filter, select, all {You're all caught up} other {No notifications of this type}}",
+
+  // Session restore
+  'session.restoreFailed': "Couldn't restore your session",
+  'session.restoreFailedDescription': 'Check your connection and try again.',
+
+  // Error boundary
+  'error.title': 'Oops! Something went wrong',
+  'error.description':
+    "We're sorry, but something unexpected happened. Please try refreshing the page.",
+  'error.details': 'Error Details (Development Mode)',
+  'error.componentStack': 'Component Stack: {stack}',
+  'error.reload': 'Reload Page',
+  'error.retry': 'Try Again',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Partial<Record<MessageKey, string>>;
+
+export default en;
@@ -0,0 +1,110 @@
+import type { Messages } from '@/locales/en';
+
+const es: Messages = {
+  // Navigation and layout
+  'nav.home': 'Inicio',
+  'nav.dashboard': 'Panel',
+  'nav.users': 'Usuarios',
+  'nav.profile': 'Perfil',
+  'nav.settings': 'Configuración',
+  'layout.accountMenu': 'Menú de la cuenta',
+  'layout.signIn': 'Iniciar sesión',
+  'layout.signOut': 'Cerrar sesión',
+  'layout.switchTheme':
+    '{scheme, select, dark {Cambiar al tema oscuro} other {Cambiar al tema claro}}',
+
+  // Home page
+  'home.meta.title': '{appName} - Aplicación React empresarial',
+  'home.hero.badge': 'v{version} • Lista para empresas',
+  'home.hero.description':
+    '{description}. Creada con tecnologías modernas y buenas prácticas para aplicaciones empresariales escalables.',
+  'home.hero.getStarted': 'Empezar',
+  'home.hero.github': 'Ver en GitHub',
+  'home.features.title': 'Pensada para el desarrollo moderno',
+  'home.features.subtitle':
+    'Todo lo que necesitas para crear aplicaciones React escalables, mantenibles y eficientes.',
+  'home.features.react':
+    'Creada con las últimas funciones de React, como el renderizado concurrente y el procesamiento automático por lotes.',
+  'home.features.reactBadge': 'Lo último',
+  'home.features.typescript':
+    'Tipado completo con una configuración estricta de TypeScript para una mejor experiencia de desarrollo.',
+  'home.features.typescriptBadge': 'Tipado seguro',
+  'home.features.mantine':
+    'Componentes atractivos y accesibles con modo oscuro integrado.',
+  'home.features.tailwind':
+    'Framework CSS basado en utilidades para desarrollar interfaces rápidamente con un sistema de diseño propio.',
+  'home.features.viteTitle': 'Compilación con Vite',
+  'home.features.vite':
+    'Servidor de desarrollo ultrarrápido y compilaciones de producción optimizadas.',
+  'home.features.viteBadge': 'Rápida',
+  'home.features.enterpriseTitle': 'Lista para empresas',
+  'home.features.enterprise':
+    'Configuración lista para producción con ESLint, Prettier, Husky y un manejo de errores completo.',
+  'home.features.enterpriseBadge': 'Producción',
+  'home.stack.title': 'Tecnologías modernas',
+  'home.stack.subtitle':
+    'Tecnologías seleccionadas para ofrecer la mejor experiencia de desarrollo y rendimiento.',
+  'home.stack.frontend': 'Tecnologías de frontend',
+  'home.stack.react': 'React 19 con TypeScript',
+  'home.stack.mantine': 'Componentes de Mantine UI',
+  'home.stack.tailwind': 'TailwindCSS para los estilos',
+  'home.stack.router': 'React Router para la navegación',
+  'home.stack.helmet': 'React Helmet para el SEO',
+  'home.stack.tools': 'Herramientas de desarrollo',
+  'home.stack.vite': 'Vite para un desarrollo rápido',
+  'home.stack.lint': 'ESLint + Prettier',
+  'home.stack.husky': 'Hooks de Git con Husky',
+  'home.stack.strict': 'Modo estricto de TypeScript',
+  'home.stack.aliases': 'Alias de rutas',
+  'home.cta.title': '¿Listo para crear algo increíble?',
+  'home.cta.description':
+    'Empieza tu próxima aplicación empresarial con esta configuración lista para producción.',
+  'home.cta.button': 'Empezar a crear',
+
+  // Not found page
+  'notFound.meta.title': '404 - Página no encontrada',
+  'notFound.meta.description': 'La página que buscas no existe.',
+  'notFound.title': 'Página no encontrada',
+  'notFound.description':
+    '¡Vaya! La página que buscas no existe. Es posible que se haya movido o eliminado, o que la URL sea incorrecta.',
+  'notFound.home': 'Ir a la página de inicio',
+  'notFound.back': 'Volver',
+  'notFound.support':
+    'Si crees que se trata de un error, ponte en contacto con nuestro equipo de soporte.',
+
+  // Notifications
+  'notify.error': 'Algo ha salido mal',
+  'notify.networkError': 'Problema de conexión',
+  'notify.forbidden': 'Acción no permitida',
+  'notify.serverError': 'Error del servidor',
+  'notify.requestFailed': 'La solicitud ha fallado',
+
+  // Notification center
+  'notifications.open':
+    '{count, plural, =0 {Notificaciones} one {Notificaciones, # sin leer} other {Notificaciones, # sin leer}}',
+  'notifications.title': 'Notificaciones',
+  'notifications.filter':
+    '{type, select, info {Info} success {Éxito} warning {Avisos} error {Errores} other {Todas}}',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.clear': 'Borrar todas',
+  'notifications.markRead': 'Marcar como leída',
+  'notifications.remove': 'Eliminar notificación',
+  'notifications.empty':
+    '{filter, select, all {Estás al día} other {No hay notificaciones de este tipo}}',
+
+  // Session restore
+  'session.restoreFailed': 'No se pudo restaurar la sesión',
+  'session.restoreFailedDescription':
+    'Comprueba tu conexión e inténtalo de nuevo.',
+
+  // Error boundary
+  'error.title': '¡Vaya! Algo ha salido mal',
+  'error.description':
+    'Lo sentimos, ha ocurrido un error inesperado. Prueba a recargar la página.',
+  'error.details': 'Detalles del error (modo de desarrollo)',
+  'error.componentStack': 'Pila de componentes: {stack}',
+  'error.reload': 'Recargar la página',
+  'error.retry': 'Reintentar',
+};
+
+export default es;
@@ -0,0 +1,109 @@
+import type { Messages } from '@/locales/en';
+
+const fr: Messages = {
+  // Navigation and layout
+  'nav.home': 'Accueil',
+  'nav.dashboard': 'Tableau de bord',
+  'nav.users': 'Utilisateurs',
+  'nav.profile': 'Profil',
+  'nav.settings': 'Paramètres',
+  'layout.accountMenu': 'Menu du compte',
+  'layout.signIn': 'Se connecter',
+  'layout.signOut': 'Se déconnecter',
+  'layout.switchTheme':
+    '{scheme, select, dark {Passer au thème sombre} other {Passer au thème clair}}',
+
+  // Home page
+  'home.meta.title': '{appName} - Application React pour entreprises',
+  'home.hero.badge': 'v{version} • Prête pour l’entreprise',
+  'home.hero.description':
+    '{description}. Conçue avec des technologies modernes et les bonnes pratiques pour des applications d’entreprise évolutives.',
+  'home.hero.getStarted': 'Commencer',
+  'home.hero.github': 'Voir sur GitHub',
+  'home.features.title': 'Conçue pour le développement moderne',
+  'home.features.subtitle':
+    'Tout ce qu’il faut pour créer des applications React évolutives, maintenables et performantes.',
+  'home.features.react':
+    'Conçue avec les dernières fonctionnalités de React, dont le rendu concurrent et le regroupement automatique des mises à jour.',
+  'home.features.reactBadge': 'Récent',
+  'home.features.typescript':
+    'Typage complet avec une configuration TypeScript stricte pour une meilleure expérience de développement.',
+  'home.features.typescriptBadge': 'Typage sûr',
+  'home.features.mantine':
+    'Des composants élégants et accessibles avec un mode sombre intégré.',
+  'home.features.tailwind':
+    'Framework CSS utilitaire pour développer rapidement des interfaces avec un design system personnalisé.',
+  'home.features.viteTitle': 'Build avec Vite',
+  'home.features.vite':
+    'Serveur de développement ultra-rapide et builds de production optimisés.',
+  'home.features.viteBadge': 'Rapide',
+  'home.features.enterpriseTitle': 'Prête pour l’entreprise',
+  'home.features.enterprise':
+    'Configuration prête pour la production avec ESLint, Prettier, Husky et une gestion complète des erreurs.',
+  'home.features.enterpriseBadge': 'Production',
+  'home.stack.title': 'Une stack moderne',
+  'home.stack.subtitle':
+    'Des technologies choisies avec soin pour une expérience de développement et des performances optimales.',
+  'home.stack.frontend': 'Technologies frontend',
+  'home.stack.react': 'React 19 avec TypeScript',
+  'home.stack.mantine': 'Composants Mantine UI',
+  'home.stack.tailwind': 'TailwindCSS pour le style',
+  'home.stack.router': 'React Router pour la navigation',
+  'home.stack.helmet': 'React Helmet pour le SEO',
+  'home.stack.tools': 'Outils de développement',
+  'home.stack.vite': 'Vite pour un développement rapide',
+  'home.stack.lint': 'ESLint + Prettier',
+  'home.stack.husky': 'Hooks Git avec Husky',
+  'home.stack.strict': 'Mode strict de TypeScript',
+  'home.stack.aliases': 'Alias de chemins',
+  'home.cta.title': 'Prêt à créer quelque chose d’exceptionnel ?',
+  'home.cta.description':
+    'Lancez votre prochaine application d’entreprise avec cette configuration prête pour la production.',
+  'home.cta.button': 'Commencer à créer',
+
+  // Not found page
+  'notFound.meta.title': '404 - Page introuvable',
+  'notFound.meta.description': 'La page que vous recherchez n’existe pas.',
+  'notFound.title': 'Page introuvable',
+  'notFound.description':
+    'Oups ! La page que vous recherchez n’existe pas. Elle a peut-être été déplacée ou supprimée, ou l’URL est incorrecte.',
+  'notFound.home': 'Retour à l’accueil',
+  'notFound.back': 'Retour',
+  'notFound.support':
+    'Si vous pensez qu’il s’agit d’une erreur, contactez notre équipe d’assistance.',
+
+  // Notifications
+  'notify.error': 'Une erreur est survenue',
+  'notify.networkError': 'Problème de connexion',
+  'notify.forbidden': 'Action non autorisée',
+  'notify.serverError': 'Erreur du serveur',
+  'notify.requestFailed': 'La requête a échoué',
+
+  // Notification center
+  'notifications.open':
+    '{count, plural, =0 {Notifications} one {Notifications, # non lue} other {Notifications, # non lues}}',
+  'notifications.title': 'Notifications',
+  'notifications.filter':
+    '{type, select, info {Infos} success {Succès} warning {Alertes} error {Erreurs} other {Toutes}}',
+  'notifications.markAllRead': 'Tout marquer comme lu',
+  'notifications.clear': 'Tout effacer',
+  'notifications.markRead': 'Marquer comme lue',
+  'notifications.remove': 'Supprimer la notification',
+  'notifications.empty':
+    '{filter, select, all {Vous êtes à jour} other {Aucune notification de ce type}}',
+
+  // Session restore
+  'session.restoreFailed': 'Impossible de restaurer la session',
+  'session.restoreFailedDescription': 'Vérifiez votre connexion et réessayez.',
+
+  // Error boundary
+  'error.title': 'Oups ! Une erreur est survenue',
+  'error.description':
+    'Nous sommes désolés, une erreur inattendue s’est produite. Essayez d’actualiser la page.',
+  'error.details': 'Détails de l’erreur (mode développement)',
+  'error.componentStack': 'Pile des composants : {stack}',
+  'error.reload': 'Actualiser la page',
+  'error.retry': 'Réessayer',
+};
+
+export default fr;
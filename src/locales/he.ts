@@ -0,0 +1,64 @@
+import type { Messages } from '@/locales/en';
+
+// Untranslated messages fall back to English
+const he: Messages = {
+  // Navigation and layout
+  'nav.home': 'דף הבית',
+  'nav.dashboard': 'לוח בקרה',
+  'nav.users': 'משתמשים',
+  'nav.profile': 'פרופיל',
+  'nav.settings': 'הגדרות',
+  'layout.accountMenu': 'תפריט החשבון',
+  'layout.signIn': 'התחברות',
+  'layout.signOut': 'התנתקות',
+  'layout.switchTheme':
+    '{scheme, select, dark {מעבר לערכת נושא כהה} other {מעבר לערכת נושא בהירה}}',
+
+  // Home page
+  'home.meta.title': '{appName} - אפליקציית React לארגונים',
+  'home.hero.badge': 'גרסה {version} • מוכנה לארגונים',
+  'home.hero.description':
+    '{description}. נבנתה בטכנולוגיות מודרניות ובשיטות העבודה המומלצות לאפליקציות ארגוניות שגדלות.',
+  'home.hero.getStarted': 'מתחילים',
+  'home.hero.github': 'צפייה ב-GitHub',
+  'home.features.title': 'נבנתה לפיתוח מודרני',
+  'home.features.subtitle':
+    'כל מה שצריך כדי לבנות אפליקציות React יציבות, קלות לתחזוקה ומהירות.',
+  'home.stack.title': 'טכנולוגיות מודרניות',
+  'home.cta.title': 'מוכנים לבנות משהו מדהים?',
+  'home.cta.description':
+    'התחילו את האפליקציה הארגונית הבאה שלכם עם הגדרה מוכנה לסביבת ייצור.',
+  'home.cta.button': 'מתחילים לבנות',
+
+  // Not found page
+  'notFound.meta.title': '404 - הדף לא נמצא',
+  'notFound.meta.description': 'הדף שחיפשת לא קיים.',
+  'notFound.title': 'הדף לא נמצא',
+  'notFound.description':
+    'אופס! הדף שחיפשת לא קיים. ייתכן שהוא הועבר או נמחק, או שהכתובת שגויה.',
+  'notFound.home': 'מעבר לדף הבית',
+  'notFound.back': 'חזרה',
+  'notFound.support': 'אם לדעתך מדובר בשגיאה, נא לפנות לצוות התמיכה.',
+
+  // Notifications
+  'notify.error': 'משהו השתבש',
+  'notify.networkError': 'בעיית חיבור',
+  'notify.forbidden': 'הפעולה אסורה',
+  'notify.serverError': 'שגיאת שרת',
+  'notify.requestFailed': 'הבקשה נכשלה',
+
+  // Notification center
+  'notifications.title': 'התראות',
+  'notifications.markAllRead': 'סימון הכול כנקרא',
+  'notifications.clear': 'ניקוי הכול',
+
+  // Error boundary
+  'error.title': 'אופס! משהו השתבש',
+  'error.description': 'מצטערים, אירעה שגיאה לא צפויה. נא לרענן את הדף.',
+  'error.details': 'פרטי השגיאה (מצב פיתוח)',
+  'error.componentStack': 'מחסנית הרכיבים: {stack}',
+  'error.reload': 'רענון הדף',
+  'error.retry': 'ניסיון נוסף',
+};
+
+export default he;
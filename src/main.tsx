@@ -2,9 +2,26 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
+import { env } from './config/env';
+import { i18n } from './services/i18n';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+async function bootstrap() {
+  // Loaded on demand so the mock API never ships in regular builds
+  if (env.ENABLE_MOCK_API) {
+    const { startMockApi, startMockRealtime } = await import('./mocks');
+    startMockApi();
+    if (env.ENABLE_REALTIME) startMockRealtime();
+  }
+
+  // Render in the saved language right away instead of flashing English
+  // while its catalog downloads
+  await i18n.setLanguage(i18n.getState().language);
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+}
+
+bootstrap();
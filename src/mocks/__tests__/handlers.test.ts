@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { API_ENDPOINTS } from '@/constants';
+import {
+  http,
+  mockAdmin,
+  mockModerator,
+  mockResponse,
+  MOCK_PASSWORD,
+  mockUser,
+} from '@/mocks';
+import { apiClient, RequestConfig } from '@/services/api';
+import { setupMockApi } from '@/test/mockApi';
+import {
+  AuthResponse,
+  PaginatedResponse,
+  UploadedFile,
+  User,
+  UserRole,
+} from '@/types';
+
+const server = setupMockApi();
+
+describe('mock API handlers', () => {
+  it('should log in seeded users', async () => {
+    const { user, tokens } = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.AUTH.LOGIN,
+      { email: mockUser.email, password: MOCK_PASSWORD },
+      { skipAuthRefresh: true, skipErrorInterceptors: true }
+    );
+
+    expect(user).toEqual(mockUser);
+    expect(tokens.accessToken).toBeTruthy();
+  });
+
+  it('should paginate and filter users', async () => {
+    const page = await apiClient.get<PaginatedResponse<User>>(
+      `${API_ENDPOINTS.USERS.LIST}?page=2&limit=5&status=active`
+    );
+
+    expect(page.data).toHaveLength(5);
+    expect(page.data.every(user => user.isActive)).toBe(true);
+    expect(page.pagination).toMatchObject({ page: 2, hasPrev: true });
+  });
+
+  it('should keep CRUD changes in memory', async () => {
+    await apiClient.put(API_ENDPOINTS.USERS.UPDATE(mockUser.id), {
+      firstName: 'Jane',
+    });
+    const updated = await apiClient.get<User>(
+      API_ENDPOINTS.USERS.GET(mockUser.id)
+    );
+    expect(updated.firstName).toBe('Jane');
+
+    await apiClient.delete(API_ENDPOINTS.USERS.DELETE(mockUser.id));
+    await expect(
+      apiClient.get(API_ENDPOINTS.USERS.GET(mockUser.id), {
+        skipErrorInterceptors: true,
+      })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should limit user management to what the caller may do', async () => {
+    const asModerator: RequestConfig = {
+      headers: { Authorization: `Bearer mock-access.${mockModerator.id}.0` },
+      retry: false,
+      skipErrorInterceptors: true,
+    };
+
+    await expect(
+      apiClient.put(
+        API_ENDPOINTS.USERS.UPDATE(mockUser.id),
+        { role: UserRole.ADMIN },
+        asModerator
+      )
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(
+      apiClient.delete(API_ENDPOINTS.USERS.DELETE(mockAdmin.id), asModerator)
+    ).rejects.toMatchObject({ status: 403 });
+    await expect(
+      apiClient.post(
+        API_ENDPOINTS.USERS.CREATE,
+        { email: mockAdmin.email, firstName: 'A', lastName: 'B' },
+        asModerator
+      )
+    ).rejects.toMatchObject({
+      status: 409,
+      details: { fields: { email: expect.any(String) } },
+    });
+
+    const updated = await apiClient.put<User>(
+      API_ENDPOINTS.USERS.UPDATE(mockUser.id),
+      { isActive: false },
+      asModerator
+    );
+    expect(updated.isActive).toBe(false);
+  });
+
+  it('should update the signed-in profile and password', async () => {
+    const asUser: RequestConfig = {
+      headers: { Authorization: `Bearer mock-access.${mockUser.id}.0` },
+      retry: false,
+      skipErrorInterceptors: true,
+    };
+
+    const profile = await apiClient.put<User>(
+      API_ENDPOINTS.AUTH.PROFILE,
+      { email: 'john@example.com', firstName: 'Johnny', lastName: 'Doe' },
+      asUser
+    );
+    expect(profile).toMatchObject({ id: mockUser.id, firstName: 'Johnny' });
+
+    await expect(
+      apiClient.post(
+        API_ENDPOINTS.AUTH.CHANGE_PASSWORD,
+        { currentPassword: 'wrong', newPassword: 'new-password' },
+        asUser
+      )
+    ).rejects.toMatchObject({
+      status: 400,
+      details: { fields: { currentPassword: expect.any(String) } },
+    });
+    await apiClient.post(
+      API_ENDPOINTS.AUTH.CHANGE_PASSWORD,
+      { currentPassword: MOCK_PASSWORD, newPassword: 'new-password' },
+      asUser
+    );
+
+    const { user } = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.AUTH.LOGIN,
+      { email: 'john@example.com', password: 'new-password' },
+      { skipAuthRefresh: true, skipErrorInterceptors: true }
+    );
+    expect(user.id).toBe(mockUser.id);
+  });
+
+  it('should accept uploads sent with progress, whole or in chunks', async () => {
+    const asUser: RequestConfig = {
+      headers: { Authorization: `Bearer mock-access.${mockUser.id}.0` },
+      retry: false,
+      skipErrorInterceptors: true,
+    };
+    const file = new File(['0123456789'], 'notes.txt', { type: 'text/plain' });
+    const progress: number[] = [];
+
+    const uploaded = await apiClient.upload<UploadedFile>(
+      API_ENDPOINTS.UPLOADS,
+      file,
+      { ...asUser, onUploadProgress: ({ percent }) => progress.push(percent) }
+    );
+    expect(uploaded).toMatchObject({ name: 'notes.txt', size: 10 });
+    expect(progress[progress.length - 1]).toBe(100);
+
+    const chunked = await apiClient.upload<UploadedFile>(
+      API_ENDPOINTS.UPLOADS,
+      file,
+      { ...asUser, chunkSize: 4, onUploadProgress: () => {} }
+    );
+    expect(chunked).toMatchObject({ name: 'notes.txt', size: 10 });
+    expect(chunked.id).not.toBe(uploaded.id);
+  });
+
+  it('should reset the db between tests', async () => {
+    const user = await apiClient.get<User>(
+      API_ENDPOINTS.USERS.GET(mockUser.id)
+    );
+    expect(user.firstName).toBe(mockUser.firstName);
+  });
+
+  it('should let tests override handlers', async () => {
+    server.use(
+      http.get(
+        API_ENDPOINTS.USERS.GET(':id'),
+        () => mockResponse.error(503, 'Maintenance'),
+        true
+      )
+    );
+
+    await expect(
+      apiClient.get(API_ENDPOINTS.USERS.GET('1'), {
+        retry: false,
+        skipErrorInterceptors: true,
+      })
+    ).rejects.toMatchObject({ status: 503, message: 'Maintenance' });
+  });
+});
@@ -0,0 +1,94 @@
+import { seedNotifications, seedUsers } from '@/mocks/fixtures';
+import {
+  ServerNotification,
+  SyncedPreferences,
+  UploadedFile,
+  User,
+} from '@/types';
+
+// Stateful in-memory storage behind the mock handlers. Collections start
+// from their seed and can be reset between tests.
+
+interface MockCollection<T extends { id: string }> {
+  all(): T[];
+  find(id: string): T | undefined;
+  findBy(predicate: (item: T) => boolean): T | undefined;
+  create(data: Omit<T, 'id'> & Partial<Pick<T, 'id'>>): T;
+  update(id: string, patch: Partial<T>): T | undefined;
+  remove(id: string): boolean;
+  reset(): void;
+}
+
+// A chunked upload that has started but not completed
+interface MockUploadSession {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  type: string;
+  // Bytes received so far
+  offset: number;
+}
+
+export function createCollection<T extends { id: string }>(
+  seed: () => T[]
+): MockCollection<T> {
+  let items = new Map<string, T>();
+  let nextId = 1;
+
+  const reset = () => {
+    items = new Map(seed().map(item => [item.id, { ...item }]));
+    nextId = Math.max(0, ...[...items.keys()].map(id => Number(id) || 0)) + 1;
+  };
+  reset();
+
+  return {
+    all: () => [...items.values()],
+    find: id => items.get(id),
+    findBy: predicate => [...items.values()].find(predicate),
+    create: data => {
+      const item = { ...data, id: data.id ?? String(nextId++) } as T;
+      items.set(item.id, item);
+      return item;
+    },
+    update: (id, patch) => {
+      const current = items.get(id);
+      if (!current) return undefined;
+      const updated = { ...current, ...patch, id };
+      items.set(id, updated);
+      return updated;
+    },
+    remove: id => items.delete(id),
+    reset,
+  };
+}
+
+export const db = {
+  users: createCollection<User>(seedUsers),
+  // Passwords of users registered during the session, keyed by user id
+  passwords: new Map<string, string>(),
+  // Saved preferences, keyed by user id
+  preferences: new Map<string, SyncedPreferences>(),
+  // Notifications sent to each user, keyed by user id
+  notifications: new Map<string, ServerNotification[]>(seedNotifications()),
+  // Files are kept as metadata only
+  files: createCollection<UploadedFile>(() => []),
+  // Chunked uploads in progress, keyed by upload id
+  uploads: new Map<string, MockUploadSession>(),
+  // Unused realtime tickets and the user each was issued to
+  realtimeTickets: new Map<string, { userId: string; expiresAt: number }>(),
+};
+
+export const resetDb = (): void => {
+  db.users.reset();
+  db.passwords.clear();
+  db.preferences.clear();
+  db.notifications.clear();
+  db.files.reset();
+  db.uploads.clear();
+  db.realtimeTickets.clear();
+  seedNotifications().forEach(([userId, sent]) =>
+    db.notifications.set(userId, sent)
+  );
+};
+
+export type { MockCollection, MockUploadSession };
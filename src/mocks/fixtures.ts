@@ -0,0 +1,110 @@
+import { ServerNotification, SystemStatus, User, UserRole } from '@/types';
+
+// Password accepted for every seeded account
+export const MOCK_PASSWORD = 'password123';
+
+export const mockUser: User = {
+  id: '1',
+  email: 'test@example.com',
+  firstName: 'John',
+  lastName: 'Doe',
+  avatar: 'https://example.com/avatar.jpg',
+  role: UserRole.USER,
+  isActive: true,
+  createdAt: '2023-01-01T00:00:00Z',
+  updatedAt: '2023-01-01T00:00:00Z',
+};
+
+export const mockAdmin: User = {
+  ...mockUser,
+  id: '2',
+  email: 'admin@example.com',
+  firstName: 'Ada',
+  lastName: 'Admin',
+  role: UserRole.ADMIN,
+};
+
+export const mockModerator: User = {
+  ...mockUser,
+  id: '3',
+  email: 'moderator@example.com',
+  firstName: 'Max',
+  lastName: 'Moderator',
+  role: UserRole.MODERATOR,
+};
+
+const FIRST_NAMES = ['Alice', 'Bob', 'Carol', 'Dave', 'Eve', 'Frank', 'Grace'];
+const LAST_NAMES = ['Smith', 'Jones', 'Brown', 'Taylor', 'Wilson', 'Clark'];
+
+// Deterministic filler users so lists have something to paginate
+export const generateUsers = (count: number, startId = 100): User[] =>
+  Array.from({ length: count }, (_, index) => {
+    const firstName = FIRST_NAMES[index % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[index % LAST_NAMES.length];
+    const createdAt = new Date(Date.UTC(2023, 0, 1 + index)).toISOString();
+    return {
+      id: String(startId + index),
+      email: `${firstName}.${lastName}${index}@example.com`.toLowerCase(),
+      firstName,
+      lastName,
+      role: UserRole.USER,
+      isActive: index % 5 !== 0,
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+
+export const seedUsers = (): User[] => [
+  mockUser,
+  mockAdmin,
+  mockModerator,
+  ...generateUsers(42),
+];
+
+// Notifications waiting for the seeded accounts, keyed by user id
+export const seedNotifications = (): Array<[string, ServerNotification[]]> => [
+  [
+    mockUser.id,
+    [
+      {
+        id: 'welcome',
+        type: 'info',
+        title: 'Welcome aboard',
+        message: 'Complete your profile so teammates can find you.',
+        createdAt: '2023-01-01T00:00:00Z',
+      },
+    ],
+  ],
+  [
+    mockAdmin.id,
+    [
+      {
+        id: 'storage-warning',
+        type: 'warning',
+        title: 'Storage almost full',
+        message: 'Uploads are using 90% of the available space.',
+        createdAt: '2023-01-02T09:30:00Z',
+      },
+      {
+        id: 'welcome-admin',
+        type: 'info',
+        title: 'Welcome aboard',
+        message: 'Invite your team from the Users page.',
+        createdAt: '2023-01-01T00:00:00Z',
+      },
+    ],
+  ],
+];
+
+// Plausible, slowly changing service health for the live dashboard
+export const createSystemStatus = (now = Date.now()): SystemStatus => {
+  const minute = now / 60000;
+  const errorRate = Math.max(0, 0.01 + 0.01 * Math.sin(minute / 3));
+  return {
+    status: errorRate > 0.015 ? 'degraded' : 'operational',
+    activeUsers: Math.round(120 + 40 * Math.sin(minute / 5)),
+    requestsPerMinute: Math.round(900 + 300 * Math.cos(minute / 2)),
+    errorRate: Number(errorRate.toFixed(4)),
+    updatedAt: new Date(now).toISOString(),
+  };
+};
@@ -0,0 +1,445 @@
+import { API_ENDPOINTS, HTTP_STATUS } from '@/constants';
+import { db } from '@/mocks/db';
+import { createSystemStatus, MOCK_PASSWORD } from '@/mocks/fixtures';
+import { http, mockResponse, MockRequest } from '@/mocks/server';
+import {
+  AuthResponse,
+  AuthTokens,
+  ChangePasswordData,
+  PaginatedResponse,
+  ProfileUpdate,
+  RegisterData,
+  SyncedPreferences,
+  User,
+  UserInput,
+  UserRole,
+} from '@/types';
+import { canManageUser, getAssignableRoles } from '@/utils/permissions';
+
+// Tokens encode the user id so handlers can tell who is calling
+const ACCESS_TOKEN_PREFIX = 'mock-access.';
+const REFRESH_TOKEN_PREFIX = 'mock-refresh.';
+
+const issueTokens = (user: User): AuthTokens => ({
+  accessToken: `${ACCESS_TOKEN_PREFIX}${user.id}.${Date.now()}`,
+  refreshToken: `${REFRESH_TOKEN_PREFIX}${user.id}`,
+  expiresIn: 3600,
+});
+
+const userIdFromToken = (token: string | undefined, prefix: string) =>
+  token?.startsWith(prefix) ? token.slice(prefix.length).split('.')[0] : null;
+
+export const getUserFromToken = (
+  token: string | null | undefined
+): User | undefined => {
+  const userId = userIdFromToken(token ?? undefined, ACCESS_TOKEN_PREFIX);
+  return userId ? db.users.find(userId) : undefined;
+};
+
+export const getCurrentUser = (request: MockRequest): User | undefined =>
+  getUserFromToken(
+    request.headers.get('Authorization')?.replace(/^Bearer /, '')
+  );
+
+const checkPassword = (user: User, password: string) =>
+  password === (db.passwords.get(user.id) ?? MOCK_PASSWORD);
+
+// Uploaded avatars are kept inline, as there is nowhere to store files
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const unauthorized = () =>
+  mockResponse.error(
+    HTTP_STATUS.UNAUTHORIZED,
+    'Authentication required',
+    'UNAUTHORIZED'
+  );
+
+const notFound = (what: string) =>
+  mockResponse.error(HTTP_STATUS.NOT_FOUND, `${what} not found`, 'NOT_FOUND');
+
+const emailTaken = () =>
+  mockResponse.error(
+    HTTP_STATUS.CONFLICT,
+    'An account with this email already exists',
+    'EMAIL_TAKEN',
+    { fields: { email: 'An account with this email already exists' } }
+  );
+
+const isEmailTaken = (email: string | undefined, exceptId?: string) =>
+  !!email &&
+  !!db.users.findBy(user => user.email === email && user.id !== exceptId);
+
+// Signed-in callers get the same limits the admin screens apply. Anonymous
+// calls (e.g. from unit tests) skip the check.
+const isForbidden = (
+  request: MockRequest,
+  { target, role }: { target?: User; role?: UserRole }
+) => {
+  const actor = getCurrentUser(request);
+  if (!actor) return false;
+  return (
+    (!!target && !canManageUser(actor, target)) ||
+    (!!role && !getAssignableRoles(actor).includes(role))
+  );
+};
+
+const forbidden = () =>
+  mockResponse.error(
+    HTTP_STATUS.FORBIDDEN,
+    'You are not allowed to manage this user',
+    'FORBIDDEN'
+  );
+
+// Auth handlers
+export const authHandlers = [
+  http.post(API_ENDPOINTS.AUTH.LOGIN, ({ body }) => {
+    const { email, password } = body as { email: string; password: string };
+    const user = db.users.findBy(candidate => candidate.email === email);
+    if (!user || !checkPassword(user, password)) {
+      return mockResponse.error(
+        HTTP_STATUS.UNAUTHORIZED,
+        'Invalid email or password',
+        'INVALID_CREDENTIALS'
+      );
+    }
+    return mockResponse.ok<AuthResponse>({ user, tokens: issueTokens(user) });
+  }),
+
+  http.post(API_ENDPOINTS.AUTH.REGISTER, ({ body }) => {
+    const { password, ...data } = body as RegisterData;
+    if (isEmailTaken(data.email)) return emailTaken();
+
+    const now = new Date().toISOString();
+    const user = db.users.create({
+      ...data,
+      role: UserRole.USER,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    db.passwords.set(user.id, password);
+    return mockResponse.ok<AuthResponse>(
+      { user, tokens: issueTokens(user) },
+      HTTP_STATUS.CREATED
+    );
+  }),
+
+  http.post(API_ENDPOINTS.AUTH.REFRESH, ({ body }) => {
+    const { refreshToken } = body as { refreshToken: string };
+    const userId = userIdFromToken(refreshToken, REFRESH_TOKEN_PREFIX);
+    const user = userId ? db.users.find(userId) : undefined;
+    return user ? mockResponse.ok(issueTokens(user)) : unauthorized();
+  }),
+
+  http.post(API_ENDPOINTS.AUTH.LOGOUT, () => mockResponse.noContent()),
+
+  http.get(API_ENDPOINTS.AUTH.PROFILE, request => {
+    const user = getCurrentUser(request);
+    return user ? mockResponse.ok(user) : unauthorized();
+  }),
+
+  http.put(API_ENDPOINTS.AUTH.PROFILE, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    const { email, firstName, lastName } = request.body as ProfileUpdate;
+    if (isEmailTaken(email, user.id)) return emailTaken();
+
+    return mockResponse.ok(
+      db.users.update(user.id, {
+        email,
+        firstName,
+        lastName,
+        updatedAt: new Date().toISOString(),
+      })
+    );
+  }),
+
+  http.post(API_ENDPOINTS.AUTH.CHANGE_PASSWORD, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    const { currentPassword, newPassword } = request.body as ChangePasswordData;
+    if (!checkPassword(user, currentPassword)) {
+      return mockResponse.error(
+        HTTP_STATUS.BAD_REQUEST,
+        'Current password is incorrect',
+        'INVALID_PASSWORD',
+        { fields: { currentPassword: 'Current password is incorrect' } }
+      );
+    }
+
+    db.passwords.set(user.id, newPassword);
+    return mockResponse.noContent();
+  }),
+
+  http.post(API_ENDPOINTS.AUTH.AVATAR, async request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    const file = (request.body as FormData).get('avatar');
+    if (!(file instanceof Blob)) {
+      return mockResponse.error(
+        HTTP_STATUS.BAD_REQUEST,
+        'No avatar was uploaded',
+        'MISSING_FILE'
+      );
+    }
+
+    return mockResponse.ok(
+      db.users.update(user.id, {
+        avatar: await readAsDataUrl(file),
+        updatedAt: new Date().toISOString(),
+      })
+    );
+  }),
+
+  // Null until the user first saves their preferences
+  http.get(API_ENDPOINTS.AUTH.PREFERENCES, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    return mockResponse.ok(db.preferences.get(user.id) ?? null);
+  }),
+
+  http.put(API_ENDPOINTS.AUTH.PREFERENCES, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    const saved = request.body as SyncedPreferences;
+    db.preferences.set(user.id, saved);
+    return mockResponse.ok(saved);
+  }),
+];
+
+// User handlers
+const SORTABLE_USER_FIELDS: Array<keyof User> = [
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'createdAt',
+];
+
+export const userHandlers = [
+  http.get(API_ENDPOINTS.USERS.LIST, ({ query }) => {
+    const page = Math.max(1, Number(query.get('page')) || 1);
+    const limit = Math.max(1, Number(query.get('limit')) || 10);
+    const search = query.get('query')?.toLowerCase();
+    const role = query.get('role');
+    const status = query.get('status');
+    const sortBy = query.get('sortBy') as keyof User | null;
+    const direction = query.get('sortOrder') === 'desc' ? -1 : 1;
+
+    let users = db.users
+      .all()
+      .filter(
+        user =>
+          (!search ||
+            `${user.firstName} ${user.lastName} ${user.email}`
+              .toLowerCase()
+              .includes(search)) &&
+          (!role || user.role === role) &&
+          (!status || (status === 'active') === user.isActive)
+      );
+
+    if (sortBy && SORTABLE_USER_FIELDS.includes(sortBy)) {
+      users = [...users].sort(
+        (a, b) => String(a[sortBy]).localeCompare(String(b[sortBy])) * direction
+      );
+    }
+
+    const total = users.length;
+    const totalPages = Math.max(1, Math.ceil(total / limit));
+    return mockResponse.ok<PaginatedResponse<User>>({
+      data: users.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+
+  http.get(API_ENDPOINTS.USERS.GET(':id'), ({ params }) => {
+    const user = db.users.find(params.id);
+    return user ? mockResponse.ok(user) : notFound('User');
+  }),
+
+  http.post(API_ENDPOINTS.USERS.CREATE, request => {
+    const now = new Date().toISOString();
+    const data = request.body as Partial<UserInput> &
+      Pick<UserInput, 'email' | 'firstName' | 'lastName'>;
+    if (isEmailTaken(data.email)) return emailTaken();
+    if (isForbidden(request, { role: data.role ?? UserRole.USER })) {
+      return forbidden();
+    }
+
+    const user = db.users.create({
+      ...data,
+      role: data.role ?? UserRole.USER,
+      isActive: data.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return mockResponse.ok(user, HTTP_STATUS.CREATED);
+  }),
+
+  http.put(API_ENDPOINTS.USERS.UPDATE(':id'), request => {
+    const target = db.users.find(request.params.id);
+    const data = request.body as Partial<UserInput>;
+    if (!target) return notFound('User');
+    if (isForbidden(request, { target, role: data.role })) return forbidden();
+    if (isEmailTaken(data.email, target.id)) return emailTaken();
+
+    const user = db.users.update(target.id, {
+      ...data,
+      updatedAt: new Date().toISOString(),
+    });
+    return mockResponse.ok(user);
+  }),
+
+  http.delete(API_ENDPOINTS.USERS.DELETE(':id'), request => {
+    const target = db.users.find(request.params.id);
+    if (!target) return notFound('User');
+    if (isForbidden(request, { target })) return forbidden();
+
+    db.users.remove(target.id);
+    return mockResponse.noContent();
+  }),
+];
+
+// System handlers
+export const systemHandlers = [
+  http.get(API_ENDPOINTS.SYSTEM.STATUS, () =>
+    mockResponse.ok(createSystemStatus())
+  ),
+];
+
+// Realtime handlers
+const REALTIME_TICKET_TTL = 30 * 1000;
+let nextTicketId = 1;
+
+// Tickets are single-use, so one that leaks from a URL is already spent
+export const redeemRealtimeTicket = (ticket: string | null): boolean => {
+  const issued = ticket ? db.realtimeTickets.get(ticket) : undefined;
+  if (!ticket || !issued) return false;
+  db.realtimeTickets.delete(ticket);
+  return issued.expiresAt > Date.now() && Boolean(db.users.find(issued.userId));
+};
+
+export const realtimeHandlers = [
+  http.post(API_ENDPOINTS.REALTIME.TICKETS, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+
+    const ticket = `mock-ticket.${nextTicketId++}`;
+    db.realtimeTickets.set(ticket, {
+      userId: user.id,
+      expiresAt: Date.now() + REALTIME_TICKET_TTL,
+    });
+    return mockResponse.ok({ ticket }, 201);
+  }),
+];
+
+// Notification handlers
+export const notificationHandlers = [
+  http.get(API_ENDPOINTS.NOTIFICATIONS, request => {
+    const user = getCurrentUser(request);
+    if (!user) return unauthorized();
+    return mockResponse.ok(db.notifications.get(user.id) ?? []);
+  }),
+];
+
+// Upload handlers: single multipart requests and the resumable protocol
+// described in ApiService.uploadInChunks
+let nextUploadId = 1;
+
+const storeFile = (name: string, size: number, type: string) =>
+  db.files.create({ name, size, type, createdAt: new Date().toISOString() });
+
+const uploadNotFound = () => notFound('Upload');
+
+export const uploadHandlers = [
+  http.post(API_ENDPOINTS.UPLOADS, request => {
+    if (!getCurrentUser(request)) return unauthorized();
+
+    if (request.body instanceof FormData) {
+      const file = request.body.get('file');
+      if (!(file instanceof File)) {
+        return mockResponse.error(
+          HTTP_STATUS.BAD_REQUEST,
+          'No file was uploaded',
+          'MISSING_FILE'
+        );
+      }
+      return mockResponse.ok(storeFile(file.name, file.size, file.type), 201);
+    }
+
+    const { fileName, size, type } = request.body as {
+      fileName: string;
+      size: number;
+      type: string;
+    };
+    const session = {
+      uploadId: `upload-${nextUploadId++}`,
+      fileName,
+      size,
+      type,
+      offset: 0,
+    };
+    db.uploads.set(session.uploadId, session);
+    return mockResponse.ok(session, 201);
+  }),
+
+  http.get(`${API_ENDPOINTS.UPLOADS}/:id`, request => {
+    const session = db.uploads.get(request.params.id);
+    return session ? mockResponse.ok(session) : uploadNotFound();
+  }),
+
+  http.put(`${API_ENDPOINTS.UPLOADS}/:id`, request => {
+    const session = db.uploads.get(request.params.id);
+    if (!session) return uploadNotFound();
+
+    // Chunks that don't continue at the current offset are ignored; the
+    // client resends from the offset in the response
+    const start = Number(
+      request.headers.get('Content-Range')?.match(/^bytes (\d+)-/)?.[1]
+    );
+    if (start === session.offset && request.body instanceof Blob) {
+      session.offset = Math.min(session.size, start + request.body.size);
+    }
+    return mockResponse.ok(session);
+  }),
+
+  http.post(`${API_ENDPOINTS.UPLOADS}/:id/complete`, request => {
+    const session = db.uploads.get(request.params.id);
+    if (!session) return uploadNotFound();
+    if (session.offset < session.size) {
+      return mockResponse.error(
+        HTTP_STATUS.CONFLICT,
+        'The upload is incomplete',
+        'UPLOAD_INCOMPLETE'
+      );
+    }
+
+    db.uploads.delete(session.uploadId);
+    return mockResponse.ok(
+      storeFile(session.fileName, session.size, session.type),
+      201
+    );
+  }),
+];
+
+export const handlers = [
+  ...authHandlers,
+  ...userHandlers,
+  ...notificationHandlers,
+  ...systemHandlers,
+  ...realtimeHandlers,
+  ...uploadHandlers,
+];
@@ -0,0 +1,46 @@
+import { REALTIME_TOPICS } from '@/constants';
+import { createSystemStatus } from '@/mocks/fixtures';
+import { handlers } from '@/mocks/handlers';
+import { MockRealtimeOptions, MockRealtimeServer } from '@/mocks/realtime';
+import { MockServer, MockServerOptions } from '@/mocks/server';
+
+export { db, resetDb } from '@/mocks/db';
+export * from '@/mocks/fixtures';
+export { handlers } from '@/mocks/handlers';
+export { MockRealtimeServer } from '@/mocks/realtime';
+export { http, mockResponse, MockServer } from '@/mocks/server';
+export type {
+  MockRealtimeConnection,
+  MockRealtimeOptions,
+} from '@/mocks/realtime';
+export type {
+  MockHandler,
+  MockRequest,
+  MockResolver,
+  MockServerOptions,
+} from '@/mocks/server';
+
+// Serves the API from the in-memory handlers while developing
+export function startMockApi(
+  options: Partial<MockServerOptions> = {}
+): MockServer {
+  const server = new MockServer(handlers, { latency: [150, 400], ...options });
+  server.listen();
+  console.info('[mock api] Serving API requests from src/mocks');
+  return server;
+}
+
+// Serves the realtime connection while developing, publishing a fresh
+// system status every few seconds
+export function startMockRealtime(
+  options: Partial<MockRealtimeOptions> = {}
+): MockRealtimeServer {
+  const server = new MockRealtimeServer(options);
+  server.listen();
+  setInterval(
+    () => server.publish(REALTIME_TOPICS.SYSTEM_STATUS, createSystemStatus()),
+    5000
+  );
+  console.info('[mock api] Serving realtime connections from src/mocks');
+  return server;
+}
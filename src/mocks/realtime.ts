@@ -0,0 +1,313 @@
+import { env } from '@/config/env';
+import { getUserFromToken, redeemRealtimeTicket } from '@/mocks/handlers';
+import type { ClientFrame, ServerFrame } from '@/services/realtime';
+
+// Mock realtime types
+interface MockRealtimeOptions {
+  // http(s) URL the realtime client connects to
+  url: string;
+  // Refuse WebSocket connections, as some proxies do, so clients fall back
+  // to server-sent events
+  webSocket: boolean;
+  // Whether an access token may connect over WebSocket; defaults to the
+  // mock API's tokens
+  authenticate: (token: string | null) => boolean;
+  // Whether an SSE ticket is valid, using it up; defaults to tickets issued
+  // by the mock API
+  redeemTicket: (ticket: string | null) => boolean;
+}
+
+interface MockRealtimeConnection {
+  transport: 'websocket' | 'sse';
+  // The access token (WebSocket) or ticket (SSE) it connected with
+  token: string | null;
+  topics: Set<string>;
+  // Whether the token was accepted and the connection receives messages
+  isReady: boolean;
+  deliver(frame: ServerFrame): void;
+  drop(code?: number): void;
+}
+
+const defaultRealtimeOptions: MockRealtimeOptions = {
+  url: env.REALTIME_URL,
+  webSocket: true,
+  authenticate: token => Boolean(getUserFromToken(token)),
+  redeemTicket: redeemRealtimeTicket,
+};
+
+const UNAUTHORIZED_CLOSE_CODE = 4401;
+// Going away: the server restarted or dropped the connection
+const GOING_AWAY_CLOSE_CODE = 1001;
+
+// Socket events fire asynchronously, like the real ones
+const later = (callback: () => void) => setTimeout(callback, 0);
+
+const pathOf = (url: string | URL) => {
+  const { host, pathname } = new URL(url, window.location.origin);
+  return `${host}${pathname.replace(/\/$/, '')}`;
+};
+
+class MockWebSocket implements MockRealtimeConnection {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly transport = 'websocket';
+  readonly url: string;
+  readyState: number = MockWebSocket.CONNECTING;
+  token: string | null = null;
+  topics = new Set<string>();
+  isReady = false;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  private server: MockRealtimeServer;
+
+  constructor(server: MockRealtimeServer, url: string) {
+    this.server = server;
+    this.url = url;
+    later(() => server.accept(this));
+  }
+
+  send(data: string): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new DOMException('WebSocket is not open', 'InvalidStateError');
+    }
+    this.server.handleFrame(this, JSON.parse(data) as ClientFrame);
+  }
+
+  close(code = 1000): void {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.finish(code);
+  }
+
+  // Server side
+  open(): void {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  deliver(frame: ServerFrame): void {
+    if (this.readyState !== MockWebSocket.OPEN) return;
+    const data = JSON.stringify(frame);
+    later(() => this.onmessage?.(new MessageEvent('message', { data })));
+  }
+
+  drop(code = GOING_AWAY_CLOSE_CODE): void {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    if (this.readyState === MockWebSocket.CONNECTING) {
+      this.onerror?.(new Event('error'));
+    }
+    this.finish(code);
+  }
+
+  private finish(code: number): void {
+    this.readyState = MockWebSocket.CLOSED;
+    this.server.detach(this);
+    later(() => this.onclose?.({ code } as CloseEvent));
+  }
+}
+
+class MockEventSource implements MockRealtimeConnection {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  readonly transport = 'sse';
+  readonly url: string;
+  readonly withCredentials = false;
+  readyState: number = MockEventSource.CONNECTING;
+  token: string | null;
+  topics: Set<string>;
+  isReady = false;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private server: MockRealtimeServer;
+
+  constructor(server: MockRealtimeServer, url: string) {
+    const { searchParams } = new URL(url, window.location.origin);
+    this.server = server;
+    this.url = url;
+    this.token = searchParams.get('ticket');
+    this.topics = new Set(
+      (searchParams.get('topics') ?? '').split(',').filter(Boolean)
+    );
+    later(() => server.accept(this));
+  }
+
+  close(): void {
+    this.readyState = MockEventSource.CLOSED;
+    this.server.detach(this);
+  }
+
+  // Server side
+  open(): void {
+    this.readyState = MockEventSource.OPEN;
+    this.onopen?.(new Event('open'));
+  }
+
+  deliver(frame: ServerFrame): void {
+    if (this.readyState !== MockEventSource.OPEN) return;
+    const data = JSON.stringify(frame);
+    later(() => {
+      if (this.readyState === MockEventSource.OPEN) {
+        this.onmessage?.(new MessageEvent('message', { data }));
+      }
+    });
+  }
+
+  drop(): void {
+    if (this.readyState === MockEventSource.CLOSED) return;
+    this.server.detach(this);
+    later(() => {
+      if (this.readyState === MockEventSource.CLOSED) return;
+      this.readyState = MockEventSource.CLOSED;
+      this.onerror?.(new Event('error'));
+    });
+  }
+}
+
+// Stands in for the realtime backend by replacing the WebSocket and
+// EventSource constructors for connections to its URL, the way MockServer
+// replaces fetch. Publish messages with publish().
+class MockRealtimeServer {
+  private options: MockRealtimeOptions;
+  private connections = new Set<MockRealtimeConnection>();
+  private originals: {
+    WebSocket: typeof WebSocket | undefined;
+    EventSource: typeof EventSource | undefined;
+  } | null = null;
+
+  constructor(options: Partial<MockRealtimeOptions> = {}) {
+    this.options = { ...defaultRealtimeOptions, ...options };
+  }
+
+  // Lifecycle
+  listen(): void {
+    if (this.originals) return;
+    this.originals = {
+      WebSocket: globalThis.WebSocket,
+      EventSource: globalThis.EventSource,
+    };
+    globalThis.WebSocket = this.intercept(
+      MockWebSocket,
+      this.originals.WebSocket
+    );
+    globalThis.EventSource = this.intercept(
+      MockEventSource,
+      this.originals.EventSource,
+      '/events'
+    );
+  }
+
+  close(): void {
+    if (!this.originals) return;
+    this.disconnectAll();
+    globalThis.WebSocket = this.originals.WebSocket!;
+    globalThis.EventSource = this.originals.EventSource!;
+    this.originals = null;
+  }
+
+  configure(options: Partial<MockRealtimeOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Sends a message to every connection subscribed to the topic and returns
+  // how many received it
+  publish(topic: string, data: unknown): number {
+    let delivered = 0;
+    this.connections.forEach(connection => {
+      if (!connection.isReady || !connection.topics.has(topic)) return;
+      connection.deliver({ type: 'message', topic, data });
+      delivered += 1;
+    });
+    return delivered;
+  }
+
+  // Drops every open connection, as a server restart would
+  disconnectAll(): void {
+    [...this.connections].forEach(connection => {
+      this.connections.delete(connection);
+      connection.drop();
+    });
+  }
+
+  getConnections(): ReadonlyArray<
+    Pick<MockRealtimeConnection, 'transport' | 'token' | 'topics' | 'isReady'>
+  > {
+    return [...this.connections];
+  }
+
+  // Connection handling, called by the mock sockets
+  accept(connection: MockWebSocket | MockEventSource): void {
+    if (connection.readyState !== 0) return;
+
+    if (connection.transport === 'websocket') {
+      if (!this.options.webSocket) {
+        connection.drop(1006);
+        return;
+      }
+      this.connections.add(connection);
+      connection.open();
+      return;
+    }
+
+    connection.open();
+    if (!this.options.redeemTicket(connection.token)) {
+      connection.deliver({ type: 'error', code: 'UNAUTHORIZED' });
+      connection.drop();
+      return;
+    }
+    this.connections.add(connection);
+    connection.isReady = true;
+    connection.deliver({ type: 'ready' });
+  }
+
+  handleFrame(connection: MockWebSocket, frame: ClientFrame): void {
+    if (frame.type === 'auth') {
+      if (!this.options.authenticate(frame.token)) {
+        connection.drop(UNAUTHORIZED_CLOSE_CODE);
+        return;
+      }
+      connection.token = frame.token;
+      connection.isReady = true;
+      connection.deliver({ type: 'ready' });
+    } else if (!connection.isReady) {
+      connection.drop(UNAUTHORIZED_CLOSE_CODE);
+    } else if (frame.type === 'subscribe') {
+      connection.topics.add(frame.topic);
+    } else {
+      connection.topics.delete(frame.topic);
+    }
+  }
+
+  detach(connection: MockRealtimeConnection): void {
+    this.connections.delete(connection);
+  }
+
+  // Private methods
+  private intercept<T extends typeof WebSocket | typeof EventSource>(
+    MockSocket: new (server: MockRealtimeServer, url: string) => unknown,
+    original: T | undefined,
+    suffix = ''
+  ): T {
+    const path = pathOf(this.options.url) + suffix;
+    const target = (original ?? MockSocket) as T;
+
+    // Other connections, e.g. the dev server's hot reload socket, go through
+    return new Proxy(target, {
+      construct: (socketClass, args: [string | URL]) =>
+        pathOf(args[0]) === path
+          ? (new MockSocket(this, String(args[0])) as object)
+          : Reflect.construct(socketClass, args),
+    });
+  }
+}
+
+// Export types
+export type { MockRealtimeConnection, MockRealtimeOptions };
+export { MockRealtimeServer };
@@ -0,0 +1,285 @@
+import { env } from '@/config/env';
+import { createMockXMLHttpRequest } from '@/mocks/xhr';
+
+// Mock server types
+type MockMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface MockRequest {
+  method: MockMethod;
+  url: URL;
+  // Path relative to the API base URL, e.g. /users/42
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  // Parsed JSON body, or the raw body for FormData, Blobs etc.
+  body: unknown;
+}
+
+type MockResolver = (request: MockRequest) => Response | Promise<Response>;
+
+interface MockHandler {
+  method: MockMethod;
+  // Route pattern with :named segments, e.g. API_ENDPOINTS.USERS.GET(':id')
+  path: string;
+  resolver: MockResolver;
+  // Remove the handler after it has answered one request
+  once?: boolean;
+}
+
+interface MockServerOptions {
+  baseURL: string;
+  // Delay before every response (ms), fixed or a [min, max] range
+  latency: number | [number, number];
+  // Share of requests (0-1) that fail with a 500 to exercise error paths
+  errorRate: number;
+  // What to do with requests no handler matches
+  onUnhandledRequest: 'bypass' | 'error';
+}
+
+const defaultServerOptions: MockServerOptions = {
+  baseURL: env.API_BASE_URL,
+  latency: 0,
+  errorRate: 0,
+  onUnhandledRequest: 'bypass',
+};
+
+// Response helpers, shaped like the real backend's envelopes
+export const mockResponse = {
+  json: (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+
+  ok: <T>(data: T, status = 200): Response =>
+    mockResponse.json(
+      {
+        data,
+        message: 'Success',
+        success: true,
+        timestamp: new Date().toISOString(),
+      },
+      status
+    ),
+
+  error: (
+    status: number,
+    message: string,
+    code = 'HTTP_ERROR',
+    details?: Record<string, unknown>
+  ): Response =>
+    mockResponse.json(
+      { message, code, details, timestamp: new Date().toISOString() },
+      status
+    ),
+
+  noContent: (): Response => new Response(null, { status: 204 }),
+
+  // Simulates a dropped connection, the way fetch reports one
+  networkError: (): never => {
+    throw new TypeError('Failed to fetch');
+  },
+};
+
+// Handler builders
+const createHandler =
+  (method: MockMethod) =>
+  (path: string, resolver: MockResolver, once = false): MockHandler => ({
+    method,
+    path,
+    resolver,
+    once,
+  });
+
+export const http = {
+  get: createHandler('GET'),
+  post: createHandler('POST'),
+  put: createHandler('PUT'),
+  patch: createHandler('PATCH'),
+  delete: createHandler('DELETE'),
+};
+
+// Helpers
+const matchPath = (
+  pattern: string,
+  path: string
+): Record<string, string> | null => {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < patternSegments.length; index++) {
+    const expected = patternSegments[index];
+    const actual = decodeURIComponent(pathSegments[index]);
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = actual;
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const parseBody = (body: BodyInit | null | undefined): unknown => {
+  if (typeof body !== 'string') return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const toUrl = (input: RequestInfo | URL): URL => {
+  const href =
+    typeof input === 'string'
+      ? input
+      : input instanceof URL
+        ? input.href
+        : input.url;
+  return new URL(href, window.location.origin);
+};
+
+const createAbortError = () =>
+  new DOMException('The request was aborted', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timeoutId = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeoutId);
+        reject(createAbortError());
+      },
+      { once: true }
+    );
+  });
+
+// Intercepts fetch and answers API requests from the registered handlers.
+// Handlers added with use() take precedence until resetHandlers().
+class MockServer {
+  private initialHandlers: MockHandler[];
+  private handlers: MockHandler[];
+  private options: MockServerOptions;
+  private originalFetch: typeof fetch | null = null;
+  private originalXMLHttpRequest: typeof XMLHttpRequest | null = null;
+
+  constructor(
+    handlers: MockHandler[] = [],
+    options: Partial<MockServerOptions> = {}
+  ) {
+    this.initialHandlers = handlers;
+    this.handlers = [...handlers];
+    this.options = { ...defaultServerOptions, ...options };
+  }
+
+  // Lifecycle
+  // Uploads with progress use XMLHttpRequest, which is answered through
+  // the same handlers
+  listen(): void {
+    if (this.originalFetch) return;
+    this.originalFetch = globalThis.fetch;
+    this.originalXMLHttpRequest = globalThis.XMLHttpRequest;
+    globalThis.fetch = this.fetch;
+    globalThis.XMLHttpRequest = createMockXMLHttpRequest(this.fetch);
+  }
+
+  close(): void {
+    if (!this.originalFetch) return;
+    globalThis.fetch = this.originalFetch;
+    globalThis.XMLHttpRequest = this.originalXMLHttpRequest!;
+    this.originalFetch = null;
+    this.originalXMLHttpRequest = null;
+  }
+
+  // Handler management
+  use(...handlers: MockHandler[]): void {
+    this.handlers = [...handlers, ...this.handlers];
+  }
+
+  resetHandlers(): void {
+    this.handlers = [...this.initialHandlers];
+  }
+
+  configure(options: Partial<MockServerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  fetch = async (
+    input: RequestInfo | URL,
+    init: RequestInit = {}
+  ): Promise<Response> => {
+    const url = toUrl(input);
+    const base = new URL(this.options.baseURL, window.location.origin);
+    const basePath = base.pathname.replace(/\/$/, '');
+    const isApiRequest =
+      url.origin === base.origin && url.pathname.startsWith(basePath);
+    const path = isApiRequest ? url.pathname.slice(basePath.length) : '';
+    const method = (init.method || 'GET').toUpperCase() as MockMethod;
+
+    const match = isApiRequest ? this.findHandler(method, path) : null;
+    if (!match) {
+      if (this.options.onUnhandledRequest === 'error') {
+        throw new Error(`[mock api] No handler for ${method} ${url.href}`);
+      }
+      return this.originalFetch!(input, init);
+    }
+
+    const { handler, params } = match;
+    if (handler.once) {
+      this.handlers = this.handlers.filter(entry => entry !== handler);
+    }
+
+    await wait(this.getLatency(), init.signal);
+
+    if (Math.random() < this.options.errorRate) {
+      return mockResponse.error(500, 'Injected server error', 'MOCK_ERROR');
+    }
+
+    return handler.resolver({
+      method,
+      url,
+      path,
+      params,
+      query: url.searchParams,
+      headers: new Headers(init.headers),
+      body: parseBody(init.body),
+    });
+  };
+
+  // Private methods
+  private findHandler(
+    method: MockMethod,
+    path: string
+  ): { handler: MockHandler; params: Record<string, string> } | null {
+    for (const handler of this.handlers) {
+      if (handler.method !== method) continue;
+      const params = matchPath(handler.path, path);
+      if (params) return { handler, params };
+    }
+    return null;
+  }
+
+  private getLatency(): number {
+    const { latency } = this.options;
+    if (typeof latency === 'number') return latency;
+    const [min, max] = latency;
+    return min + Math.random() * (max - min);
+  }
+}
+
+// Export types
+export type {
+  MockHandler,
+  MockMethod,
+  MockRequest,
+  MockResolver,
+  MockServerOptions,
+};
+export { MockServer };
@@ -0,0 +1,125 @@
+// XMLHttpRequest stand-in for the mock API. Requests that need upload
+// progress go through XHR rather than fetch (see xhrFetch), so MockServer
+// swaps this in next to its fetch patch. Each request is answered through
+// the given fetch, after reporting upload progress in a few steps.
+
+type MockFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+const PROGRESS_STEPS = 4;
+
+// Events fire asynchronously, like the real ones
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Close enough for progress reporting; multipart overhead is left out
+const getBodySize = (body: XMLHttpRequestBodyInit | null): number => {
+  if (body instanceof Blob) return body.size;
+  if (typeof body === 'string') return body.length;
+  if (body instanceof FormData) {
+    let size = 0;
+    body.forEach(value => {
+      size += typeof value === 'string' ? value.length : value.size;
+    });
+    return size;
+  }
+  return 0;
+};
+
+const progressEvent = (loaded: number, total: number) =>
+  ({ lengthComputable: total > 0, loaded, total }) as ProgressEvent;
+
+export function createMockXMLHttpRequest(
+  mockFetch: MockFetch
+): typeof XMLHttpRequest {
+  class MockXMLHttpRequest {
+    static readonly UNSENT = 0;
+    static readonly OPENED = 1;
+    static readonly HEADERS_RECEIVED = 2;
+    static readonly LOADING = 3;
+    static readonly DONE = 4;
+
+    readyState = MockXMLHttpRequest.UNSENT;
+    status = 0;
+    statusText = '';
+    response: Blob | string | null = null;
+    responseType: XMLHttpRequestResponseType = '';
+    withCredentials = false;
+    upload: { onprogress: ((event: ProgressEvent) => void) | null } = {
+      onprogress: null,
+    };
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onabort: (() => void) | null = null;
+
+    private method = 'GET';
+    private url = '';
+    private headers = new Headers();
+    private responseHeaders = new Headers();
+    private controller = new AbortController();
+
+    open(method: string, url: string | URL): void {
+      this.method = method;
+      this.url = String(url);
+      this.readyState = MockXMLHttpRequest.OPENED;
+    }
+
+    setRequestHeader(name: string, value: string): void {
+      this.headers.append(name, value);
+    }
+
+    getAllResponseHeaders(): string {
+      let raw = '';
+      this.responseHeaders.forEach((value, name) => {
+        raw += `${name}: ${value}\r\n`;
+      });
+      return raw;
+    }
+
+    abort(): void {
+      if (this.readyState === MockXMLHttpRequest.DONE) return;
+      this.readyState = MockXMLHttpRequest.DONE;
+      this.controller.abort();
+      this.onabort?.();
+    }
+
+    send(body: XMLHttpRequestBodyInit | null = null): void {
+      this.run(body).catch(() => {
+        if (this.controller.signal.aborted) return;
+        this.readyState = MockXMLHttpRequest.DONE;
+        this.onerror?.();
+      });
+    }
+
+    private async run(body: XMLHttpRequestBodyInit | null): Promise<void> {
+      const { signal } = this.controller;
+      const total = getBodySize(body);
+      for (let step = 1; step <= PROGRESS_STEPS; step++) {
+        await nextTick();
+        if (signal.aborted) return;
+        this.upload.onprogress?.(
+          progressEvent(Math.round((total * step) / PROGRESS_STEPS), total)
+        );
+      }
+
+      const response = await mockFetch(this.url, {
+        method: this.method,
+        headers: this.headers,
+        body,
+        signal,
+      });
+      const data =
+        this.responseType === 'blob'
+          ? await response.blob()
+          : await response.text();
+      if (signal.aborted) return;
+
+      this.status = response.status;
+      this.statusText = response.statusText;
+      this.responseHeaders = response.headers;
+      this.response = data;
+      this.readyState = MockXMLHttpRequest.DONE;
+      this.onload?.();
+    }
+  }
+
+  return MockXMLHttpRequest as unknown as typeof XMLHttpRequest;
+}
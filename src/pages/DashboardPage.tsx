@@ -0,0 +1,134 @@
+import {
+  Badge,
+  Group,
+  Paper,
+  SimpleGrid,
+  Skeleton,
+  Text,
+  Title,
+} from '@mantine/core';
+import { Helmet } from 'react-helmet-async';
+import { FileUploader } from '@/components/FileUploader';
+import { env } from '@/config/env';
+import { API_ENDPOINTS, REALTIME_TOPICS } from '@/constants';
+import { useGet } from '@/hooks/useApi';
+import { useNotify } from '@/hooks/useNotify';
+import { useSubscription } from '@/hooks/useSubscription';
+import { SystemStatus } from '@/types';
+import { formatNumber, formatRelativeTime, getActiveLocale } from '@/utils';
+
+// Larger files are sent as resumable chunks
+const UPLOAD_CHUNK_SIZE = 2 * 1024 * 1024;
+
+const STATUS_COLORS: Record<SystemStatus['status'], string> = {
+  operational: 'green',
+  degraded: 'yellow',
+  down: 'red',
+};
+
+interface StatCardProps {
+  label: string;
+  value: string | undefined;
+}
+
+function StatCard({ label, value }: StatCardProps) {
+  return (
+    <Paper withBorder p='md' radius='md'>
+      <Text size='xs' c='dimmed' tt='uppercase' fw={700}>
+        {label}
+      </Text>
+      {value === undefined ? (
+        <Skeleton height={28} mt='xs' />
+      ) : (
+        <Text size='xl' fw={700} mt='xs'>
+          {value}
+        </Text>
+      )}
+    </Paper>
+  );
+}
+
+export function DashboardPage() {
+  const notify = useNotify();
+  // Loaded once, then kept current by messages on the status topic
+  const { data: status } = useGet<SystemStatus>(API_ENDPOINTS.SYSTEM.STATUS, {
+    immediate: true,
+  });
+  const { status: connection } = useSubscription<SystemStatus>(
+    REALTIME_TOPICS.SYSTEM_STATUS,
+    { queryKey: API_ENDPOINTS.SYSTEM.STATUS }
+  );
+
+  return (
+    <>
+      <Helmet>
+        <title>Dashboard | {env.APP_NAME}</title>
+      </Helmet>
+
+      <div className='p-8'>
+        <h1 className='mb-4 text-2xl font-bold'>Dashboard</h1>
+        <p className='mb-8 text-gray-600'>
+          Administration tools for admins and moderators.
+        </p>
+
+        <Group justify='space-between' mb='md'>
+          <Group gap='sm'>
+            <Title order={3}>System status</Title>
+            {status && (
+              <Badge color={STATUS_COLORS[status.status]} variant='light'>
+                {status.status}
+              </Badge>
+            )}
+          </Group>
+          <Group gap='xs'>
+            <Badge
+              color={connection === 'open' ? 'green' : 'gray'}
+              variant='dot'
+            >
+              {connection === 'open' ? 'Live' : 'Not live'}
+            </Badge>
+            {status && (
+              <Text size='xs' c='dimmed'>
+                Updated {formatRelativeTime(status.updatedAt)}
+              </Text>
+            )}
+          </Group>
+        </Group>
+
+        <SimpleGrid cols={{ base: 1, sm: 3 }}>
+          <StatCard
+            label='Active users'
+            value={status ? formatNumber(status.activeUsers) : undefined}
+          />
+          <StatCard
+            label='Requests per minute'
+            value={status ? formatNumber(status.requestsPerMinute) : undefined}
+          />
+          <StatCard
+            label='Error rate'
+            value={
+              status
+                ? new Intl.NumberFormat(getActiveLocale(), {
+                    style: 'percent',
+                    maximumFractionDigits: 2,
+                  }).format(status.errorRate)
+                : undefined
+            }
+          />
+        </SimpleGrid>
+
+        <Title order={3} mt='xl' mb='md'>
+          Files
+        </Title>
+        <FileUploader
+          compressImages
+          chunkSize={UPLOAD_CHUNK_SIZE}
+          onFileUploaded={file =>
+            notify.success(`${file.name} was uploaded`, { persist: true })
+          }
+          testId='dashboard-uploader'
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,92 @@
+import {
+  Container,
+  Title,
+  Text,
+  Button,
+  Stack,
+  Group,
+  ThemeIcon,
+} from '@mantine/core';
+import { IconHome, IconArrowLeft, IconLock } from '@tabler/icons-react';
+import { Helmet } from 'react-helmet-async';
+import { useNavigate } from 'react-router-dom';
+import { env } from '@/config/env';
+import { ROUTES } from '@/constants';
+
+export function ForbiddenPage() {
+  const navigate = useNavigate();
+
+  const handleGoHome = () => {
+    navigate(ROUTES.HOME);
+  };
+
+  const handleGoBack = () => {
+    navigate(-1);
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>403 - Access Denied | {env.APP_NAME}</title>
+        <meta name='robots' content='noindex, nofollow' />
+      </Helmet>
+
+      <Container size='sm' py='xl'>
+        <div className='text-center'>
+          <ThemeIcon
+            size={120}
+            radius='xl'
+            variant='light'
+            color='orange'
+            className='mx-auto mb-6'
+          >
+            <IconLock size={60} />
+          </ThemeIcon>
+
+          <Title
+            order={1}
+            size='6rem'
+            fw={900}
+            c='orange'
+            className='mb-4'
+            style={{ lineHeight: 1 }}
+          >
+            403
+          </Title>
+
+          <Title order={2} size='2rem' mb='md'>
+            Access Denied
+          </Title>
+
+          <Text size='lg' c='dimmed' mb='xl' maw={500} mx='auto'>
+            You don't have permission to view this page. If you think you
+            should, ask an administrator to update your role.
+          </Text>
+
+          <Stack gap='md'>
+            <Group justify='center' gap='md'>
+              <Button
+                size='lg'
+                leftSection={<IconHome size={16} />}
+                onClick={handleGoHome}
+              >
+                Go to Homepage
+              </Button>
+
+              <Button
+                size='lg'
+                variant='light'
+                leftSection={
+                  <IconArrowLeft size={16} className='rtl:-scale-x-100' />
+                }
+                onClick={handleGoBack}
+              >
+                Go Back
+              </Button>
+            </Group>
+          </Stack>
+        </div>
+      </Container>
+    </>
+  );
+}
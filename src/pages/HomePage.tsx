@@ -22,6 +22,7 @@ import {
 } from '@tabler/icons-react';
 import { Helmet } from 'react-helmet-async';
 import { env } from '@/config/env';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface FeatureCardProps {
   icon: React.ReactNode;
@@ -58,69 +59,60 @@ function FeatureCard({ icon, title, description, badge }: FeatureCardProps) {
 }
 
 export function HomePage() {
+  const { t } = useTranslation();
+  const pageTitle = t('home.meta.title', { appName: env.APP_NAME });
+
   const features = [
     {
       icon: <IconBrandReact size={24} />,
       title: 'React 19',
-      description:
-        'Built with the latest React features including concurrent rendering and automatic batching.',
-      badge: 'Latest',
+      description: t('home.features.react'),
+      badge: t('home.features.reactBadge'),
     },
     {
       icon: <IconBrandTypescript size={24} />,
       title: 'TypeScript',
-      description:
-        'Full type safety with strict TypeScript configuration for better developer experience.',
-      badge: 'Type Safe',
+      description: t('home.features.typescript'),
+      badge: t('home.features.typescriptBadge'),
     },
     {
       icon: <IconPalette size={24} />,
       title: 'Mantine UI',
-      description:
-        'Beautiful and accessible components with built-in dark mode support.',
+      description: t('home.features.mantine'),
     },
     {
       icon: <IconCode size={24} />,
       title: 'TailwindCSS',
-      description:
-        'Utility-first CSS framework for rapid UI development with custom design system.',
+      description: t('home.features.tailwind'),
     },
     {
       icon: <IconRocket size={24} />,
-      title: 'Vite Build',
-      description:
-        'Lightning-fast development server and optimized production builds.',
-      badge: 'Fast',
+      title: t('home.features.viteTitle'),
+      description: t('home.features.vite'),
+      badge: t('home.features.viteBadge'),
     },
     {
       icon: <IconShield size={24} />,
-      title: 'Enterprise Ready',
-      description:
-        'Production-ready setup with ESLint, Prettier, Husky, and comprehensive error handling.',
-      badge: 'Production',
+      title: t('home.features.enterpriseTitle'),
+      description: t('home.features.enterprise'),
+      badge: t('home.features.enterpriseBadge'),
     },
   ];
 
   return (
     <>
       <Helmet>
-        <title>{env.APP_NAME} - Enterprise React Application</title>
+        <title>{pageTitle}</title>
         <meta name='description' content={env.APP_DESCRIPTION} />
         <meta
           name='keywords'
           content='React, TypeScript, Mantine, TailwindCSS, Vite, Enterprise'
         />
-        <meta
-          property='og:title'
-          content={`${env.APP_NAME} - Enterprise React Application`}
-        />
+        <meta property='og:title' content={pageTitle} />
         <meta property='og:description' content={env.APP_DESCRIPTION} />
         <meta property='og:type' content='website' />
         <meta name='twitter:card' content='summary_large_image' />
-        <meta
-          name='twitter:title'
-          content={`${env.APP_NAME} - Enterprise React Application`}
-        />
+        <meta name='twitter:title' content={pageTitle} />
         <meta name='twitter:description' content={env.APP_DESCRIPTION} />
       </Helmet>
 
@@ -135,7 +127,7 @@ export function HomePage() {
                 mb='xl'
                 className='animate-fade-in'
               >
-                v{env.APP_VERSION} • Enterprise Ready
+                {t('home.hero.badge', { version: env.APP_VERSION })}
               </Badge>
 
               <Title
@@ -157,8 +149,9 @@ export function HomePage() {
                 className='animate-slide-up'
                 style={{ animationDelay: '0.1s' }}
               >
-                {env.APP_DESCRIPTION}. Built with modern technologies and best
-                practices for scalable enterprise applications.
+                {t('home.hero.description', {
+                  description: env.APP_DESCRIPTION,
+                })}
               </Text>
 
               <Group
@@ -169,10 +162,12 @@ export function HomePage() {
               >
                 <Button
                   size='lg'
-                  rightSection={<IconArrowRight size={16} />}
+                  rightSection={
+                    <IconArrowRight size={16} className='rtl:-scale-x-100' />
+                  }
                   className='shadow-lg transition-shadow hover:shadow-xl'
                 >
-                  Get Started
+                  {t('home.hero.getStarted')}
                 </Button>
                 <Button
                   size='lg'
@@ -182,7 +177,7 @@ export function HomePage() {
                   target='_blank'
                   className='shadow-lg transition-shadow hover:shadow-xl'
                 >
-                  View on GitHub
+                  {t('home.hero.github')}
                 </Button>
               </Group>
             </div>
@@ -194,11 +189,10 @@ export function HomePage() {
           <Container size='lg'>
             <div className='mb-16 text-center'>
               <Title order={2} size='2.5rem' mb='md'>
-                Built for Modern Development
+                {t('home.features.title')}
               </Title>
               <Text size='lg' c='dimmed' maw={600} mx='auto'>
-                Everything you need to build scalable, maintainable, and
-                performant React applications.
+                {t('home.features.subtitle')}
               </Text>
             </div>
 
@@ -221,11 +215,10 @@ export function HomePage() {
           <Container size='lg'>
             <div className='mb-16 text-center'>
               <Title order={2} size='2rem' mb='md'>
-                Modern Tech Stack
+                {t('home.stack.title')}
               </Title>
               <Text size='lg' c='dimmed'>
-                Carefully selected technologies for optimal developer experience
-                and performance.
+                {t('home.stack.subtitle')}
               </Text>
             </div>
 
@@ -240,14 +233,14 @@ export function HomePage() {
                 >
                   <Stack gap='md'>
                     <Title order={3} size='h4'>
-                      Frontend Technologies
+                      {t('home.stack.frontend')}
                     </Title>
                     <Stack gap='xs'>
-                      <Text size='sm'>• React 19 with TypeScript</Text>
-                      <Text size='sm'>• Mantine UI Components</Text>
-                      <Text size='sm'>• TailwindCSS for Styling</Text>
-                      <Text size='sm'>• React Router for Navigation</Text>
-                      <Text size='sm'>• React Helmet for SEO</Text>
+                      <Text size='sm'>• {t('home.stack.react')}</Text>
+                      <Text size='sm'>• {t('home.stack.mantine')}</Text>
+                      <Text size='sm'>• {t('home.stack.tailwind')}</Text>
+                      <Text size='sm'>• {t('home.stack.router')}</Text>
+                      <Text size='sm'>• {t('home.stack.helmet')}</Text>
                     </Stack>
                   </Stack>
                 </Card>
@@ -263,14 +256,14 @@ export function HomePage() {
                 >
                   <Stack gap='md'>
                     <Title order={3} size='h4'>
-                      Development Tools
+                      {t('home.stack.tools')}
                     </Title>
                     <Stack gap='xs'>
-                      <Text size='sm'>• Vite for Fast Development</Text>
-                      <Text size='sm'>• ESLint + Prettier</Text>
-                      <Text size='sm'>• Husky Git Hooks</Text>
-                      <Text size='sm'>• TypeScript Strict Mode</Text>
-                      <Text size='sm'>• Path Mapping & Aliases</Text>
+                      <Text size='sm'>• {t('home.stack.vite')}</Text>
+                      <Text size='sm'>• {t('home.stack.lint')}</Text>
+                      <Text size='sm'>• {t('home.stack.husky')}</Text>
+                      <Text size='sm'>• {t('home.stack.strict')}</Text>
+                      <Text size='sm'>• {t('home.stack.aliases')}</Text>
                     </Stack>
                   </Stack>
                 </Card>
@@ -290,20 +283,21 @@ export function HomePage() {
             >
               <Stack gap='lg'>
                 <Title order={2} c='white'>
-                  Ready to Build Something Amazing?
+                  {t('home.cta.title')}
                 </Title>
                 <Text size='lg' c='white' opacity={0.9}>
-                  Start building your next enterprise application with this
-                  production-ready setup.
+                  {t('home.cta.description')}
                 </Text>
                 <Group justify='center'>
                   <Button
                     size='lg'
                     variant='white'
                     color='blue'
-                    rightSection={<IconArrowRight size={16} />}
+                    rightSection={
+                      <IconArrowRight size={16} className='rtl:-scale-x-100' />
+                    }
                   >
-                    Start Building
+                    {t('home.cta.button')}
                   </Button>
                 </Group>
               </Stack>
@@ -0,0 +1,125 @@
+import {
+  Alert,
+  Anchor,
+  Button,
+  Checkbox,
+  Container,
+  Paper,
+  PasswordInput,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core';
+import { IconAlertTriangle, IconLogin } from '@tabler/icons-react';
+import { Helmet } from 'react-helmet-async';
+import { Link, Location, useLocation, useNavigate } from 'react-router-dom';
+import { env } from '@/config/env';
+import { ROUTES } from '@/constants';
+import { useAuth } from '@/hooks/useAuth';
+import { useForm } from '@/hooks/useForm';
+import { LoginCredentials } from '@/types';
+import { email, required } from '@/utils/validators';
+
+const initialValues: LoginCredentials = {
+  email: '',
+  password: '',
+  rememberMe: false,
+};
+
+export function LoginPage() {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const form = useForm({
+    initialValues,
+    validate: {
+      email: [
+        required('Enter a valid email address'),
+        email('Enter a valid email address'),
+      ],
+      password: required('Password is required'),
+    },
+    onSubmit: async (credentials: LoginCredentials) => {
+      await login(credentials);
+      // Return to the page the route guard redirected from, if any
+      const from = (location.state as { from?: Location } | null)?.from;
+      navigate(from ? `${from.pathname}${from.search}` : ROUTES.HOME, {
+        replace: true,
+      });
+    },
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>Sign In | {env.APP_NAME}</title>
+        <meta name='robots' content='noindex, nofollow' />
+      </Helmet>
+
+      <div className='flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800'>
+        <Container size='xs' w='100%'>
+          <Paper shadow='md' p='xl' radius='md' withBorder>
+            <form onSubmit={form.handleSubmit} noValidate>
+              <Stack gap='md'>
+                <div className='text-center'>
+                  <Title order={1} size='h2' mb='xs'>
+                    Welcome back
+                  </Title>
+                  <Text c='dimmed' size='sm'>
+                    Sign in to continue to {env.APP_NAME}
+                  </Text>
+                </div>
+
+                {form.submitError && (
+                  <Alert
+                    variant='light'
+                    color='red'
+                    icon={<IconAlertTriangle size={16} />}
+                  >
+                    {form.submitError}
+                  </Alert>
+                )}
+
+                <TextInput
+                  label='Email'
+                  type='email'
+                  autoComplete='email'
+                  placeholder='you@example.com'
+                  {...form.getInputProps('email')}
+                />
+
+                <PasswordInput
+                  label='Password'
+                  autoComplete='current-password'
+                  {...form.getInputProps('password')}
+                />
+
+                <Checkbox
+                  label='Remember me'
+                  {...form.getInputProps('rememberMe', { type: 'checkbox' })}
+                />
+
+                <Button
+                  type='submit'
+                  fullWidth
+                  loading={form.isSubmitting}
+                  leftSection={<IconLogin size={16} />}
+                >
+                  Sign in
+                </Button>
+
+                <Text size='sm' ta='center'>
+                  Don't have an account?{' '}
+                  <Anchor component={Link} to={ROUTES.REGISTER}>
+                    Create one
+                  </Anchor>
+                </Text>
+              </Stack>
+            </form>
+          </Paper>
+        </Container>
+      </div>
+    </>
+  );
+}
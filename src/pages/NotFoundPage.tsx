@@ -16,9 +16,11 @@ import { Helmet } from 'react-helmet-async';
 import { useNavigate } from 'react-router-dom';
 import { env } from '@/config/env';
 import { ROUTES } from '@/constants';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export function NotFoundPage() {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   const handleGoHome = () => {
     navigate(ROUTES.HOME);
@@ -31,11 +33,10 @@ export function NotFoundPage() {
   return (
     <>
       <Helmet>
-        <title>404 - Page Not Found | {env.APP_NAME}</title>
-        <meta
-          name='description'
-          content="The page you're looking for doesn't exist."
-        />
+        <title>
+          {t('notFound.meta.title')} | {env.APP_NAME}
+        </title>
+        <meta name='description' content={t('notFound.meta.description')} />
         <meta name='robots' content='noindex, nofollow' />
       </Helmet>
 
@@ -71,7 +72,7 @@ export function NotFoundPage() {
                 className='animate-slide-up'
                 style={{ animationDelay: '0.1s' }}
               >
-                Page Not Found
+                {t('notFound.title')}
               </Title>
 
               <Text
@@ -83,8 +84,7 @@ export function NotFoundPage() {
                 className='animate-slide-up'
                 style={{ animationDelay: '0.2s' }}
               >
-                Oops! The page you're looking for doesn't exist. It might have
-                been moved, deleted, or you entered the wrong URL.
+                {t('notFound.description')}
               </Text>
             </div>
 
@@ -100,29 +100,30 @@ export function NotFoundPage() {
                   onClick={handleGoHome}
                   className='shadow-lg transition-shadow hover:shadow-xl'
                 >
-                  Go to Homepage
+                  {t('notFound.home')}
                 </Button>
 
                 <Button
                   size='lg'
                   variant='light'
-                  leftSection={<IconArrowLeft size={16} />}
+                  leftSection={
+                    <IconArrowLeft size={16} className='rtl:-scale-x-100' />
+                  }
                   onClick={handleGoBack}
                   className='shadow-lg transition-shadow hover:shadow-xl'
                 >
-                  Go Back
+                  {t('notFound.back')}
                 </Button>
               </Group>
 
               <Text size='sm' c='dimmed' mt='lg'>
-                If you believe this is an error, please contact our support
-                team.
+                {t('notFound.support')}
               </Text>
             </Stack>
 
             {/* Decorative elements */}
             <div className='mt-16 opacity-20'>
-              <div className='flex justify-center space-x-8'>
+              <div className='flex justify-center gap-8'>
                 <div className='h-2 w-2 animate-ping rounded-full bg-blue-500'></div>
                 <div
                   className='h-2 w-2 animate-ping rounded-full bg-purple-500'
@@ -0,0 +1,238 @@
+import { useEffect } from 'react';
+import {
+  Alert,
+  Button,
+  Group,
+  Paper,
+  PasswordInput,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core';
+import { IconAlertTriangle } from '@tabler/icons-react';
+import { Helmet } from 'react-helmet-async';
+import { AvatarUploader } from '@/components/AvatarUploader';
+import { env } from '@/config/env';
+import { VALIDATION } from '@/constants';
+import { useApi } from '@/hooks/useApi';
+import { useAuth } from '@/hooks/useAuth';
+import { useForm } from '@/hooks/useForm';
+import { useNotify } from '@/hooks/useNotify';
+import { authService } from '@/services/auth';
+import { ProfileUpdate, User } from '@/types';
+import { email, matchesField, password, required } from '@/utils/validators';
+
+const loadProfile = () => authService.getProfile();
+
+const toProfileValues = (user: User): ProfileUpdate => ({
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+});
+
+const emptyPasswordValues = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+function ProfileDetailsForm({
+  user,
+  onSaved,
+}: {
+  user: User;
+  onSaved: (user: User) => void;
+}) {
+  const notify = useNotify();
+  const form = useForm({
+    initialValues: toProfileValues(user),
+    validate: {
+      firstName: required('First name is required'),
+      lastName: required('Last name is required'),
+      email: [
+        required('Enter a valid email address'),
+        email('Enter a valid email address'),
+      ],
+    },
+    onSubmit: async (values: ProfileUpdate) => {
+      onSaved(await authService.updateProfile(values));
+      notify.success('Profile updated');
+    },
+  });
+
+  // Follow the saved details, e.g. once the fresh profile has loaded
+  const { reset } = form;
+  const { email: savedEmail, firstName, lastName } = user;
+  useEffect(() => {
+    reset({ email: savedEmail, firstName, lastName });
+  }, [reset, savedEmail, firstName, lastName]);
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate>
+      <Stack gap='md'>
+        {form.submitError && (
+          <Alert
+            variant='light'
+            color='red'
+            icon={<IconAlertTriangle size={16} />}
+          >
+            {form.submitError}
+          </Alert>
+        )}
+
+        <Group grow align='flex-start'>
+          <TextInput
+            label='First name'
+            autoComplete='given-name'
+            {...form.getInputProps('firstName')}
+          />
+          <TextInput
+            label='Last name'
+            autoComplete='family-name'
+            {...form.getInputProps('lastName')}
+          />
+        </Group>
+        <TextInput
+          label='Email'
+          type='email'
+          autoComplete='email'
+          {...form.getInputProps('email')}
+        />
+
+        <Group justify='flex-end'>
+          <Button
+            type='submit'
+            loading={form.isSubmitting}
+            disabled={!form.isDirty}
+          >
+            Save changes
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+}
+
+function ChangePasswordForm() {
+  const notify = useNotify();
+  const form = useForm({
+    initialValues: emptyPasswordValues,
+    validate: {
+      currentPassword: required('Enter your current password'),
+      newPassword: [required('Enter a new password'), password()],
+      confirmPassword: [
+        required('Confirm your new password'),
+        matchesField('newPassword', 'Passwords do not match'),
+      ],
+    },
+    onSubmit: async ({ currentPassword, newPassword }) => {
+      await authService.changePassword({ currentPassword, newPassword });
+      form.reset();
+      notify.success('Password changed');
+    },
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit} noValidate>
+      <Stack gap='md'>
+        {form.submitError && (
+          <Alert
+            variant='light'
+            color='red'
+            icon={<IconAlertTriangle size={16} />}
+          >
+            {form.submitError}
+          </Alert>
+        )}
+
+        <PasswordInput
+          label='Current password'
+          autoComplete='current-password'
+          {...form.getInputProps('currentPassword')}
+        />
+        <PasswordInput
+          label='New password'
+          autoComplete='new-password'
+          description={`At least ${VALIDATION.PASSWORD_MIN_LENGTH} characters`}
+          {...form.getInputProps('newPassword')}
+        />
+        <PasswordInput
+          label='Confirm new password'
+          autoComplete='new-password'
+          {...form.getInputProps('confirmPassword')}
+        />
+
+        <Group justify='flex-end'>
+          <Button type='submit' loading={form.isSubmitting}>
+            Change password
+          </Button>
+        </Group>
+      </Stack>
+    </form>
+  );
+}
+
+export function ProfilePage() {
+  const { user, updateUser } = useAuth();
+  const notify = useNotify();
+
+  // The session user may be stale, so load the profile fresh
+  useApi(loadProfile, {
+    immediate: true,
+    onSuccess: profile => updateUser(profile as User),
+  });
+
+  if (!user) return null;
+
+  const uploadAvatar = async (file: File) => {
+    updateUser(await authService.uploadAvatar(file));
+    notify.success('Profile photo updated');
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Profile | {env.APP_NAME}</title>
+      </Helmet>
+
+      <Stack p='xl' gap='lg' maw={720}>
+        <Title order={1} size='h2'>
+          Profile
+        </Title>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Photo
+            </Title>
+            <AvatarUploader user={user} onUpload={uploadAvatar} />
+          </Stack>
+        </Paper>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <div>
+              <Title order={2} size='h4'>
+                Account details
+              </Title>
+              <Text size='sm' c='dimmed'>
+                Your name and the email address you sign in with
+              </Text>
+            </div>
+            <ProfileDetailsForm user={user} onSaved={updateUser} />
+          </Stack>
+        </Paper>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Password
+            </Title>
+            <ChangePasswordForm />
+          </Stack>
+        </Paper>
+      </Stack>
+    </>
+  );
+}
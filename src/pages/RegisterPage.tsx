@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Anchor,
+  Button,
+  Checkbox,
+  Container,
+  Group,
+  Paper,
+  PasswordInput,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+} from '@mantine/core';
+import { IconAlertTriangle, IconUserPlus } from '@tabler/icons-react';
+import { Helmet } from 'react-helmet-async';
+import { Link, useNavigate } from 'react-router-dom';
+import { env } from '@/config/env';
+import { ROUTES, VALIDATION } from '@/constants';
+import { useAuth } from '@/hooks/useAuth';
+import { useForm } from '@/hooks/useForm';
+import { RegisterData } from '@/types';
+import { email, password, required } from '@/utils/validators';
+
+const initialValues: RegisterData = {
+  email: '',
+  password: '',
+  firstName: '',
+  lastName: '',
+};
+
+export function RegisterPage() {
+  const { register } = useAuth();
+  const navigate = useNavigate();
+  const [rememberMe, setRememberMe] = useState(false);
+  // The server reports a taken email as a field error on "email"
+  const form = useForm({
+    initialValues,
+    validate: {
+      firstName: required('First name is required'),
+      lastName: required('Last name is required'),
+      email: [
+        required('Enter a valid email address'),
+        email('Enter a valid email address'),
+      ],
+      password: [required('Password is required'), password()],
+    },
+    onSubmit: async (values: RegisterData) => {
+      await register(values, rememberMe);
+      navigate(ROUTES.HOME, { replace: true });
+    },
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>Create Account | {env.APP_NAME}</title>
+        <meta name='robots' content='noindex, nofollow' />
+      </Helmet>
+
+      <div className='flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800'>
+        <Container size='xs' w='100%'>
+          <Paper shadow='md' p='xl' radius='md' withBorder>
+            <form onSubmit={form.handleSubmit} noValidate>
+              <Stack gap='md'>
+                <div className='text-center'>
+                  <Title order={1} size='h2' mb='xs'>
+                    Create your account
+                  </Title>
+                  <Text c='dimmed' size='sm'>
+                    Get started with {env.APP_NAME}
+                  </Text>
+                </div>
+
+                {form.submitError && (
+                  <Alert
+                    variant='light'
+                    color='red'
+                    icon={<IconAlertTriangle size={16} />}
+                  >
+                    {form.submitError}
+                  </Alert>
+                )}
+
+                <Group grow align='flex-start'>
+                  <TextInput
+                    label='First name'
+                    autoComplete='given-name'
+                    {...form.getInputProps('firstName')}
+                  />
+                  <TextInput
+                    label='Last name'
+                    autoComplete='family-name'
+                    {...form.getInputProps('lastName')}
+                  />
+                </Group>
+
+                <TextInput
+                  label='Email'
+                  type='email'
+                  autoComplete='email'
+                  placeholder='you@example.com'
+                  {...form.getInputProps('email')}
+                />
+
+                <PasswordInput
+                  label='Password'
+                  autoComplete='new-password'
+                  description={`At least ${VALIDATION.PASSWORD_MIN_LENGTH} characters`}
+                  {...form.getInputProps('password')}
+                />
+
+                <Checkbox
+                  label='Remember me'
+                  checked={rememberMe}
+                  onChange={event => setRememberMe(event.currentTarget.checked)}
+                />
+
+                <Button
+                  type='submit'
+                  fullWidth
+                  loading={form.isSubmitting}
+                  leftSection={<IconUserPlus size={16} />}
+                >
+                  Create account
+                </Button>
+
+                <Text size='sm' ta='center'>
+                  Already have an account?{' '}
+                  <Anchor component={Link} to={ROUTES.LOGIN}>
+                    Sign in
+                  </Anchor>
+                </Text>
+              </Stack>
+            </form>
+          </Paper>
+        </Container>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,223 @@
+import {
+  Badge,
+  Button,
+  CheckIcon,
+  ColorSwatch,
+  Group,
+  Paper,
+  SegmentedControl,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  Title,
+} from '@mantine/core';
+import { Helmet } from 'react-helmet-async';
+import { env } from '@/config/env';
+import { FONT_FAMILY_OPTIONS, PRIMARY_COLOR_OPTIONS } from '@/config/theme';
+import {
+  APP_CONSTANTS,
+  SUPPORTED_LANGUAGES,
+  SUPPORTED_LOCALES,
+} from '@/constants';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTheme } from '@/hooks/useTheme';
+import { PreferencesSyncStatus } from '@/services/preferences';
+import { ThemeMode, UserPreferences } from '@/types';
+import { formatDate, formatNumber } from '@/utils';
+
+const THEME_OPTIONS: Array<{ value: ThemeMode; label: string }> = [
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'system', label: 'System' },
+];
+
+const NOTIFICATION_OPTIONS: Array<{
+  key: keyof UserPreferences['notifications'];
+  label: string;
+  description: string;
+}> = [
+  {
+    key: 'inApp',
+    label: 'In-app notifications',
+    description: 'Show notifications while you are using the app',
+  },
+  {
+    key: 'email',
+    label: 'Email',
+    description: 'Receive updates about your account by email',
+  },
+  {
+    key: 'push',
+    label: 'Push notifications',
+    description: 'Get notified on this device when the app is closed',
+  },
+];
+
+const SYNC_STATUS: Record<
+  PreferencesSyncStatus,
+  { label: string; color: string }
+> = {
+  local: { label: 'Saved on this device', color: 'gray' },
+  syncing: { label: 'Syncing…', color: 'blue' },
+  synced: { label: 'Synced to your account', color: 'green' },
+  error: { label: 'Sync failed', color: 'red' },
+};
+
+const PAGE_SIZE_OPTIONS = APP_CONSTANTS.PAGE_SIZE_OPTIONS.map(String);
+
+// Fixed sample values for the formatting preview
+const PREVIEW_DATE = new Date(2024, 2, 14, 15, 30);
+const PREVIEW_NUMBER = 1234567.89;
+
+export function SettingsPage() {
+  const { preferences, syncStatus, updatePreferences, resetPreferences } =
+    usePreferences();
+  const { config, setMode, setPrimaryColor, setFontFamily, resetTheme } =
+    useTheme();
+  const status = SYNC_STATUS[syncStatus];
+
+  return (
+    <>
+      <Helmet>
+        <title>Settings | {env.APP_NAME}</title>
+      </Helmet>
+
+      <Stack p='xl' gap='lg' maw={720}>
+        <Group justify='space-between'>
+          <Title order={1} size='h2'>
+            Settings
+          </Title>
+          <Badge variant='light' color={status.color}>
+            {status.label}
+          </Badge>
+        </Group>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Appearance
+            </Title>
+            <Stack gap={4}>
+              <Text size='sm' fw={500}>
+                Theme
+              </Text>
+              <SegmentedControl
+                data={THEME_OPTIONS}
+                value={config.mode}
+                onChange={mode => setMode(mode as ThemeMode)}
+              />
+            </Stack>
+            <Stack gap={4}>
+              <Text size='sm' fw={500}>
+                Accent color
+              </Text>
+              <Group gap='xs'>
+                {PRIMARY_COLOR_OPTIONS.map(({ value, label }) => (
+                  <ColorSwatch
+                    key={value}
+                    component='button'
+                    type='button'
+                    color={`var(--mantine-color-${value}-filled)`}
+                    aria-label={label}
+                    aria-pressed={config.primaryColor === value}
+                    onClick={() => setPrimaryColor(value)}
+                    c='white'
+                  >
+                    {config.primaryColor === value && <CheckIcon size={12} />}
+                  </ColorSwatch>
+                ))}
+              </Group>
+            </Stack>
+            <Select
+              label='Font'
+              data={FONT_FAMILY_OPTIONS}
+              value={config.fontFamily}
+              onChange={family => family && setFontFamily(family)}
+              allowDeselect={false}
+              w={240}
+            />
+          </Stack>
+        </Paper>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Language and region
+            </Title>
+            <Select
+              label='Language'
+              data={SUPPORTED_LANGUAGES}
+              value={preferences.language}
+              onChange={language => language && updatePreferences({ language })}
+              allowDeselect={false}
+            />
+            <Select
+              label='Date and number format'
+              data={SUPPORTED_LOCALES}
+              value={preferences.locale}
+              onChange={locale => locale && updatePreferences({ locale })}
+              allowDeselect={false}
+              description={`${formatDate(
+                PREVIEW_DATE,
+                { hour: 'numeric', minute: '2-digit' },
+                preferences.locale
+              )} · ${formatNumber(PREVIEW_NUMBER, preferences.locale)}`}
+            />
+          </Stack>
+        </Paper>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Notifications
+            </Title>
+            {NOTIFICATION_OPTIONS.map(({ key, label, description }) => (
+              <Switch
+                key={key}
+                label={label}
+                description={description}
+                checked={preferences.notifications[key]}
+                onChange={event =>
+                  updatePreferences({
+                    notifications: { [key]: event.currentTarget.checked },
+                  })
+                }
+              />
+            ))}
+          </Stack>
+        </Paper>
+
+        <Paper withBorder p='lg' radius='md'>
+          <Stack gap='md'>
+            <Title order={2} size='h4'>
+              Tables
+            </Title>
+            <Select
+              label='Default rows per page'
+              data={PAGE_SIZE_OPTIONS}
+              value={String(preferences.pageSize)}
+              onChange={size =>
+                size && updatePreferences({ pageSize: Number(size) })
+              }
+              allowDeselect={false}
+              w={180}
+            />
+          </Stack>
+        </Paper>
+
+        <Group justify='flex-end'>
+          <Button
+            variant='default'
+            onClick={() => {
+              resetPreferences();
+              resetTheme();
+            }}
+          >
+            Reset to defaults
+          </Button>
+        </Group>
+      </Stack>
+    </>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState } from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  Select,
+  Stack,
+  Switch,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { modals } from '@mantine/modals';
+import {
+  IconAlertTriangle,
+  IconPencil,
+  IconSearch,
+  IconTrash,
+  IconUserPlus,
+} from '@tabler/icons-react';
+import { Helmet } from 'react-helmet-async';
+import { DataTable } from '@/components/DataTable';
+import { UserFormDrawer } from '@/components/UserFormDrawer';
+import { env } from '@/config/env';
+import { API_ENDPOINTS } from '@/constants';
+import { cacheUpdate, useMutation, usePaginatedApi } from '@/hooks/useApi';
+import { useAuth } from '@/hooks/useAuth';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useNotify } from '@/hooks/useNotify';
+import { callEndpoint, endpoints } from '@/services/endpoints';
+import { queryCache } from '@/services/queryCache';
+import { PaginatedResponse, TableColumn, User, UserRole } from '@/types';
+import { capitalize, formatDate } from '@/utils';
+import { canManageUser, getAssignableRoles } from '@/utils/permissions';
+
+const ROLE_COLORS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: 'red',
+  [UserRole.MODERATOR]: 'violet',
+  [UserRole.USER]: 'gray',
+};
+
+const STATUS_OPTIONS = [
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+];
+
+// Drawer state: closed, creating (null) or editing a user
+type Editing = { user: User | null } | null;
+
+export function UsersPage() {
+  const { user: currentUser } = useAuth();
+  const { preferences } = usePreferences();
+  const notify = useNotify();
+  const [editing, setEditing] = useState<Editing>(null);
+  const assignableRoles = getAssignableRoles(currentUser);
+
+  const {
+    data: users,
+    pagination,
+    isLoading,
+    error,
+    currentPage,
+    pageSize,
+    filters,
+    loadPage,
+    setFilters,
+    setPageSize,
+    queryKey: usersKey,
+  } = usePaginatedApi<User>(API_ENDPOINTS.USERS.LIST, {
+    pageSize: preferences.pageSize,
+    syncWithUrl: true,
+  });
+
+  // Mutations patch the cached page instead of reloading the list
+  const updateCachedPage = (update: (users: User[]) => User[]) =>
+    cacheUpdate<PaginatedResponse<User>>(
+      usersKey,
+      page => page && { ...page, data: update(page.data) }
+    );
+  const replaceUser = (updated: User) =>
+    updateCachedPage(current =>
+      current.map(user => (user.id === updated.id ? updated : user))
+    );
+
+  const setActive = useMutation(
+    (user: User) =>
+      callEndpoint(endpoints.users.update, {
+        params: user.id,
+        body: { isActive: !user.isActive },
+      }),
+    {
+      optimistic: user => [replaceUser({ ...user, isActive: !user.isActive })],
+      updates: updated => [replaceUser(updated)],
+      onSuccess: updated => {
+        notify.success(
+          `${updated.firstName} ${updated.lastName} is now ${
+            updated.isActive ? 'active' : 'inactive'
+          }`
+        );
+      },
+      onError: apiError => notify.apiError(apiError),
+    }
+  );
+
+  const deleteUser = useMutation(
+    (user: User) => callEndpoint(endpoints.users.delete, { params: user.id }),
+    {
+      optimistic: deleted => [
+        updateCachedPage(current =>
+          current.filter(user => user.id !== deleted.id)
+        ),
+      ],
+      // Refetch in the background so the page and total fill back up
+      invalidates: [API_ENDPOINTS.USERS.LIST],
+      onSuccess: (_, user) => {
+        notify.success(`${user.firstName} ${user.lastName} was deleted`, {
+          persist: true,
+        });
+      },
+      onError: apiError => notify.apiError(apiError),
+    }
+  );
+
+  const confirmDelete = (user: User) =>
+    modals.openConfirmModal({
+      title: 'Delete user',
+      children: (
+        <Text size='sm'>
+          Delete {user.firstName} {user.lastName} ({user.email})? This cannot be
+          undone.
+        </Text>
+      ),
+      labels: { confirm: 'Delete', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: () => deleteUser.mutate(user),
+    });
+
+  const handleSaved = (saved: User) => {
+    notify.success(`${saved.firstName} ${saved.lastName} was saved`);
+    if (editing?.user) {
+      const { queryKey, updater } = replaceUser(saved);
+      queryCache.setQueryData(queryKey, updater);
+    } else {
+      // Where a new user lands depends on the sort order, so ask the server
+      queryCache.invalidate(API_ENDPOINTS.USERS.LIST);
+    }
+    setEditing(null);
+  };
+
+  const columns: TableColumn<User>[] = [
+    {
+      key: 'firstName',
+      title: 'Name',
+      sortable: true,
+      render: (_, user) => `${user.firstName} ${user.lastName}`,
+    },
+    { key: 'email', title: 'Email', sortable: true },
+    {
+      key: 'role',
+      title: 'Role',
+      sortable: true,
+      render: role => (
+        <Badge variant='light' color={ROLE_COLORS[role as UserRole]}>
+          {capitalize(String(role))}
+        </Badge>
+      ),
+    },
+    {
+      key: 'isActive',
+      title: 'Active',
+      render: (_, user) => (
+        <Switch
+          aria-label={`${user.isActive ? 'Deactivate' : 'Activate'} ${user.email}`}
+          checked={user.isActive}
+          disabled={!canManageUser(currentUser, user)}
+          onChange={() => setActive.mutate(user)}
+        />
+      ),
+    },
+    {
+      key: 'createdAt',
+      title: 'Created',
+      sortable: true,
+      render: value =>
+        formatDate(String(value), { month: 'short' }, preferences.locale),
+    },
+    {
+      key: 'actions',
+      title: '',
+      width: 96,
+      render: (_, user) =>
+        canManageUser(currentUser, user) && (
+          <Group gap={4} justify='flex-end' wrap='nowrap'>
+            <Tooltip label='Edit'>
+              <ActionIcon
+                variant='subtle'
+                aria-label={`Edit ${user.email}`}
+                onClick={() => setEditing({ user })}
+              >
+                <IconPencil size={16} />
+              </ActionIcon>
+            </Tooltip>
+            <Tooltip label='Delete'>
+              <ActionIcon
+                variant='subtle'
+                color='red'
+                aria-label={`Delete ${user.email}`}
+                onClick={() => confirmDelete(user)}
+              >
+                <IconTrash size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </Group>
+        ),
+    },
+  ];
+
+  return (
+    <>
+      <Helmet>
+        <title>Users | {env.APP_NAME}</title>
+      </Helmet>
+
+      <Stack p='xl' gap='lg'>
+        <Group justify='space-between'>
+          <Title order={1} size='h2'>
+            Users
+          </Title>
+          {assignableRoles.length > 0 && (
+            <Button
+              leftSection={<IconUserPlus size={16} />}
+              onClick={() => setEditing({ user: null })}
+            >
+              Add user
+            </Button>
+          )}
+        </Group>
+
+        <Group>
+          <TextInput
+            placeholder='Search by name or email'
+            leftSection={<IconSearch size={16} />}
+            value={filters.query ?? ''}
+            onChange={event => setFilters({ query: event.currentTarget.value })}
+            className='flex-1'
+          />
+          <Select
+            placeholder='All statuses'
+            data={STATUS_OPTIONS}
+            value={filters.status ?? null}
+            onChange={status => setFilters({ status: status ?? undefined })}
+            clearable
+            w={180}
+          />
+        </Group>
+
+        {error && (
+          <Alert
+            variant='light'
+            color='red'
+            icon={<IconAlertTriangle size={16} />}
+          >
+            {error}
+          </Alert>
+        )}
+
+        <DataTable
+          data={users}
+          columns={columns}
+          loading={isLoading}
+          mode='server'
+          defaultSort={
+            filters.sortBy
+              ? {
+                  key: filters.sortBy,
+                  direction: filters.sortOrder ?? 'asc',
+                }
+              : undefined
+          }
+          onSort={(sortBy, sortOrder) => setFilters({ sortBy, sortOrder })}
+          pagination={{
+            current: currentPage,
+            pageSize,
+            total: pagination?.total ?? 0,
+            onChange: (page, size) =>
+              size === pageSize ? loadPage(page) : setPageSize(size),
+          }}
+          emptyMessage='No users match these filters'
+          testId='users-table'
+        />
+      </Stack>
+
+      <UserFormDrawer
+        opened={editing !== null}
+        user={editing?.user ?? null}
+        assignableRoles={assignableRoles}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+      />
+    </>
+  );
+}
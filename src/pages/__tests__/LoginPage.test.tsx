@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AuthProvider } from '@/components/AuthProvider';
+import { LoginPage } from '@/pages/LoginPage';
+import { tokenStorage } from '@/services/tokenStorage';
+import { setupMockApi } from '@/test/mockApi';
+import { renderWithProviders, screen, userEvent } from '@/test/utils';
+
+setupMockApi();
+
+describe('LoginPage', () => {
+  it('should show an error for wrong credentials without leaving the page', async () => {
+    const clearTokens = vi.spyOn(tokenStorage, 'clear');
+    const user = userEvent.setup();
+    renderWithProviders(
+      <AuthProvider>
+        <LoginPage />
+      </AuthProvider>,
+      { withModals: false, withNotifications: false }
+    );
+
+    await user.type(screen.getByLabelText(/email/i), 'test@example.com');
+    await user.type(screen.getByLabelText(/password/i), 'wrong-password');
+    await user.click(screen.getByRole('button', { name: /sign in/i }));
+
+    expect(
+      await screen.findByText('Invalid email or password')
+    ).toBeInTheDocument();
+    expect(window.location.pathname).toBe('/');
+    expect(clearTokens).not.toHaveBeenCalled();
+  });
+});
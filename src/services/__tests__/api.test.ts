@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  apiClient,
+  ApiClientError,
+  ApiService,
+  isAbortError,
+} from '@/services/api';
+import { API_ENDPOINTS, STORAGE_KEYS } from '@/constants';
+import { mockApiResponse, mockFetchResponse } from '@/test/utils';
+import { schema } from '@/utils/schema';
+
+const fetchMock = vi.mocked(fetch);
+
+// Simple in-memory token store behind the mocked localStorage
+let store: Record<string, string> = {};
+
+const authHeaderOf = (callIndex: number) =>
+  (fetchMock.mock.calls[callIndex][1]?.headers as Record<string, string>)
+    .Authorization;
+
+describe('ApiService token refresh', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    store = {
+      [STORAGE_KEYS.AUTH_TOKEN]: 'expired-token',
+      [STORAGE_KEYS.REFRESH_TOKEN]: 'refresh-token',
+    };
+    vi.mocked(localStorage.getItem).mockImplementation(
+      key => store[key] ?? null
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation(key => {
+      delete store[key];
+    });
+    window.location.href = 'http://localhost:3000';
+  });
+
+  it('should refresh the token on 401 and replay the request', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        mockFetchResponse({}, false, 401) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockFetchResponse(
+          mockApiResponse({
+            accessToken: 'new-token',
+            refreshToken: 'new-refresh-token',
+            expiresIn: 3600,
+          })
+        ) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockFetchResponse(mockApiResponse({ id: 1 })) as unknown as Response
+      );
+
+    const result = await apiClient.get<{ id: number }>('/items/1');
+
+    expect(result).toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[1][0]).toContain(API_ENDPOINTS.AUTH.REFRESH);
+    expect(authHeaderOf(2)).toBe('Bearer new-token');
+    expect(store[STORAGE_KEYS.REFRESH_TOKEN]).toBe('new-refresh-token');
+  });
+
+  it('should share a single refresh between concurrent requests', async () => {
+    fetchMock.mockImplementation(async (input, init) => {
+      const url = String(input);
+      const headers = init?.headers as Record<string, string>;
+      if (url.endsWith(API_ENDPOINTS.AUTH.REFRESH)) {
+        return mockFetchResponse(
+          mockApiResponse({
+            accessToken: 'new-token',
+            refreshToken: 'new-refresh-token',
+            expiresIn: 3600,
+          })
+        ) as unknown as Response;
+      }
+      if (headers.Authorization !== 'Bearer new-token') {
+        return mockFetchResponse({}, false, 401) as unknown as Response;
+      }
+      return mockFetchResponse(mockApiResponse(url)) as unknown as Response;
+    });
+
+    const results = await Promise.all([
+      apiClient.get('/a'),
+      apiClient.get('/b'),
+      apiClient.get('/c'),
+    ]);
+
+    const refreshCalls = fetchMock.mock.calls.filter(([input]) =>
+      String(input).endsWith(API_ENDPOINTS.AUTH.REFRESH)
+    );
+    expect(refreshCalls).toHaveLength(1);
+    expect(results).toHaveLength(3);
+  });
+
+  it('should log out when the refresh itself fails', async () => {
+    const onSessionExpired = vi.fn();
+    apiClient.setSessionExpiredHandler(onSessionExpired);
+    fetchMock
+      .mockResolvedValueOnce(
+        mockFetchResponse({}, false, 401) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockFetchResponse({}, false, 401) as unknown as Response
+      );
+
+    await expect(apiClient.get('/items/1')).rejects.toBeInstanceOf(
+      ApiClientError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(store[STORAGE_KEYS.AUTH_TOKEN]).toBeUndefined();
+    expect(store[STORAGE_KEYS.REFRESH_TOKEN]).toBeUndefined();
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    apiClient.setSessionExpiredHandler(null);
+  });
+});
+
+describe('ApiService retries', () => {
+  const client = new ApiService({
+    retry: {
+      maxAttempts: 3,
+      baseDelay: 1,
+      maxDelay: 50,
+      retryableStatuses: [503],
+      retryableMethods: ['GET'],
+    },
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should retry retryable statuses until a request succeeds', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        mockFetchResponse({}, false, 503) as unknown as Response
+      )
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(
+        mockFetchResponse({ ok: true }) as unknown as Response
+      );
+
+    await expect(client.get('/flaky')).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse({}, false, 503) as unknown as Response
+    );
+
+    await expect(client.get('/down')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-idempotent methods by default', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse({}, false, 503) as unknown as Response
+    );
+
+    await expect(client.post('/orders', { id: 1 })).rejects.toBeInstanceOf(
+      ApiClientError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After and per-request overrides', async () => {
+    const throttled = mockFetchResponse({}, false, 503);
+    throttled.headers = new Headers({ 'Retry-After': '60' });
+    fetchMock.mockResolvedValue(throttled as unknown as Response);
+
+    // Retry-After exceeds maxDelay, so the client stops waiting
+    await expect(client.get('/busy')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    fetchMock.mockResolvedValue(
+      mockFetchResponse({}, false, 503) as unknown as Response
+    );
+    await expect(client.get('/busy', { retry: false })).rejects.toBeInstanceOf(
+      ApiClientError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ApiService cancellation', () => {
+  const client = new ApiService({ timeout: 20 });
+
+  // fetch that never settles on its own, only when its signal aborts
+  const hangingFetch = (_input: unknown, init?: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () =>
+        reject(new DOMException('Aborted', 'AbortError'))
+      );
+    });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(hangingFetch);
+  });
+
+  it('should report caller aborts as ABORTED without retrying', async () => {
+    const controller = new AbortController();
+    const request = client.get('/search?q=a', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(isAbortError(await request.catch(error => error))).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report timeouts as TIMEOUT', async () => {
+    await expect(
+      client.get('/slow', { retry: false, timeout: 10 })
+    ).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+});
+
+describe('ApiService body handling', () => {
+  const client = new ApiService();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should send FormData as-is without a JSON Content-Type', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse({ uploaded: true }) as unknown as Response
+    );
+    const formData = new FormData();
+    formData.append('file', new Blob(['hello']), 'hello.txt');
+
+    await client.post('/files', formData);
+
+    const init = fetchMock.mock.calls[0][1]!;
+    expect(init.body).toBe(formData);
+    expect(init.headers).not.toHaveProperty('Content-Type');
+  });
+
+  it('should resolve empty 204 responses to undefined', async () => {
+    const noContent = mockFetchResponse(null, true, 204);
+    noContent.text = vi.fn().mockResolvedValue('');
+    fetchMock.mockResolvedValue(noContent as unknown as Response);
+
+    await expect(client.delete('/files/1')).resolves.toBeUndefined();
+  });
+
+  it('should read the body according to responseType', async () => {
+    const csv = mockFetchResponse(null);
+    csv.text = vi.fn().mockResolvedValue('id,name\n1,John');
+    fetchMock.mockResolvedValue(csv as unknown as Response);
+
+    await expect(
+      client.get<string>('/export.csv', { responseType: 'text' })
+    ).resolves.toBe('id,name\n1,John');
+    expect(fetchMock.mock.calls[0][1]).not.toHaveProperty('responseType');
+  });
+
+  it('should reject payloads that do not match the response schema', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse({ id: 1, email: null }) as unknown as Response
+    );
+    const userSchema = schema.object({
+      id: schema.string(),
+      email: schema.string(),
+    });
+
+    await expect(
+      client.get('/users/1', { schema: userSchema })
+    ).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      status: 200,
+      details: {
+        issues: [
+          { path: 'id', message: 'Expected string, received number' },
+          { path: 'email', message: 'Expected string, received null' },
+        ],
+      },
+    });
+  });
+});
+
+describe('ApiService chunked uploads', () => {
+  const client = new ApiService();
+  const file = new File(['0123456789'], 'video.mp4', { lastModified: 1 });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    store = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      key => store[key] ?? null
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store[key] = value;
+    });
+  });
+
+  it('should resume a known session from the server offset', async () => {
+    store[STORAGE_KEYS.UPLOAD_SESSIONS] = JSON.stringify({
+      [`/uploads|video.mp4|10|1`]: 'up-1',
+    });
+    fetchMock
+      .mockResolvedValueOnce(
+        mockFetchResponse({
+          uploadId: 'up-1',
+          offset: 6,
+        }) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockFetchResponse({
+          uploadId: 'up-1',
+          offset: 10,
+        }) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockFetchResponse({ id: 'file-1' }) as unknown as Response
+      );
+
+    await expect(
+      client.upload('/uploads', file, { chunkSize: 4 })
+    ).resolves.toEqual({ id: 'file-1' });
+
+    const [resume, chunk, complete] = fetchMock.mock.calls;
+    expect(resume[0]).toContain('/uploads/up-1');
+    expect(chunk[1]?.method).toBe('PUT');
+    expect((chunk[1]?.headers as Record<string, string>)['Content-Range']).toBe(
+      'bytes 6-9/10'
+    );
+    expect(complete[0]).toContain('/uploads/up-1/complete');
+    expect(JSON.parse(store[STORAGE_KEYS.UPLOAD_SESSIONS])).toEqual({});
+  });
+
+  it('should fail when the server stops accepting chunks', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        mockFetchResponse({
+          uploadId: 'up-2',
+          offset: 0,
+        }) as unknown as Response
+      )
+      .mockResolvedValue(
+        mockFetchResponse({
+          uploadId: 'up-2',
+          offset: 0,
+        }) as unknown as Response
+      );
+
+    await expect(
+      client.upload('/uploads', file, { chunkSize: 4 })
+    ).rejects.toMatchObject({ code: 'UPLOAD_STALLED' });
+
+    // The session, the first chunk and no resends
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(store[STORAGE_KEYS.UPLOAD_SESSIONS])).toEqual({});
+  });
+});
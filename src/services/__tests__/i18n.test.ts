@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { I18n } from '@/services/i18n';
+import { formatDate, formatNumber, setActiveLocale } from '@/utils';
+
+describe('I18n', () => {
+  afterEach(() => {
+    setActiveLocale('en-US');
+  });
+
+  it('should translate with the bundled English catalog', () => {
+    const i18n = new I18n();
+
+    expect(i18n.t('nav.settings')).toBe('Settings');
+    expect(i18n.t('home.hero.badge', { version: '1.0.0' })).toBe(
+      'v1.0.0 • Enterprise Ready'
+    );
+  });
+
+  it('should load other catalogs on demand', async () => {
+    const i18n = new I18n();
+    const loading = i18n.setLanguage('es');
+
+    expect(i18n.getState().isLoading).toBe(true);
+    await loading;
+
+    expect(i18n.getState()).toMatchObject({ language: 'es', isLoading: false });
+    expect(i18n.t('nav.settings')).toBe('Configuración');
+  });
+
+  it('should keep the latest language when catalogs load out of order', async () => {
+    const i18n = new I18n();
+
+    const slow = i18n.setLanguage('fr');
+    await i18n.setLanguage('en');
+    await slow;
+
+    expect(i18n.getState().language).toBe('en');
+    expect(i18n.t('nav.settings')).toBe('Settings');
+  });
+
+  it('should switch to right-to-left once an RTL catalog loads', async () => {
+    const i18n = new I18n();
+    const loading = i18n.setLanguage('he');
+
+    expect(i18n.getState().direction).toBe('ltr');
+    await loading;
+
+    expect(i18n.getState()).toMatchObject({ language: 'he', direction: 'rtl' });
+    expect(i18n.t('nav.settings')).toBe('הגדרות');
+    // Messages missing from the catalog fall back to English
+    expect(i18n.t('home.stack.lint')).toBe('ESLint + Prettier');
+  });
+
+  it('should fall back to English for unsupported languages', async () => {
+    const i18n = new I18n();
+    await i18n.setLanguage('xx');
+
+    expect(i18n.getState().language).toBe('en');
+  });
+
+  it('should make the formatters use the selected locale', () => {
+    const i18n = new I18n();
+    i18n.setLocale('de-DE');
+
+    expect(formatNumber(1234.5)).toBe('1.234,5');
+    expect(formatDate(new Date(2023, 11, 25))).toBe('25. Dezember 2023');
+    expect(i18n.t('error.componentStack', { stack: 'App' })).toBe(
+      'Component Stack: App'
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { STORAGE_KEYS } from '@/constants';
+import {
+  NotificationCenter,
+  NotificationTransport,
+} from '@/services/notificationCenter';
+import { notify } from '@/services/notify';
+import { preferencesStore } from '@/services/preferences';
+import { ServerNotification } from '@/types';
+
+vi.mock('@/services/notify', () => ({
+  notify: { show: vi.fn(), recordWith: vi.fn() },
+}));
+
+// Simple in-memory store behind the mocked localStorage
+let store: Record<string, string> = {};
+
+const serverNotification = (
+  id: string,
+  createdAt = '2024-01-01T00:00:00Z'
+): ServerNotification => ({
+  id,
+  type: 'info',
+  title: `Notification ${id}`,
+  createdAt,
+});
+
+const createTransport = (backlog: ServerNotification[] = []) => {
+  const transport: NotificationTransport = {
+    fetch: vi.fn(async () => backlog),
+  };
+  return transport;
+};
+
+describe('NotificationCenter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      key => store[key] ?? null
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      store[key] = value;
+    });
+    preferencesStore.update({ notifications: { inApp: true } });
+  });
+
+  it('should record local notifications as unread and persist them', () => {
+    const center = new NotificationCenter(createTransport());
+
+    center.add({ type: 'success', title: 'Export ready' });
+    const latest = center.add({ type: 'error', title: 'Import failed' });
+
+    const { notifications, unreadCount } = center.getState();
+    expect(notifications.map(({ title }) => title)).toEqual([
+      'Import failed',
+      'Export ready',
+    ]);
+    expect(latest).toMatchObject({ read: false, source: 'local' });
+    expect(unreadCount).toBe(2);
+    expect(new NotificationCenter().getState().notifications).toHaveLength(2);
+  });
+
+  it('should toast server pushes once and ignore repeats', () => {
+    const center = new NotificationCenter(createTransport());
+
+    center.receive(serverNotification('a'));
+    center.receive([serverNotification('a'), serverNotification('b')]);
+
+    expect(center.getState().notifications).toHaveLength(2);
+    expect(notify.show).toHaveBeenCalledTimes(2);
+    expect(notify.show).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'notification:a', title: 'Notification a' })
+    );
+  });
+
+  it('should not toast pushes when in-app notifications are off', () => {
+    preferencesStore.update({ notifications: { inApp: false } });
+    const center = new NotificationCenter(createTransport());
+
+    center.receive(serverNotification('a'));
+
+    expect(center.getState().unreadCount).toBe(1);
+    expect(notify.show).not.toHaveBeenCalled();
+  });
+
+  it('should keep read state when the server sends a notification again', () => {
+    const center = new NotificationCenter(createTransport());
+    center.receive([serverNotification('a'), serverNotification('b')]);
+
+    center.markRead('a');
+    expect(center.getState().unreadCount).toBe(1);
+
+    center.receive(serverNotification('a'));
+    expect(center.getState().unreadCount).toBe(1);
+
+    center.markAllRead();
+    expect(center.getState().unreadCount).toBe(0);
+  });
+
+  it('should load the user history and backlog on sign-in', async () => {
+    const transport = createTransport([
+      serverNotification('new', '2024-02-01T00:00:00Z'),
+    ]);
+    const center = new NotificationCenter(transport);
+    center.add({ type: 'info', title: 'Signed out' });
+    store[`${STORAGE_KEYS.NOTIFICATIONS}:1`] = JSON.stringify([
+      { ...serverNotification('old'), read: true, source: 'server' },
+    ]);
+
+    await center.startSync('1');
+
+    expect(center.getState().notifications.map(({ id }) => id)).toEqual([
+      'new',
+      'old',
+    ]);
+    expect(center.getState().unreadCount).toBe(1);
+    // Backlog items aren't toasted, they are waiting in the drawer
+    expect(notify.show).not.toHaveBeenCalled();
+
+    center.stopSync();
+    expect(center.getState().notifications).toEqual([
+      expect.objectContaining({ title: 'Signed out' }),
+    ]);
+  });
+
+  it('should drop the oldest notifications beyond the history limit', () => {
+    const center = new NotificationCenter(createTransport());
+
+    for (let index = 0; index < 105; index++) {
+      center.add({ id: String(index), type: 'info', title: `#${index}` });
+    }
+
+    const { notifications } = center.getState();
+    expect(notifications).toHaveLength(100);
+    expect(notifications[0].id).toBe('104');
+  });
+});
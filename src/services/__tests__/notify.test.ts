@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { notifications } from '@mantine/notifications';
+import { ApiClientError, ApiService } from '@/services/api';
+import { NotifyService } from '@/services/notify';
+import { mockFetchResponse } from '@/test/utils';
+
+vi.mock('@mantine/notifications', () => ({
+  notifications: {
+    show: vi.fn(),
+    update: vi.fn(),
+    hide: vi.fn(),
+    clean: vi.fn(),
+  },
+}));
+
+const fetchMock = vi.mocked(fetch);
+const showMock = vi.mocked(notifications.show);
+const updateMock = vi.mocked(notifications.update);
+
+describe('NotifyService', () => {
+  let notify: NotifyService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    notify = new NotifyService();
+  });
+
+  it('should style toasts by type and default the duration', () => {
+    const id = notify.success('Saved', { message: 'All good' });
+
+    expect(showMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id,
+        title: 'Saved',
+        message: 'All good',
+        color: 'green',
+        autoClose: 5000,
+      })
+    );
+    expect(notify.isActive(id)).toBe(true);
+  });
+
+  it('should keep toasts with a duration of 0 open', () => {
+    notify.warning('Heads up', { duration: 0 });
+
+    expect(showMock).toHaveBeenCalledWith(
+      expect.objectContaining({ color: 'yellow', autoClose: false })
+    );
+  });
+
+  it('should update a visible toast instead of duplicating it', () => {
+    notify.info('Syncing', { id: 'sync' });
+    notify.info('Still syncing', { id: 'sync' });
+
+    expect(showMock).toHaveBeenCalledTimes(1);
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'sync', title: 'Still syncing' })
+    );
+  });
+
+  it('should record persisted toasts and API errors', () => {
+    const recorder = vi.fn();
+    notify.recordWith(recorder);
+
+    notify.success('Saved');
+    const id = notify.success('Export ready', { persist: true });
+    notify.apiError(new ApiClientError('Boom', 500, 'SERVER_ERROR'));
+
+    expect(recorder).toHaveBeenCalledTimes(2);
+    expect(recorder).toHaveBeenCalledWith(
+      expect.objectContaining({ id, type: 'success', title: 'Export ready' })
+    );
+    expect(recorder).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'api-error:SERVER_ERROR:500' })
+    );
+  });
+
+  it('should show the toast again once it has closed', () => {
+    notify.info('Syncing', { id: 'sync' });
+    showMock.mock.calls[0][0].onClose?.(showMock.mock.calls[0][0]);
+    notify.info('Syncing', { id: 'sync' });
+
+    expect(showMock).toHaveBeenCalledTimes(2);
+    expect(updateMock).not.toHaveBeenCalled();
+  });
+
+  it('should turn a loading toast into a success toast', async () => {
+    const result = await notify.promise(Promise.resolve(3), {
+      loading: 'Importing',
+      success: count => `Imported ${count} users`,
+    });
+
+    expect(result).toBe(3);
+    const loading = showMock.mock.calls[0][0];
+    expect(loading).toMatchObject({ title: 'Importing', loading: true });
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: loading.id,
+        title: 'Imported 3 users',
+        color: 'green',
+        loading: false,
+      })
+    );
+  });
+
+  it('should turn a loading toast into an error toast and rethrow', async () => {
+    const failure = new Error('Disk full');
+
+    await expect(
+      notify.promise(Promise.reject(failure), {
+        loading: 'Importing',
+        success: 'Imported',
+      })
+    ).rejects.toBe(failure);
+
+    expect(updateMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Something went wrong',
+        message: 'Disk full',
+        color: 'red',
+      })
+    );
+  });
+
+  it('should share one toast between repeats of the same API error', () => {
+    const error = new ApiClientError('Server unavailable', 503, 'HTTP_ERROR');
+
+    notify.apiError(error);
+    notify.apiError(error);
+
+    expect(showMock).toHaveBeenCalledTimes(1);
+    expect(showMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'api-error:HTTP_ERROR:503',
+        title: 'Server error',
+        message: 'Server unavailable',
+      })
+    );
+    expect(updateMock).toHaveBeenCalledTimes(1);
+  });
+
+  describe('attachToApiClient', () => {
+    let client: ApiService;
+
+    beforeEach(() => {
+      client = new ApiService({ baseURL: 'http://localhost:3000/api' });
+      notify.attachToApiClient(client);
+    });
+
+    it('should toast errors from the error interceptor chain', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockFetchResponse(
+          { message: 'Not allowed here' },
+          false,
+          403
+        ) as unknown as Response
+      );
+
+      await expect(client.post('/items', {})).rejects.toMatchObject({
+        status: 403,
+      });
+
+      expect(showMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Not allowed',
+          message: 'Not allowed here',
+        })
+      );
+    });
+
+    it('should run after interceptors registered earlier', async () => {
+      const earlier = vi.fn(async (error: ApiClientError) => {
+        throw error;
+      });
+      const other = new ApiService({ baseURL: 'http://localhost:3000/api' });
+      other.addErrorInterceptor(earlier);
+      notify.attachToApiClient(other);
+      fetchMock.mockResolvedValueOnce(
+        mockFetchResponse({}, false, 404) as unknown as Response
+      );
+
+      await expect(other.post('/items', {})).rejects.toMatchObject({
+        status: 404,
+      });
+
+      expect(earlier).toHaveBeenCalled();
+      expect(showMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip validation errors and opted-out requests', async () => {
+      fetchMock
+        .mockResolvedValueOnce(
+          mockFetchResponse(
+            {
+              message: 'Invalid',
+              code: 'VALIDATION_ERROR',
+              details: { fields: { email: 'Taken' } },
+            },
+            false,
+            422
+          ) as unknown as Response
+        )
+        .mockResolvedValueOnce(
+          mockFetchResponse({}, false, 409) as unknown as Response
+        );
+
+      await expect(client.post('/users', {})).rejects.toBeInstanceOf(
+        ApiClientError
+      );
+      await expect(
+        client.post('/users', {}, { notifyOnError: false })
+      ).rejects.toBeInstanceOf(ApiClientError);
+
+      expect(showMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { ApiClientError, ApiService } from '@/services/api';
+import { createMemoryStore, OfflineQueue } from '@/services/offlineQueue';
+import { mockFetchResponse } from '@/test/utils';
+
+const fetchMock = vi.mocked(fetch);
+
+describe('OfflineQueue', () => {
+  let queue: OfflineQueue;
+
+  beforeEach(() => {
+    queue = new OfflineQueue(createMemoryStore());
+  });
+
+  afterEach(async () => {
+    // Also cancels any retry a transient failure scheduled
+    await queue.clear();
+  });
+
+  it('should replay queued requests in order', async () => {
+    const sent: string[] = [];
+    queue.setTransport(async request => {
+      sent.push(request.url);
+    });
+
+    await queue.enqueue({ url: '/a', method: 'POST', body: { n: 1 } });
+    await queue.enqueue({ url: '/b', method: 'PUT', body: { n: 2 } });
+    await queue.replay();
+
+    expect(sent).toEqual(['/a', '/b']);
+    expect(queue.getState().requests).toEqual([]);
+  });
+
+  it('should stop on network errors and keep the rest queued', async () => {
+    queue.setTransport(() =>
+      Promise.reject(new ApiClientError('Offline', 0, 'NETWORK_ERROR'))
+    );
+
+    await queue.enqueue({ url: '/a', method: 'POST' });
+    await queue.replay();
+
+    expect(queue.hasPending()).toBe(true);
+  });
+
+  it('should retry transient failures with backoff while online', async () => {
+    vi.useFakeTimers();
+    try {
+      const transport = vi
+        .fn()
+        .mockRejectedValueOnce(
+          new ApiClientError('Unavailable', 503, 'HTTP_ERROR')
+        )
+        .mockResolvedValue(undefined);
+      queue.setTransport(transport);
+
+      await queue.enqueue({ url: '/a', method: 'POST' });
+      await queue.replay();
+      expect(queue.hasPending()).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(transport).toHaveBeenCalledTimes(2);
+      expect(queue.getState().requests).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should drop another user's requests instead of replaying them", async () => {
+    const transport = vi.fn().mockResolvedValue(undefined);
+    queue.setTransport(transport);
+
+    await queue.setUser(null);
+    await queue.enqueue({ url: '/a', method: 'POST' });
+    await queue.setUser('1');
+
+    expect(transport).not.toHaveBeenCalled();
+    expect(queue.getState().requests).toEqual([]);
+  });
+
+  it('should clear the queue', async () => {
+    await queue.enqueue({ url: '/a', method: 'POST' });
+    await queue.clear();
+
+    expect(queue.getState().requests).toEqual([]);
+  });
+
+  it('should hand conflicts to the resolver', async () => {
+    const transport = vi
+      .fn()
+      .mockRejectedValueOnce(new ApiClientError('Conflict', 409, 'CONFLICT'))
+      .mockResolvedValue(undefined);
+    const resolver = vi.fn().mockReturnValue({
+      action: 'retry',
+      body: { name: 'merged' },
+    });
+    queue.setTransport(transport);
+    queue.setConflictResolver(resolver);
+
+    await queue.enqueue({ url: '/a', method: 'PUT', body: { name: 'mine' } });
+    await queue.replay();
+
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/a' }),
+      expect.objectContaining({ status: 409 })
+    );
+    expect(transport).toHaveBeenLastCalledWith(
+      expect.objectContaining({ body: { name: 'merged' } })
+    );
+    expect(queue.getState().requests).toEqual([]);
+  });
+
+  it('should park unresolved conflicts without blocking later requests', async () => {
+    queue.setTransport(async request => {
+      if (request.url === '/a') {
+        throw new ApiClientError('Gone', 410, 'HTTP_ERROR');
+      }
+    });
+
+    await queue.enqueue({ url: '/a', method: 'DELETE' });
+    await queue.enqueue({ url: '/b', method: 'POST' });
+    await queue.replay();
+
+    expect(queue.getState().requests).toMatchObject([
+      { url: '/a', status: 'conflict', error: { status: 410 } },
+    ]);
+  });
+});
+
+describe('ApiService offline mode', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should queue opted-in mutations that fail with a network error', async () => {
+    const queue = new OfflineQueue(createMemoryStore());
+    const client = new ApiService();
+    client.setOfflineQueue(queue);
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(mockFetchResponse({}) as unknown as Response);
+
+    await expect(
+      client.post('/notes', { text: 'hi' }, { queueOffline: true })
+    ).rejects.toMatchObject({ code: 'OFFLINE_QUEUED' });
+    await vi.waitFor(() => expect(queue.getState().requests).toEqual([]));
+
+    // The background replay sent the stored request once more
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1]?.body).toBe('{"text":"hi"}');
+  });
+
+  it('should replay without running the error interceptors', async () => {
+    const queue = new OfflineQueue(createMemoryStore());
+    const client = new ApiService();
+    const interceptor = vi.fn(async (error: ApiClientError) => {
+      throw error;
+    });
+    client.addErrorInterceptor(interceptor);
+    client.setOfflineQueue(queue);
+    fetchMock.mockResolvedValue(
+      mockFetchResponse(
+        { message: 'Expired' },
+        false,
+        401
+      ) as unknown as Response
+    );
+
+    await queue.enqueue({ url: '/notes', method: 'POST', body: {} });
+    await queue.replay();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(interceptor).not.toHaveBeenCalled();
+    // Kept for when the user signs in again
+    expect(queue.hasPending()).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { STORAGE_KEYS } from '@/constants';
+import {
+  DEFAULT_PREFERENCES,
+  PreferencesStore,
+  PreferencesTransport,
+} from '@/services/preferences';
+import { SyncedPreferences } from '@/types';
+
+// Simple in-memory store behind the mocked localStorage
+let stored: Record<string, string> = {};
+
+const createTransport = (remote: SyncedPreferences | null = null) => {
+  const saved: SyncedPreferences[] = [];
+  const transport: PreferencesTransport = {
+    fetch: async () => remote,
+    save: async value => {
+      saved.push(value);
+      return value;
+    },
+  };
+  return { transport, saved };
+};
+
+describe('PreferencesStore', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+    stored = {};
+    vi.mocked(localStorage.getItem).mockImplementation(
+      key => stored[key] ?? null
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      stored[key] = value;
+    });
+    vi.mocked(localStorage.removeItem).mockImplementation(key => {
+      delete stored[key];
+    });
+  });
+
+  it('should start from the defaults and merge partial updates', () => {
+    const store = new PreferencesStore(createTransport().transport);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.update({ notifications: { push: true } });
+
+    expect(store.getPreferences()).toEqual({
+      ...DEFAULT_PREFERENCES,
+      notifications: { ...DEFAULT_PREFERENCES.notifications, push: true },
+    });
+    expect(store.getState().syncStatus).toBe('local');
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should adopt newer preferences from the server', async () => {
+    const remote: SyncedPreferences = {
+      preferences: { ...DEFAULT_PREFERENCES, theme: 'dark', pageSize: 50 },
+      updatedAt: Date.now() + 1000,
+    };
+    const { transport, saved } = createTransport(remote);
+    const store = new PreferencesStore(transport);
+    store.update({ theme: 'light' });
+
+    await store.startSync('user-1');
+
+    expect(store.getPreferences().theme).toBe('dark');
+    expect(store.getPreferences().pageSize).toBe(50);
+    expect(store.getState().syncStatus).toBe('synced');
+    expect(saved).toEqual([]);
+  });
+
+  it('should push newer local preferences to the server', async () => {
+    const { transport, saved } = createTransport({
+      preferences: { ...DEFAULT_PREFERENCES, theme: 'dark' },
+      updatedAt: 1,
+    });
+    stored[`${STORAGE_KEYS.USER_PREFERENCES}:user-1`] = JSON.stringify({
+      preferences: { ...DEFAULT_PREFERENCES, locale: 'de-DE' },
+      updatedAt: Date.now(),
+    });
+    const store = new PreferencesStore(transport);
+
+    await store.startSync('user-1');
+
+    expect(store.getPreferences().theme).toBe('system');
+    expect(saved).toHaveLength(1);
+    expect(saved[0].preferences.locale).toBe('de-DE');
+    expect(store.getState().syncStatus).toBe('synced');
+  });
+
+  it('should save changes made while syncing after a pause', async () => {
+    vi.useFakeTimers();
+    const { transport, saved } = createTransport();
+    const store = new PreferencesStore(transport);
+    await store.startSync('user-1');
+    saved.length = 0;
+
+    store.update({ pageSize: 10 });
+    store.update({ pageSize: 50 });
+    await vi.runAllTimersAsync();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].preferences.pageSize).toBe(50);
+
+    store.stopSync();
+    store.update({ pageSize: 100 });
+    await vi.runAllTimersAsync();
+
+    expect(saved).toHaveLength(1);
+    expect(store.getState().syncStatus).toBe('local');
+  });
+
+  it('should keep preferences apart per user on a shared device', async () => {
+    const remote: SyncedPreferences = {
+      preferences: { ...DEFAULT_PREFERENCES, theme: 'light' },
+      updatedAt: 1,
+    };
+    const { transport, saved } = createTransport(remote);
+    const store = new PreferencesStore(transport);
+    await store.startSync('user-a');
+    store.update({ theme: 'dark' });
+    store.stopSync();
+    expect(store.getPreferences().theme).toBe('dark');
+
+    // A copy left behind by another user never wins over the server's
+    await store.startSync('user-b');
+
+    expect(store.getPreferences().theme).toBe('light');
+    expect(saved).toEqual([]);
+    expect(
+      JSON.parse(stored[`${STORAGE_KEYS.USER_PREFERENCES}:user-a`])
+    ).toMatchObject({ preferences: { theme: 'dark' } });
+  });
+
+  it('should start from the signed-in user copy after a reload', async () => {
+    const { transport } = createTransport();
+    const store = new PreferencesStore(transport);
+    store.update({ theme: 'light' });
+    await store.startSync('user-a');
+    store.update({ theme: 'dark', language: 'de' });
+
+    // Before the session is restored
+    const reloaded = new PreferencesStore(transport);
+    expect(reloaded.getPreferences()).toMatchObject({
+      theme: 'dark',
+      language: 'de',
+    });
+
+    store.stopSync();
+    store.update({ theme: 'light' });
+    expect(new PreferencesStore(transport).getPreferences().theme).toBe(
+      'light'
+    );
+  });
+});
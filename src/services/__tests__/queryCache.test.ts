@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QueryCache } from '@/services/queryCache';
+import { ApiClientError } from '@/services/api';
+
+describe('QueryCache', () => {
+  let cache: QueryCache;
+
+  beforeEach(() => {
+    cache = new QueryCache({ staleTime: 1000 });
+  });
+
+  it('should deduplicate identical in-flight requests', async () => {
+    const fetcher = vi.fn().mockResolvedValue(['a', 'b']);
+
+    const [first, second] = await Promise.all([
+      cache.fetchQuery('/items', fetcher),
+      cache.fetchQuery('/items', fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+    expect(cache.getQueryData('/items')).toEqual(['a', 'b']);
+  });
+
+  it('should serve fresh data from the cache until it goes stale', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetcher = vi.fn().mockResolvedValue(1);
+
+      await cache.fetchQuery('/count', fetcher);
+      await cache.fetchQuery('/count', fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await cache.fetchQuery('/count', fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should invalidate nested keys and refetch observed queries', async () => {
+    const listFetcher = vi.fn().mockResolvedValue([]);
+    const pageFetcher = vi.fn().mockResolvedValue([]);
+    const otherFetcher = vi.fn().mockResolvedValue([]);
+
+    const unsubscribe = cache.subscribe('/users?page=2', () => {});
+    await cache.fetchQuery('/users', listFetcher);
+    await cache.fetchQuery('/users?page=2', pageFetcher);
+    await cache.fetchQuery('/usersettings', otherFetcher);
+
+    await cache.invalidate('/users');
+
+    expect(cache.isStale('/users')).toBe(true);
+    expect(cache.isStale('/usersettings')).toBe(false);
+    // Only the observed page is refetched immediately
+    expect(pageFetcher).toHaveBeenCalledTimes(2);
+    expect(listFetcher).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+  });
+
+  it('should notify subscribers and expose errors', async () => {
+    const listener = vi.fn();
+    cache.subscribe('/broken', listener);
+
+    await expect(
+      cache.fetchQuery('/broken', () =>
+        Promise.reject(new ApiClientError('Boom', 500, 'HTTP_ERROR'))
+      )
+    ).rejects.toThrow('Boom');
+
+    const state = cache.getState('/broken');
+    expect(state.status).toBe('error');
+    expect(state.error?.code).toBe('HTTP_ERROR');
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it('should abort in-flight fetches when cleared and discard their results', async () => {
+    let signal: AbortSignal | undefined;
+    let resolve: (value: string) => void = () => {};
+    const request = cache.fetchQuery('/profile', fetchSignal => {
+      signal = fetchSignal;
+      return new Promise<string>(r => (resolve = r));
+    });
+
+    cache.clear();
+    resolve('previous user');
+    await request;
+
+    expect(signal?.aborted).toBe(true);
+    expect(cache.getState('/profile').status).toBe('idle');
+    expect(cache.getQueryData('/profile')).toBeUndefined();
+  });
+
+  it('should refetch stale observed queries on window focus', async () => {
+    const fetcher = vi.fn().mockResolvedValue('data');
+    cache = new QueryCache({ staleTime: 0 });
+
+    cache.subscribe('/feed', () => {});
+    await cache.fetchQuery('/feed', fetcher);
+    await cache.refetchActive('refetchOnWindowFocus');
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
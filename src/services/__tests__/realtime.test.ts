@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MockRealtimeServer } from '@/mocks/realtime';
+import { RealtimeClient, RealtimeOptions } from '@/services/realtime';
+
+const REALTIME_URL = 'http://localhost:3001/api/realtime';
+
+// Lets the mock sockets open and deliver, without reaching any backoff delay
+const settle = () => vi.advanceTimersByTimeAsync(10);
+
+describe('RealtimeClient', () => {
+  let server: MockRealtimeServer;
+  let client: RealtimeClient;
+  let token: string;
+
+  const createClient = (options: Partial<RealtimeOptions> = {}) =>
+    new RealtimeClient({
+      url: REALTIME_URL,
+      getToken: () => token,
+      getTicket: async () => 'valid-ticket',
+      refreshToken: vi.fn(async () => false),
+      ...options,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    token = 'valid-token';
+    server = new MockRealtimeServer({
+      url: REALTIME_URL,
+      authenticate: value => value === 'valid-token',
+      redeemTicket: value => value === 'valid-ticket',
+    });
+    server.listen();
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    server.close();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should connect over WebSocket and deliver messages by topic', async () => {
+    client = createClient();
+    const handler = vi.fn();
+    const unsubscribe = client.subscribeTopic('status', handler);
+
+    client.connect();
+    await settle();
+
+    expect(client.getState()).toMatchObject({
+      status: 'open',
+      transport: 'websocket',
+    });
+    const [connection] = server.getConnections();
+    expect(connection.token).toBe('valid-token');
+    expect([...connection.topics]).toEqual(['status']);
+
+    server.publish('status', { healthy: true });
+    server.publish('other', { healthy: false });
+    await settle();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ healthy: true });
+
+    unsubscribe();
+    expect(server.publish('status', { healthy: true })).toBe(0);
+  });
+
+  it('should hold topic subscriptions until the server is ready', async () => {
+    client = createClient();
+    const handleFrame = vi.spyOn(server, 'handleFrame');
+    client.connect();
+
+    // Open and authenticating, but not ready yet
+    await vi.advanceTimersToNextTimerAsync();
+    expect(client.getState().status).toBe('connecting');
+    client.subscribeTopic('status', vi.fn());
+    await settle();
+
+    const subscribes = handleFrame.mock.calls.filter(
+      ([, frame]) => frame.type === 'subscribe'
+    );
+    expect(subscribes).toHaveLength(1);
+  });
+
+  it('should fall back to server-sent events when WebSocket is refused', async () => {
+    server.configure({ webSocket: false });
+    client = createClient();
+    const handler = vi.fn();
+    client.subscribeTopic('status', handler);
+
+    client.connect();
+    await settle();
+
+    expect(client.getState()).toMatchObject({
+      status: 'open',
+      transport: 'sse',
+    });
+    // A ticket stands in for the access token in the URL
+    expect(server.getConnections()[0].token).toBe('valid-ticket');
+
+    server.publish('status', 'up');
+    await settle();
+    expect(handler).toHaveBeenCalledWith('up');
+
+    // New topics reopen the stream with the full topic list
+    client.subscribeTopic('alerts', vi.fn());
+    await settle();
+    const connections = server.getConnections();
+    expect(connections).toHaveLength(1);
+    expect([...connections[0].topics]).toEqual(['status', 'alerts']);
+  });
+
+  it('should reconnect with backoff and renew subscriptions', async () => {
+    client = createClient({ baseDelay: 1000 });
+    const handler = vi.fn();
+    client.subscribeTopic('status', handler);
+    client.connect();
+    await settle();
+
+    server.disconnectAll();
+    await settle();
+    expect(client.getState()).toMatchObject({
+      status: 'reconnecting',
+      attempt: 1,
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(client.getState()).toMatchObject({ status: 'open', attempt: 0 });
+
+    server.publish('status', 'back');
+    await settle();
+    expect(handler).toHaveBeenCalledWith('back');
+  });
+
+  it('should renew a rejected token and reconnect', async () => {
+    token = 'expired-token';
+    const refreshToken = vi.fn(async () => {
+      token = 'valid-token';
+      return true;
+    });
+    client = createClient({ refreshToken });
+
+    client.connect();
+    await settle();
+    await settle();
+
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(client.getState().status).toBe('open');
+    expect(server.getConnections()[0].token).toBe('valid-token');
+  });
+
+  it('should stop when the token cannot be renewed', async () => {
+    token = 'expired-token';
+    client = createClient();
+
+    client.connect();
+    await settle();
+
+    expect(client.getState()).toMatchObject({
+      status: 'closed',
+      transport: null,
+    });
+    expect(server.getConnections()).toHaveLength(0);
+  });
+});
@@ -1,36 +1,191 @@
 import { env } from '@/config/env';
-import { ApiResponse } from '@/types';
-import { getErrorMessage } from '@/utils';
+import { API_ENDPOINTS, HTTP_STATUS, STORAGE_KEYS } from '@/constants';
+import {
+  offlineQueue,
+  OfflineQueue,
+  QueuedMethod,
+  QueuedRequest,
+} from '@/services/offlineQueue';
+import { tokenStorage } from '@/services/tokenStorage';
+import {
+  UploadProgress,
+  UploadProgressHandler,
+  xhrFetch,
+} from '@/services/xhrTransport';
+import { ApiResponse, AuthTokens } from '@/types';
+import { delay, getErrorMessage, omit, storage } from '@/utils';
+import { Schema } from '@/utils/schema';
+
+// Retry configuration
+interface RetryPolicy {
+  // Total attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, doubled for each further retry (ms)
+  baseDelay: number;
+  // Upper bound for a single backoff delay, including Retry-After (ms)
+  maxDelay: number;
+  retryableStatuses: number[];
+  // Only these methods are retried; non-idempotent ones must opt in
+  retryableMethods: string[];
+}
 
 // API Configuration
 interface ApiConfig {
   baseURL: string;
   timeout: number;
   headers: Record<string, string>;
+  retry: RetryPolicy;
 }
 
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: env.API_RETRY_ATTEMPTS,
+  baseDelay: 300,
+  maxDelay: 10000,
+  retryableStatuses: [
+    HTTP_STATUS.REQUEST_TIMEOUT,
+    HTTP_STATUS.TOO_MANY_REQUESTS,
+    HTTP_STATUS.BAD_GATEWAY,
+    HTTP_STATUS.SERVICE_UNAVAILABLE,
+    HTTP_STATUS.GATEWAY_TIMEOUT,
+  ],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+};
+
 const defaultConfig: ApiConfig = {
   baseURL: env.API_BASE_URL,
   timeout: env.API_TIMEOUT,
   headers: {
     'Content-Type': 'application/json',
   },
+  retry: defaultRetryPolicy,
 };
 
 // Request/Response types
 interface RequestConfig extends RequestInit {
   timeout?: number;
   baseURL?: string;
+  // Don't attempt a token refresh when this request comes back 401
+  skipAuthRefresh?: boolean;
+  // Reject with the raw error instead of running it through error interceptors
+  skipErrorInterceptors?: boolean;
+  // Override the client retry policy, or disable retries with false
+  retry?: Partial<RetryPolicy> | false;
+  // How to read the response body (defaults to json)
+  responseType?: ResponseType;
+  // Report upload progress (sends the request through XMLHttpRequest)
+  onUploadProgress?: UploadProgressHandler;
+  // Validate the (unwrapped) JSON payload, rejecting with VALIDATION_ERROR
+  schema?: Schema<unknown>;
+  // Keep this mutation in the offline queue if the network is down, and
+  // replay it later (requires an offline queue on the client)
+  queueOffline?: boolean;
+  // Set to false when the caller reports this request's errors itself, so
+  // API error toasts (VITE_ENABLE_ERROR_TOASTS) skip it
+  notifyOnError?: boolean;
 }
 
+interface UploadConfig extends Omit<RequestConfig, 'body'> {
+  // Form field that holds the file (defaults to 'file')
+  fieldName?: string;
+  // Extra form fields sent along with a single-request upload
+  fields?: Record<string, string>;
+  // Files larger than this are sent as resumable chunks (bytes)
+  chunkSize?: number;
+}
+
+// Server-side state of a chunked upload
+interface UploadSession {
+  uploadId: string;
+  // Number of bytes the server has already received
+  offset: number;
+}
+
+type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer' | 'stream';
+
+// RequestConfig keys that are consumed by ApiService and never sent to fetch
+const CLIENT_ONLY_OPTIONS = [
+  'timeout',
+  'baseURL',
+  'skipAuthRefresh',
+  'skipErrorInterceptors',
+  'retry',
+  'responseType',
+  'onUploadProgress',
+  'schema',
+  'queueOffline',
+  'notifyOnError',
+];
+
+// Uploads of large files can legitimately take minutes
+const UPLOAD_TIMEOUT = 10 * 60 * 1000;
+
+// Bodies that fetch sends as-is. The browser derives their Content-Type
+// (including the multipart boundary for FormData), so ours must not be sent.
+const isRawBody = (body: unknown): body is BodyInit =>
+  body instanceof FormData ||
+  body instanceof Blob ||
+  body instanceof URLSearchParams ||
+  body instanceof ArrayBuffer ||
+  ArrayBuffer.isView(body) ||
+  (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream);
+
+// Plain header objects keep their key casing so interceptors can override
+// entries such as Authorization without creating duplicates
+const toHeaderRecord = (headers?: HeadersInit): Record<string, string> => {
+  if (!headers) return {};
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    return Object.fromEntries(new Headers(headers).entries());
+  }
+  return { ...headers };
+};
+
+const hasHeader = (headers: HeadersInit | undefined, name: string) =>
+  headers ? new Headers(headers).has(name) : false;
+
 interface ApiClient {
   get<T>(url: string, config?: RequestConfig): Promise<T>;
   post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
   put<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
   patch<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T>;
   delete<T>(url: string, config?: RequestConfig): Promise<T>;
+  upload<T>(url: string, file: File, config?: UploadConfig): Promise<T>;
 }
 
+// Resumable upload sessions are remembered per file so an interrupted
+// upload can continue where it stopped, even after a reload
+const getUploadFingerprint = (url: string, file: File) =>
+  `${url}|${file.name}|${file.size}|${file.lastModified}`;
+
+const uploadSessions = {
+  get: (fingerprint: string): string | undefined =>
+    storage.get<Record<string, string>>(STORAGE_KEYS.UPLOAD_SESSIONS, {})?.[
+      fingerprint
+    ],
+
+  set: (fingerprint: string, uploadId: string): void => {
+    const sessions =
+      storage.get<Record<string, string>>(STORAGE_KEYS.UPLOAD_SESSIONS, {}) ??
+      {};
+    storage.set(STORAGE_KEYS.UPLOAD_SESSIONS, {
+      ...sessions,
+      [fingerprint]: uploadId,
+    });
+  },
+
+  remove: (fingerprint: string): void => {
+    const sessions =
+      storage.get<Record<string, string>>(STORAGE_KEYS.UPLOAD_SESSIONS, {}) ??
+      {};
+    storage.set(STORAGE_KEYS.UPLOAD_SESSIONS, omit(sessions, fingerprint));
+  },
+};
+
+const toUploadProgress = (loaded: number, total: number): UploadProgress => ({
+  loaded,
+  total,
+  percent: total > 0 ? Math.round((loaded / total) * 100) : 100,
+});
+
 // Custom API Error class
 export class ApiClientError extends Error {
   public status: number;
@@ -51,23 +206,53 @@ export class ApiClientError extends Error {
   }
 }
 
+const createAbortError = () =>
+  new ApiClientError('Request was aborted', 0, 'ABORTED');
+
+// Whether a request failed because its caller aborted it
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiClientError && error.code === 'ABORTED';
+
+// Whether a mutation was stored in the offline queue instead of being sent
+export const isOfflineQueuedError = (error: unknown): boolean =>
+  error instanceof ApiClientError && error.code === 'OFFLINE_QUEUED';
+
 // Request interceptors
 type RequestInterceptor = (
   config: RequestConfig
 ) => RequestConfig | Promise<RequestConfig>;
 type ResponseInterceptor<T = unknown> = (response: T) => T | Promise<T>;
-type ErrorInterceptor = (error: ApiClientError) => Promise<never>;
+type ErrorInterceptor = (
+  error: ApiClientError,
+  config: RequestConfig
+) => Promise<never>;
+
+// Obtains and stores a fresh access token; throws when the session can't be renewed
+type TokenRefresher = () => Promise<void>;
+
+// Signs the user out in the app once the server rejected their session
+type SessionExpiredHandler = () => void;
 
 class ApiService implements ApiClient {
   private config: ApiConfig;
   private requestInterceptors: RequestInterceptor[] = [];
   private responseInterceptors: ResponseInterceptor[] = [];
   private errorInterceptors: ErrorInterceptor[] = [];
+  private tokenRefresher: TokenRefresher | null = null;
+  private sessionExpiredHandler: SessionExpiredHandler | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private tokenGeneration = 0;
+  private offlineQueue: OfflineQueue | null = null;
 
   constructor(config: Partial<ApiConfig> = {}) {
     this.config = { ...defaultConfig, ...config };
   }
 
+  // Retry policy management
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.config.retry = { ...this.config.retry, ...policy };
+  }
+
   // Interceptor management
   addRequestInterceptor(interceptor: RequestInterceptor): void {
     this.requestInterceptors.push(interceptor);
@@ -81,7 +266,121 @@ class ApiService implements ApiClient {
     this.errorInterceptors.push(interceptor);
   }
 
+  // Token refresh management
+  setTokenRefresher(refresher: TokenRefresher | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  // Session expiry
+  setSessionExpiredHandler(handler: SessionExpiredHandler | null): void {
+    this.sessionExpiredHandler = handler;
+  }
+
+  expireSession(): void {
+    this.sessionExpiredHandler?.();
+  }
+
+  // Offline mode: mutations that fail with a network error are persisted
+  // and replayed in order once the connection returns
+  setOfflineQueue(queue: OfflineQueue | null): void {
+    this.offlineQueue?.setTransport(null);
+    this.offlineQueue = queue;
+    queue?.setTransport(request => this.replayQueued(request));
+  }
+
   // Private methods
+  // Replays run in the background, so their failures are reported through
+  // the queue rather than the error interceptors
+  private replayQueued(request: QueuedRequest): Promise<unknown> {
+    return this.makeRequest(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: this.serializeBody(request.body),
+      skipErrorInterceptors: true,
+    });
+  }
+
+  // Mutations that opt into the offline queue are stored instead of failing
+  // when the network is down. While earlier requests are still queued, new
+  // ones join them to keep the order intact.
+  private async sendMutation<T>(
+    method: QueuedMethod,
+    url: string,
+    data: unknown,
+    config: RequestConfig = {}
+  ): Promise<T> {
+    const request = () =>
+      this.makeRequest<T>(url, {
+        ...config,
+        method,
+        body: this.serializeBody(data),
+      });
+
+    const queue = this.offlineQueue;
+    if (!queue || !config.queueOffline || isRawBody(data)) {
+      return request();
+    }
+
+    if (navigator.onLine && !queue.hasPending()) {
+      try {
+        return await request();
+      } catch (error) {
+        if ((error as ApiClientError).code !== 'NETWORK_ERROR') throw error;
+      }
+    }
+
+    const queued = await queue.enqueue({
+      url,
+      method,
+      body: data,
+      headers: toHeaderRecord(config.headers),
+    });
+    if (navigator.onLine) {
+      queue.replay().catch(() => {});
+    }
+    throw new ApiClientError(
+      'You are offline. The change will be sent once the connection returns.',
+      0,
+      'OFFLINE_QUEUED',
+      { requestId: queued.id }
+    );
+  }
+
+  // Also used by the realtime client when the server rejects its token
+  refreshAccessToken(): Promise<boolean> {
+    // Concurrent 401s all wait on the same refresh
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runTokenRefresher().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async runTokenRefresher(): Promise<boolean> {
+    if (!this.tokenRefresher) return false;
+    try {
+      await this.tokenRefresher();
+      this.tokenGeneration += 1;
+      return true;
+    } catch (error) {
+      if (env.ENABLE_DEBUG) {
+        console.error('Token refresh failed:', error);
+      }
+      return false;
+    }
+  }
+
+  private rejectWith(
+    error: ApiClientError,
+    config: RequestConfig
+  ): Promise<never> {
+    if (config.skipErrorInterceptors) {
+      return Promise.reject(error);
+    }
+    return this.applyErrorInterceptors(error, config);
+  }
+
   private async applyRequestInterceptors(
     config: RequestConfig
   ): Promise<RequestConfig> {
@@ -100,11 +399,205 @@ class ApiService implements ApiClient {
     return finalResponse;
   }
 
-  private async applyErrorInterceptors(error: ApiClientError): Promise<never> {
+  private async applyErrorInterceptors(
+    error: ApiClientError,
+    config: RequestConfig
+  ): Promise<never> {
+    // Every interceptor rejects, so each one gets a turn and may swap in a
+    // different ApiClientError for the next
+    let finalError = error;
     for (const interceptor of this.errorInterceptors) {
-      await interceptor(error);
+      try {
+        await interceptor(finalError, config);
+      } catch (rejection) {
+        if (rejection instanceof ApiClientError) finalError = rejection;
+      }
+    }
+    throw finalError;
+  }
+
+  private resolveRetryPolicy(config: RequestConfig): RetryPolicy | null {
+    if (config.retry === false) return null;
+
+    const policy = { ...this.config.retry, ...config.retry };
+    const method = (config.method || 'GET').toUpperCase();
+    if (!policy.retryableMethods.includes(method)) return null;
+
+    return policy;
+  }
+
+  // Exponential backoff with jitter, or the server's Retry-After when given.
+  // Returns null when the server asks us to wait longer than maxDelay.
+  private getRetryDelay(
+    policy: RetryPolicy,
+    attempt: number,
+    response?: Response
+  ): number | null {
+    const retryAfter = response?.headers.get('Retry-After');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const waitMs = Number.isNaN(seconds)
+        ? new Date(retryAfter).getTime() - Date.now()
+        : seconds * 1000;
+      if (!Number.isNaN(waitMs)) {
+        return waitMs > policy.maxDelay ? null : Math.max(0, waitMs);
+      }
+    }
+
+    const backoff = Math.min(
+      policy.maxDelay,
+      policy.baseDelay * 2 ** (attempt - 1)
+    );
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  // Single attempt. The caller's signal and the timeout both abort the
+  // request; failures are reported as ABORTED, TIMEOUT or NETWORK_ERROR.
+  private async fetchWithTimeout(
+    url: string,
+    config: RequestConfig
+  ): Promise<Response> {
+    const timeout = config.timeout || this.config.timeout;
+    const callerSignal = config.signal;
+
+    if (callerSignal?.aborted) {
+      throw createAbortError();
     }
-    throw error;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const abortFromCaller = () => controller.abort();
+    callerSignal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    const init: RequestInit = {
+      ...omit(config, CLIENT_ONLY_OPTIONS),
+      signal: controller.signal,
+    };
+
+    try {
+      return config.onUploadProgress
+        ? await xhrFetch(url, init, config.onUploadProgress)
+        : await fetch(url, init);
+    } catch (error) {
+      if (callerSignal?.aborted) {
+        throw createAbortError();
+      }
+      if (timedOut) {
+        throw new ApiClientError(
+          `Request timed out after ${timeout}ms`,
+          0,
+          'TIMEOUT'
+        );
+      }
+      throw new ApiClientError(getErrorMessage(error), 0, 'NETWORK_ERROR');
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  // Wait between retries, giving up early if the caller aborts
+  private waitForRetry(ms: number, signal?: AbortSignal | null): Promise<void> {
+    if (!signal) return delay(ms);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(createAbortError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  private async fetchWithRetry(
+    url: string,
+    config: RequestConfig
+  ): Promise<Response> {
+    const policy = this.resolveRetryPolicy(config);
+    const maxAttempts = policy ? Math.max(1, policy.maxAttempts) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= maxAttempts;
+
+      try {
+        const response = await this.fetchWithTimeout(url, config);
+        if (
+          response.ok ||
+          isLastAttempt ||
+          !policy?.retryableStatuses.includes(response.status)
+        ) {
+          return response;
+        }
+
+        const waitMs = this.getRetryDelay(policy, attempt, response);
+        if (waitMs === null) return response;
+        await this.waitForRetry(waitMs, config.signal);
+      } catch (error) {
+        // Network failures and timeouts are retried like retryable statuses,
+        // but a request the caller cancelled stays cancelled
+        if (isLastAttempt || !policy || isAbortError(error)) throw error;
+        await this.waitForRetry(
+          this.getRetryDelay(policy, attempt) ?? 0,
+          config.signal
+        );
+      }
+    }
+  }
+
+  private async parseResponse(
+    response: Response,
+    responseType: ResponseType
+  ): Promise<unknown> {
+    if (
+      response.status === HTTP_STATUS.NO_CONTENT ||
+      response.headers.get('Content-Length') === '0'
+    ) {
+      return undefined;
+    }
+
+    switch (responseType) {
+      case 'text':
+        return response.text();
+      case 'blob':
+        return response.blob();
+      case 'arrayBuffer':
+        return response.arrayBuffer();
+      case 'stream':
+        return response.body;
+      case 'json':
+      default: {
+        const text = await response.text();
+        if (!text) return undefined;
+        try {
+          return JSON.parse(text);
+        } catch (error) {
+          throw new ApiClientError(
+            `Invalid JSON response: ${getErrorMessage(error)}`,
+            response.status,
+            'PARSE_ERROR'
+          );
+        }
+      }
+    }
+  }
+
+  private serializeBody(data: unknown): BodyInit | undefined {
+    if (data === undefined) return undefined;
+    if (isRawBody(data)) return data;
+    return JSON.stringify(data);
   }
 
   private buildUrl(url: string, baseURL?: string): string {
@@ -117,29 +610,44 @@ class ApiService implements ApiClient {
     url: string,
     config: RequestConfig = {}
   ): Promise<T> {
+    const canRefresh = !config.skipAuthRefresh && this.tokenRefresher !== null;
+
+    // Hold new requests while a refresh is in flight so they use the new token
+    if (canRefresh && this.refreshPromise) {
+      await this.refreshPromise;
+    }
+    const generation = this.tokenGeneration;
+
     try {
       // Apply request interceptors
+      const headers = {
+        ...toHeaderRecord(this.config.headers),
+        ...toHeaderRecord(config.headers),
+      };
+      if (
+        isRawBody(config.body) &&
+        !hasHeader(config.headers, 'Content-Type')
+      ) {
+        Object.keys(headers)
+          .filter(name => name.toLowerCase() === 'content-type')
+          .forEach(name => delete headers[name]);
+      }
+
       const finalConfig = await this.applyRequestInterceptors({
         ...config,
-        headers: {
-          ...this.config.headers,
-          ...config.headers,
-        },
+        headers,
       });
 
       const fullUrl = this.buildUrl(url, finalConfig.baseURL);
-      const timeout = finalConfig.timeout || this.config.timeout;
 
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(fullUrl, {
-        ...finalConfig,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+      let response: Response;
+      try {
+        response = await this.fetchWithRetry(fullUrl, finalConfig);
+      } catch (error) {
+        // Cancellation is intentional, so it skips the error interceptors
+        if (isAbortError(error)) throw error;
+        return this.rejectWith(error as ApiClientError, config);
+      }
 
       // Handle HTTP errors
       if (!response.ok) {
@@ -151,14 +659,50 @@ class ApiService implements ApiClient {
           errorData.code || 'HTTP_ERROR',
           errorData.details
         );
-        return this.applyErrorInterceptors(apiError);
+
+        // Renew the access token once and replay the request. If another
+        // request already refreshed since this one was sent, just replay.
+        if (response.status === HTTP_STATUS.UNAUTHORIZED && canRefresh) {
+          const refreshed =
+            generation !== this.tokenGeneration ||
+            (await this.refreshAccessToken());
+          if (refreshed) {
+            return this.makeRequest<T>(url, {
+              ...config,
+              skipAuthRefresh: true,
+            });
+          }
+        }
+
+        return this.rejectWith(apiError, config);
       }
 
       // Parse response
-      const data = await response.json();
+      const responseType = finalConfig.responseType || 'json';
+      const data = await this.parseResponse(response, responseType);
 
-      // Apply response interceptors
-      return this.applyResponseInterceptors(data);
+      // Response interceptors only see JSON payloads; files and streams are
+      // returned untouched
+      if (responseType !== 'json') {
+        return data as T;
+      }
+      const result = await this.applyResponseInterceptors(data as T);
+
+      if (finalConfig.schema) {
+        const validation = finalConfig.schema.safeParse(result);
+        if (!validation.success) {
+          return this.rejectWith(
+            new ApiClientError(
+              'Response does not match the expected schema',
+              response.status,
+              'VALIDATION_ERROR',
+              { url, issues: validation.issues }
+            ),
+            config
+          );
+        }
+      }
+      return result;
     } catch (error) {
       if (error instanceof ApiClientError) {
         throw error;
@@ -170,7 +714,7 @@ class ApiService implements ApiClient {
         0,
         'NETWORK_ERROR'
       );
-      return this.applyErrorInterceptors(apiError);
+      return this.rejectWith(apiError, config);
     }
   }
 
@@ -184,11 +728,7 @@ class ApiService implements ApiClient {
     data?: unknown,
     config?: RequestConfig
   ): Promise<T> {
-    return this.makeRequest<T>(url, {
-      ...config,
-      method: 'POST',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    return this.sendMutation<T>('POST', url, data, config);
   }
 
   async put<T>(
@@ -196,11 +736,7 @@ class ApiService implements ApiClient {
     data?: unknown,
     config?: RequestConfig
   ): Promise<T> {
-    return this.makeRequest<T>(url, {
-      ...config,
-      method: 'PUT',
-      body: data ? JSON.stringify(data) : undefined,
-    });
+    return this.sendMutation<T>('PUT', url, data, config);
   }
 
   async patch<T>(
@@ -208,15 +744,124 @@ class ApiService implements ApiClient {
     data?: unknown,
     config?: RequestConfig
   ): Promise<T> {
+    return this.sendMutation<T>('PATCH', url, data, config);
+  }
+
+  async delete<T>(url: string, config?: RequestConfig): Promise<T> {
+    return this.sendMutation<T>('DELETE', url, undefined, config);
+  }
+
+  // File uploads. Small files go out as a single multipart request; files
+  // above chunkSize use the resumable protocol in uploadInChunks.
+  async upload<T>(
+    url: string,
+    file: File,
+    config: UploadConfig = {}
+  ): Promise<T> {
+    const { chunkSize, fieldName = 'file', fields = {}, ...rest } = config;
+
+    if (chunkSize && file.size > chunkSize) {
+      return this.uploadInChunks<T>(url, file, chunkSize, rest);
+    }
+
+    const formData = new FormData();
+    Object.entries(fields).forEach(([name, value]) => {
+      formData.append(name, value);
+    });
+    formData.append(fieldName, file, file.name);
+
     return this.makeRequest<T>(url, {
-      ...config,
-      method: 'PATCH',
-      body: data ? JSON.stringify(data) : undefined,
+      timeout: UPLOAD_TIMEOUT,
+      ...rest,
+      method: rest.method || 'POST',
+      body: formData,
     });
   }
 
-  async delete<T>(url: string, config?: RequestConfig): Promise<T> {
-    return this.makeRequest<T>(url, { ...config, method: 'DELETE' });
+  // Resumable protocol:
+  //   POST {url}                     -> UploadSession (start)
+  //   GET  {url}/{uploadId}          -> UploadSession (resume point)
+  //   PUT  {url}/{uploadId}          -> UploadSession (one chunk, Content-Range)
+  //   POST {url}/{uploadId}/complete -> T
+  private async uploadInChunks<T>(
+    url: string,
+    file: File,
+    chunkSize: number,
+    config: RequestConfig
+  ): Promise<T> {
+    const { onUploadProgress, ...rest } = config;
+    const fingerprint = getUploadFingerprint(url, file);
+    const sessionUrl = (uploadId: string) =>
+      `${url.replace(/\/$/, '')}/${uploadId}`;
+
+    // Resume a previous session if the server still knows about it
+    let session: UploadSession | null = null;
+    const existingId = uploadSessions.get(fingerprint);
+    if (existingId) {
+      session = await this.get<UploadSession>(sessionUrl(existingId), {
+        ...rest,
+        skipErrorInterceptors: true,
+      }).catch(() => null);
+    }
+
+    if (!session) {
+      session = await this.post<UploadSession>(
+        url,
+        { fileName: file.name, size: file.size, type: file.type },
+        rest
+      );
+      uploadSessions.set(fingerprint, session.uploadId);
+    }
+
+    const { uploadId } = session;
+    let offset = session.offset;
+    onUploadProgress?.(toUploadProgress(offset, file.size));
+
+    while (offset < file.size) {
+      const start = offset;
+      const end = Math.min(start + chunkSize, file.size);
+
+      const result = await this.makeRequest<UploadSession | undefined>(
+        sessionUrl(uploadId),
+        {
+          timeout: UPLOAD_TIMEOUT,
+          ...rest,
+          method: 'PUT',
+          body: file.slice(start, end),
+          headers: {
+            ...toHeaderRecord(rest.headers),
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+          },
+          onUploadProgress: onUploadProgress
+            ? progress =>
+                onUploadProgress(
+                  toUploadProgress(start + progress.loaded, file.size)
+                )
+            : undefined,
+        }
+      );
+
+      // Trust the server's offset so skipped or partial chunks are resent,
+      // but give up on a session that stopped accepting data
+      offset = result?.offset ?? end;
+      if (offset <= start) {
+        uploadSessions.remove(fingerprint);
+        throw new ApiClientError(
+          `Upload made no progress past byte ${start}`,
+          0,
+          'UPLOAD_STALLED'
+        );
+      }
+    }
+
+    const completed = await this.post<T>(
+      `${sessionUrl(uploadId)}/complete`,
+      undefined,
+      rest
+    );
+    uploadSessions.remove(fingerprint);
+    return completed;
   }
 }
 
@@ -226,7 +871,7 @@ export const apiClient = new ApiService();
 // Add default interceptors
 apiClient.addRequestInterceptor(config => {
   // Add auth token if available
-  const token = localStorage.getItem('auth_token');
+  const token = tokenStorage.getAccessToken();
   if (token) {
     config.headers = {
       ...config.headers,
@@ -244,13 +889,31 @@ apiClient.addResponseInterceptor(response => {
   return response;
 });
 
+apiClient.setTokenRefresher(async () => {
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken) {
+    throw new ApiClientError(
+      'No refresh token available',
+      HTTP_STATUS.UNAUTHORIZED,
+      'REFRESH_TOKEN_MISSING'
+    );
+  }
+
+  const tokens = await apiClient.post<AuthTokens>(
+    API_ENDPOINTS.AUTH.REFRESH,
+    { refreshToken },
+    { skipAuthRefresh: true, skipErrorInterceptors: true }
+  );
+  tokenStorage.setTokens(tokens);
+});
+
 apiClient.addErrorInterceptor(async error => {
-  // Handle 401 errors (unauthorized)
-  if (error.status === 401) {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('refresh_token');
-    // Redirect to login page
-    window.location.href = '/login';
+  // Handle 401 errors that survived a token refresh attempt
+  if (error.status === HTTP_STATUS.UNAUTHORIZED) {
+    tokenStorage.clear();
+    // Signed out through the app rather than a reload, so the route guard
+    // can send the user back here after logging in
+    apiClient.expireSession();
   }
 
   // Log errors in development
@@ -261,6 +924,23 @@ apiClient.addErrorInterceptor(async error => {
   throw error;
 });
 
+// Persist opted-in mutations while offline and replay them on reconnect
+if (env.ENABLE_OFFLINE_QUEUE) {
+  apiClient.setOfflineQueue(offlineQueue);
+  offlineQueue.start();
+}
+
 // Export types
-export type { ApiConfig, RequestConfig, ApiClient };
+export type {
+  ApiConfig,
+  RequestConfig,
+  ApiClient,
+  RetryPolicy,
+  ResponseType,
+  SessionExpiredHandler,
+  TokenRefresher,
+  UploadConfig,
+  UploadProgress,
+  UploadSession,
+};
 export { ApiService };
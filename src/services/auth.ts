@@ -0,0 +1,51 @@
+import { API_ENDPOINTS } from '@/constants';
+import { apiClient } from '@/services/api';
+import { callEndpoint, endpoints, userSchema } from '@/services/endpoints';
+import {
+  AuthResponse,
+  ChangePasswordData,
+  LoginCredentials,
+  ProfileUpdate,
+  RegisterData,
+  User,
+} from '@/types';
+
+export const authService = {
+  // A 401 here means wrong credentials, not an expired session, so it must
+  // not trigger a token refresh or the redirect to login
+  login: (credentials: LoginCredentials): Promise<AuthResponse> =>
+    callEndpoint(endpoints.auth.login, {
+      body: { email: credentials.email, password: credentials.password },
+      skipAuthRefresh: true,
+      skipErrorInterceptors: true,
+    }),
+
+  register: (data: RegisterData): Promise<AuthResponse> =>
+    callEndpoint(endpoints.auth.register, {
+      body: data,
+      skipAuthRefresh: true,
+      skipErrorInterceptors: true,
+    }),
+
+  logout: (): Promise<void> =>
+    apiClient.post<void>(API_ENDPOINTS.AUTH.LOGOUT, undefined, {
+      skipAuthRefresh: true,
+      skipErrorInterceptors: true,
+    }),
+
+  getProfile: (): Promise<User> => callEndpoint(endpoints.auth.profile),
+
+  updateProfile: (data: ProfileUpdate): Promise<User> =>
+    callEndpoint(endpoints.auth.updateProfile, { body: data }),
+
+  changePassword: async (data: ChangePasswordData): Promise<void> => {
+    await callEndpoint(endpoints.auth.changePassword, { body: data });
+  },
+
+  // Responds with the updated user, whose avatar points at the new image
+  uploadAvatar: (file: File): Promise<User> =>
+    apiClient.upload<User>(API_ENDPOINTS.AUTH.AVATAR, file, {
+      fieldName: 'avatar',
+      schema: userSchema,
+    }),
+};
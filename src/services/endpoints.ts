@@ -0,0 +1,212 @@
+import { API_ENDPOINTS } from '@/constants';
+import { apiClient, ApiClientError, RequestConfig } from '@/services/api';
+import {
+  AuthResponse,
+  AuthTokens,
+  ChangePasswordData,
+  LoginCredentials,
+  ProfileUpdate,
+  RegisterData,
+  User,
+  UserInput,
+  UserRole,
+} from '@/types';
+import { schema, Schema } from '@/utils/schema';
+
+// Typed endpoint definitions. Each endpoint pairs a path from API_ENDPOINTS
+// with schemas for its request body and response, so payloads are checked
+// at the boundary and rejected with VALIDATION_ERROR when they drift.
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface Endpoint<TResponse, TBody = void, TParams = void> {
+  method: HttpMethod;
+  path: string | ((params: TParams) => string);
+  request?: Schema<TBody>;
+  response: Schema<TResponse>;
+}
+
+type EndpointConfig = Omit<RequestConfig, 'body' | 'method' | 'schema'>;
+
+type EndpointOptions<TBody, TParams> = EndpointConfig &
+  ([TParams] extends [void] ? { params?: undefined } : { params: TParams }) &
+  ([TBody] extends [void] ? { body?: undefined } : { body: TBody });
+
+// Options may only be omitted when the endpoint needs neither params nor body
+type EndpointArgs<TBody, TParams> = [TParams, TBody] extends [void, void]
+  ? [options?: EndpointOptions<TBody, TParams>]
+  : [options: EndpointOptions<TBody, TParams>];
+
+export const defineEndpoint = <TResponse, TBody = void, TParams = void>(
+  endpoint: Endpoint<TResponse, TBody, TParams>
+): Endpoint<TResponse, TBody, TParams> => endpoint;
+
+export async function callEndpoint<TResponse, TBody, TParams>(
+  endpoint: Endpoint<TResponse, TBody, TParams>,
+  ...[options]: EndpointArgs<TBody, TParams>
+): Promise<TResponse> {
+  const { params, body, ...config } = (options ?? {}) as EndpointConfig & {
+    params?: TParams;
+    body?: TBody;
+  };
+  const url =
+    typeof endpoint.path === 'function'
+      ? endpoint.path(params as TParams)
+      : endpoint.path;
+
+  // A bad request body is a bug on our side, so it never reaches the server
+  if (endpoint.request) {
+    const validation = endpoint.request.safeParse(body);
+    if (!validation.success) {
+      throw new ApiClientError(
+        'Request does not match the expected schema',
+        0,
+        'VALIDATION_ERROR',
+        { url, issues: validation.issues }
+      );
+    }
+  }
+
+  const requestConfig: RequestConfig = {
+    ...config,
+    schema: endpoint.response,
+  };
+
+  switch (endpoint.method) {
+    case 'GET':
+      return apiClient.get<TResponse>(url, requestConfig);
+    case 'DELETE':
+      return apiClient.delete<TResponse>(url, requestConfig);
+    case 'POST':
+      return apiClient.post<TResponse>(url, body, requestConfig);
+    case 'PUT':
+      return apiClient.put<TResponse>(url, body, requestConfig);
+    case 'PATCH':
+      return apiClient.patch<TResponse>(url, body, requestConfig);
+  }
+}
+
+// Schemas. The explicit annotations keep them in sync with src/types.
+export const userSchema: Schema<User> = schema.object({
+  id: schema.string(),
+  email: schema.string(),
+  firstName: schema.string(),
+  lastName: schema.string(),
+  avatar: schema.string().optional(),
+  role: schema.oneOf(Object.values(UserRole)),
+  isActive: schema.boolean(),
+  createdAt: schema.string(),
+  updatedAt: schema.string(),
+});
+
+export const authTokensSchema: Schema<AuthTokens> = schema.object({
+  accessToken: schema.string(),
+  refreshToken: schema.string(),
+  expiresIn: schema.number(),
+});
+
+export const authResponseSchema: Schema<AuthResponse> = schema.object({
+  user: userSchema,
+  tokens: authTokensSchema,
+});
+
+const loginRequestSchema: Schema<Omit<LoginCredentials, 'rememberMe'>> =
+  schema.object({
+    email: schema.string(),
+    password: schema.string(),
+  });
+
+const registerRequestSchema: Schema<RegisterData> = schema.object({
+  email: schema.string(),
+  password: schema.string(),
+  firstName: schema.string(),
+  lastName: schema.string(),
+});
+
+const userInputSchema: Schema<UserInput> = schema.object({
+  email: schema.string(),
+  firstName: schema.string(),
+  lastName: schema.string(),
+  role: schema.oneOf(Object.values(UserRole)),
+  isActive: schema.boolean(),
+});
+
+const userUpdateSchema: Schema<Partial<UserInput>> = schema.object({
+  email: schema.string().optional(),
+  firstName: schema.string().optional(),
+  lastName: schema.string().optional(),
+  role: schema.oneOf(Object.values(UserRole)).optional(),
+  isActive: schema.boolean().optional(),
+});
+
+const profileUpdateSchema: Schema<ProfileUpdate> = schema.object({
+  email: schema.string(),
+  firstName: schema.string(),
+  lastName: schema.string(),
+});
+
+const changePasswordSchema: Schema<ChangePasswordData> = schema.object({
+  currentPassword: schema.string(),
+  newPassword: schema.string(),
+});
+
+// Endpoints
+export const endpoints = {
+  auth: {
+    login: defineEndpoint({
+      method: 'POST',
+      path: API_ENDPOINTS.AUTH.LOGIN,
+      request: loginRequestSchema,
+      response: authResponseSchema,
+    }),
+    register: defineEndpoint({
+      method: 'POST',
+      path: API_ENDPOINTS.AUTH.REGISTER,
+      request: registerRequestSchema,
+      response: authResponseSchema,
+    }),
+    profile: defineEndpoint({
+      method: 'GET',
+      path: API_ENDPOINTS.AUTH.PROFILE,
+      response: userSchema,
+    }),
+    updateProfile: defineEndpoint({
+      method: 'PUT',
+      path: API_ENDPOINTS.AUTH.PROFILE,
+      request: profileUpdateSchema,
+      response: userSchema,
+    }),
+    changePassword: defineEndpoint({
+      method: 'POST',
+      path: API_ENDPOINTS.AUTH.CHANGE_PASSWORD,
+      request: changePasswordSchema,
+      response: schema.unknown(),
+    }),
+  },
+  users: {
+    get: defineEndpoint({
+      method: 'GET',
+      path: API_ENDPOINTS.USERS.GET,
+      response: userSchema,
+    }),
+    create: defineEndpoint({
+      method: 'POST',
+      path: API_ENDPOINTS.USERS.CREATE,
+      request: userInputSchema,
+      response: userSchema,
+    }),
+    update: defineEndpoint({
+      method: 'PUT',
+      path: API_ENDPOINTS.USERS.UPDATE,
+      request: userUpdateSchema,
+      response: userSchema,
+    }),
+    delete: defineEndpoint({
+      method: 'DELETE',
+      path: API_ENDPOINTS.USERS.DELETE,
+      response: schema.unknown(),
+    }),
+  },
+};
+
+export type { Endpoint, EndpointConfig, HttpMethod };
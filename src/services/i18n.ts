@@ -0,0 +1,160 @@
+import { env } from '@/config/env';
+import { RTL_LANGUAGES, STORAGE_KEYS, SUPPORTED_LANGUAGES } from '@/constants';
+import en, { MessageKey, Messages } from '@/locales/en';
+import { TextDirection } from '@/types';
+import { setActiveLocale, storage } from '@/utils';
+import { formatMessage, MessageValues } from '@/utils/messageFormat';
+
+// I18n types
+interface I18nState {
+  language: string;
+  // Formats dates and numbers, e.g. 'en-GB'
+  locale: string;
+  // Follows the language, so the layout only flips once its catalog is in
+  direction: TextDirection;
+  messages: Messages;
+  // True while a language's catalog is being downloaded
+  isLoading: boolean;
+}
+
+type StoredLanguage = Pick<I18nState, 'language' | 'locale'>;
+
+const DEFAULT_LANGUAGE = 'en';
+const DEFAULT_LOCALE = 'en-US';
+
+// English ships with the app; other catalogs are split into their own
+// chunks and only downloaded when selected
+const CATALOG_LOADERS: Record<string, () => Promise<{ default: Messages }>> = {
+  es: () => import('@/locales/es'),
+  fr: () => import('@/locales/fr'),
+  de: () => import('@/locales/de'),
+  ar: () => import('@/locales/ar'),
+  he: () => import('@/locales/he'),
+};
+
+const isSupportedLanguage = (language: string) =>
+  SUPPORTED_LANGUAGES.some(({ value }) => value === language);
+
+export const getLanguageDirection = (language: string): TextDirection =>
+  RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+
+// Formats a message from the catalog, falling back to English and then to
+// the key itself
+export const translate = (
+  messages: Messages,
+  locale: string,
+  key: MessageKey,
+  values?: MessageValues
+): string => {
+  const message = messages[key] ?? en[key] ?? key;
+  try {
+    return formatMessage(message, values, locale);
+  } catch (error) {
+    if (env.ENABLE_DEBUG) {
+      console.error(`Invalid message "${key}":`, error);
+    }
+    return message;
+  }
+};
+
+class I18n {
+  private state: I18nState;
+  private listeners = new Set<() => void>();
+  private catalogs = new Map<string, Messages>([[DEFAULT_LANGUAGE, en]]);
+  // Guards against a slow catalog overwriting a later language change
+  private requestedLanguage: string;
+
+  constructor() {
+    const stored = storage.get<StoredLanguage>(STORAGE_KEYS.LANGUAGE);
+    const language =
+      stored && isSupportedLanguage(stored.language)
+        ? stored.language
+        : DEFAULT_LANGUAGE;
+    const locale = stored?.locale ?? DEFAULT_LOCALE;
+
+    setActiveLocale(locale);
+    this.requestedLanguage = language;
+    this.state = {
+      language,
+      locale,
+      direction: getLanguageDirection(language),
+      // Untranslated until the catalog is loaded, see setLanguage
+      messages: this.catalogs.get(language) ?? en,
+      isLoading: false,
+    };
+  }
+
+  // Subscriptions
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): I18nState {
+    return this.state;
+  }
+
+  // Translation
+  t = (key: MessageKey, values?: MessageValues): string =>
+    translate(this.state.messages, this.state.locale, key, values);
+
+  // Language and locale
+  async setLanguage(language: string): Promise<void> {
+    const next = isSupportedLanguage(language) ? language : DEFAULT_LANGUAGE;
+    this.requestedLanguage = next;
+
+    let messages = this.catalogs.get(next);
+    if (!messages) {
+      this.setState({ isLoading: true });
+      try {
+        messages = (await CATALOG_LOADERS[next]()).default;
+        this.catalogs.set(next, messages);
+      } catch (error) {
+        // Keep the current language, e.g. when offline
+        if (env.ENABLE_DEBUG) {
+          console.error(`Failed to load the "${next}" catalog:`, error);
+        }
+        if (this.requestedLanguage === next) {
+          this.setState({ isLoading: false });
+        }
+        return;
+      }
+    }
+
+    if (this.requestedLanguage !== next) return;
+    this.setState({
+      language: next,
+      direction: getLanguageDirection(next),
+      messages,
+      isLoading: false,
+    });
+    this.persist();
+  }
+
+  setLocale(locale: string): void {
+    if (locale === this.state.locale) return;
+    setActiveLocale(locale);
+    this.setState({ locale });
+    this.persist();
+  }
+
+  // Private methods
+  private persist(): void {
+    const { language, locale } = this.state;
+    storage.set<StoredLanguage>(STORAGE_KEYS.LANGUAGE, { language, locale });
+  }
+
+  private setState(patch: Partial<I18nState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create default i18n instance
+export const i18n = new I18n();
+
+// Export types
+export type { I18nState };
+export { I18n };
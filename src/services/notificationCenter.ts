@@ -0,0 +1,244 @@
+import {
+  API_ENDPOINTS,
+  APP_CONSTANTS,
+  REALTIME_TOPICS,
+  STORAGE_KEYS,
+} from '@/constants';
+import { apiClient } from '@/services/api';
+import { notify } from '@/services/notify';
+import { preferencesStore } from '@/services/preferences';
+import { realtime } from '@/services/realtime';
+import {
+  AppNotification,
+  NotificationConfig,
+  ServerNotification,
+} from '@/types';
+import { storage } from '@/utils';
+
+// Notification center types
+type NotificationInput = Pick<
+  NotificationConfig,
+  'id' | 'type' | 'title' | 'message'
+>;
+
+interface NotificationCenterState {
+  // Newest first
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+// Loads the notifications the server holds for the signed-in user and
+// delivers new ones as they are sent; provided by the API and the realtime
+// connection by default and swapped out in tests
+interface NotificationTransport {
+  fetch(): Promise<ServerNotification[]>;
+  // Returns a function that stops the deliveries
+  listen?(onPush: (notification: ServerNotification) => void): () => void;
+}
+
+const apiTransport: NotificationTransport = {
+  fetch: () =>
+    apiClient.get<ServerNotification[]>(API_ENDPOINTS.NOTIFICATIONS, {
+      notifyOnError: false,
+    }),
+  listen: onPush =>
+    realtime.subscribeTopic<ServerNotification>(
+      REALTIME_TOPICS.NOTIFICATIONS,
+      onPush
+    ),
+};
+
+// Each user keeps their own history; signed-out notifications go under the
+// bare key
+const storageKeyFor = (userId: string | null) =>
+  userId
+    ? `${STORAGE_KEYS.NOTIFICATIONS}:${userId}`
+    : STORAGE_KEYS.NOTIFICATIONS;
+
+const createId = () =>
+  `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toState = (
+  notifications: AppNotification[]
+): NotificationCenterState => ({
+  notifications,
+  unreadCount: notifications.filter(({ read }) => !read).length,
+});
+
+const byNewest = (a: AppNotification, b: AppNotification) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// History of notifications raised in this browser or pushed by the server,
+// persisted in localStorage so it survives reloads and new sessions
+class NotificationCenter {
+  private transport: NotificationTransport;
+  private state: NotificationCenterState;
+  private listeners = new Set<() => void>();
+  private userId: string | null = null;
+  private stopListening: (() => void) | null = null;
+
+  constructor(transport: NotificationTransport = apiTransport) {
+    this.transport = transport;
+    this.state = toState(this.loadStored());
+  }
+
+  // Subscriptions
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): NotificationCenterState {
+    return this.state;
+  }
+
+  // Records a notification raised in this browser
+  add(input: NotificationInput): AppNotification {
+    const notification: AppNotification = {
+      id: input.id ?? createId(),
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      createdAt: new Date().toISOString(),
+      read: false,
+      source: 'local',
+    };
+    this.save([
+      notification,
+      ...this.state.notifications.filter(({ id }) => id !== notification.id),
+    ]);
+    return notification;
+  }
+
+  // Records notifications pushed by the server, toasting the new ones when
+  // the user has in-app notifications turned on
+  receive(incoming: ServerNotification | ServerNotification[]): void {
+    const added = this.merge(Array.isArray(incoming) ? incoming : [incoming]);
+    if (!preferencesStore.getPreferences().notifications.inApp) return;
+
+    added.forEach(({ id, type, title, message }) =>
+      notify.show({ id: `notification:${id}`, type, title, message })
+    );
+  }
+
+  // Read state
+  markRead(id: string): void {
+    this.updateWhere(
+      notification => notification.id === id && !notification.read,
+      { read: true }
+    );
+  }
+
+  markAllRead(): void {
+    this.updateWhere(notification => !notification.read, { read: true });
+  }
+
+  remove(id: string): void {
+    this.save(this.state.notifications.filter(item => item.id !== id));
+  }
+
+  clear(): void {
+    this.save([]);
+  }
+
+  // Server sync, started when a user signs in: switches to their history and
+  // catches up on notifications sent while they were away
+  async startSync(userId: string): Promise<void> {
+    this.switchUser(userId);
+    this.stopListening?.();
+    this.stopListening =
+      this.transport.listen?.(notification => this.receive(notification)) ??
+      null;
+    try {
+      const backlog = await this.transport.fetch();
+      if (this.userId === userId) this.merge(backlog);
+    } catch {
+      // The stored history is still shown; new pushes arrive as usual
+    }
+  }
+
+  stopSync(): void {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.switchUser(null);
+  }
+
+  // Private methods
+
+  // Adds notifications not seen before and returns them. Read state stays
+  // local once set, so a notification read here isn't unread again.
+  private merge(incoming: ServerNotification[]): AppNotification[] {
+    const known = new Map(
+      this.state.notifications.map(notification => [
+        notification.id,
+        notification,
+      ])
+    );
+    const added: AppNotification[] = [];
+
+    incoming.forEach(({ read = false, ...notification }) => {
+      const existing = known.get(notification.id);
+      const merged: AppNotification = {
+        ...notification,
+        read: read || Boolean(existing?.read),
+        source: 'server',
+      };
+      if (!existing) added.push(merged);
+      known.set(merged.id, merged);
+    });
+
+    this.save([...known.values()].sort(byNewest));
+    return added;
+  }
+
+  private updateWhere(
+    predicate: (notification: AppNotification) => boolean,
+    patch: Partial<AppNotification>
+  ): void {
+    if (!this.state.notifications.some(predicate)) return;
+    this.save(
+      this.state.notifications.map(notification =>
+        predicate(notification) ? { ...notification, ...patch } : notification
+      )
+    );
+  }
+
+  private switchUser(userId: string | null): void {
+    this.userId = userId;
+    this.setState(toState(this.loadStored()));
+  }
+
+  private loadStored(): AppNotification[] {
+    return storage.get<AppNotification[]>(storageKeyFor(this.userId)) ?? [];
+  }
+
+  private save(notifications: AppNotification[]): void {
+    const kept = notifications.slice(
+      0,
+      APP_CONSTANTS.NOTIFICATION_HISTORY_LIMIT
+    );
+    storage.set(storageKeyFor(this.userId), kept);
+    this.setState(toState(kept));
+  }
+
+  private setState(state: NotificationCenterState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create default notification center instance
+export const notificationCenter = new NotificationCenter();
+
+// Keep the toasts raised with persist: true
+notify.recordWith(notification => notificationCenter.add(notification));
+
+// Export types
+export type {
+  NotificationCenterState,
+  NotificationInput,
+  NotificationTransport,
+};
+export { NotificationCenter };
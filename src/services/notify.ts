@@ -0,0 +1,264 @@
+import { createElement, ReactNode } from 'react';
+import { randomId } from '@mantine/hooks';
+import { NotificationData, notifications } from '@mantine/notifications';
+import {
+  IconAlertTriangle,
+  IconCheck,
+  IconInfoCircle,
+  IconX,
+} from '@tabler/icons-react';
+import { NotificationMessage } from '@/components/NotificationMessage';
+import { env } from '@/config/env';
+import { APP_CONSTANTS, HTTP_STATUS } from '@/constants';
+import {
+  apiClient,
+  ApiClientError,
+  ApiService,
+  isAbortError,
+  isOfflineQueuedError,
+  RequestConfig,
+} from '@/services/api';
+import { i18n } from '@/services/i18n';
+import { NotificationConfig } from '@/types';
+import { getErrorMessage } from '@/utils';
+
+// Notify types
+type NotificationType = NotificationConfig['type'];
+type NotifyOptions = Omit<NotificationConfig, 'title' | 'type'>;
+
+// Receives the toasts shown with persist: true
+type NotificationRecorder = (
+  notification: NotificationConfig & { id: string }
+) => void;
+
+// Titles for each stage of notify.promise; success and error may derive
+// their title from the outcome
+interface PromiseMessages<T> {
+  id?: string;
+  loading: string;
+  success: string | ((value: T) => string);
+  error?: string | ((error: unknown) => string);
+}
+
+// Color and icon per notification type, shared with the notification center
+export const NOTIFICATION_STYLES: Record<
+  NotificationType,
+  { color: string; icon: typeof IconCheck }
+> = {
+  success: { color: 'green', icon: IconCheck },
+  error: { color: 'red', icon: IconX },
+  warning: { color: 'yellow', icon: IconAlertTriangle },
+  info: { color: 'blue', icon: IconInfoCircle },
+};
+
+const resolveTitle = <V>(title: string | ((value: V) => string), value: V) =>
+  typeof title === 'function' ? title(value) : title;
+
+// Toasts built on Mantine notifications. A notification with the id of one
+// that is still on screen replaces it instead of stacking a duplicate.
+class NotifyService {
+  private active = new Set<string>();
+  private recorder: NotificationRecorder | null = null;
+
+  show(config: NotificationConfig): string {
+    const id = config.id ?? randomId('notify-');
+    const data = this.toNotificationData(id, config);
+    if (this.active.has(id)) {
+      notifications.update(data);
+    } else {
+      this.active.add(id);
+      notifications.show(data);
+    }
+    if (config.persist) this.recorder?.({ ...config, id });
+    return id;
+  }
+
+  // Where toasts shown with persist: true are kept; set by the notification
+  // center
+  recordWith(recorder: NotificationRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  success(title: string, options: NotifyOptions = {}): string {
+    return this.show({ ...options, title, type: 'success' });
+  }
+
+  error(title: string, options: NotifyOptions = {}): string {
+    return this.show({ ...options, title, type: 'error' });
+  }
+
+  warning(title: string, options: NotifyOptions = {}): string {
+    return this.show({ ...options, title, type: 'warning' });
+  }
+
+  info(title: string, options: NotifyOptions = {}): string {
+    return this.show({ ...options, title, type: 'info' });
+  }
+
+  hide(id: string): void {
+    notifications.hide(id);
+    this.active.delete(id);
+  }
+
+  clean(): void {
+    notifications.clean();
+    this.active.clear();
+  }
+
+  isActive(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  // Shows a loading toast that turns into a success or error toast once the
+  // promise settles; resolves or rejects with the promise's own outcome
+  async promise<T>(
+    promise: Promise<T>,
+    messages: PromiseMessages<T>
+  ): Promise<T> {
+    const id = this.showLoading(messages.loading, messages.id);
+
+    try {
+      const value = await promise;
+      this.show({
+        id,
+        type: 'success',
+        title: resolveTitle(messages.success, value),
+      });
+      return value;
+    } catch (error) {
+      this.show(
+        messages.error
+          ? { id, type: 'error', title: resolveTitle(messages.error, error) }
+          : {
+              id,
+              type: 'error',
+              title: i18n.t('notify.error'),
+              message: getErrorMessage(error),
+            }
+      );
+      throw error;
+    }
+  }
+
+  // Reports a failed request and keeps it in the notification center;
+  // repeats of the same failure share one toast
+  apiError(error: unknown, options: NotifyOptions = {}): string {
+    if (!(error instanceof ApiClientError)) {
+      return this.error(i18n.t('notify.error'), {
+        message: getErrorMessage(error),
+        persist: true,
+        ...options,
+      });
+    }
+
+    return this.error(this.apiErrorTitle(error), {
+      id: `api-error:${error.code}:${error.status}`,
+      message: error.message,
+      persist: true,
+      ...options,
+    });
+  }
+
+  // Toasts API errors from the client's error interceptor chain. Errors the
+  // UI already handles (aborts, queued mutations, expired sessions and field
+  // validation) and requests sent with notifyOnError: false are skipped.
+  attachToApiClient(client: Pick<ApiService, 'addErrorInterceptor'>): void {
+    client.addErrorInterceptor(async (error, config) => {
+      if (this.shouldReport(error, config)) this.apiError(error);
+      throw error;
+    });
+  }
+
+  private shouldReport(error: ApiClientError, config: RequestConfig): boolean {
+    if (config.notifyOnError === false) return false;
+    if (isAbortError(error) || isOfflineQueuedError(error)) return false;
+    if (error.status === HTTP_STATUS.UNAUTHORIZED) return false;
+    return !error.details?.fields;
+  }
+
+  private apiErrorTitle(error: ApiClientError): string {
+    if (error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT') {
+      return i18n.t('notify.networkError');
+    }
+    if (error.status === HTTP_STATUS.FORBIDDEN) {
+      return i18n.t('notify.forbidden');
+    }
+    if (error.status >= HTTP_STATUS.INTERNAL_SERVER_ERROR) {
+      return i18n.t('notify.serverError');
+    }
+    return i18n.t('notify.requestFailed');
+  }
+
+  private showLoading(title: string, id = randomId('notify-')): string {
+    const data: NotificationData = {
+      id,
+      title,
+      message: undefined,
+      loading: true,
+      autoClose: false,
+      withCloseButton: false,
+      onClose: () => this.active.delete(id),
+    };
+
+    if (this.active.has(id)) {
+      notifications.update(data);
+    } else {
+      this.active.add(id);
+      notifications.show(data);
+    }
+    return id;
+  }
+
+  private toNotificationData(
+    id: string,
+    config: NotificationConfig
+  ): NotificationData {
+    const { color, icon } = NOTIFICATION_STYLES[config.type];
+    const { action } = config;
+    const duration = config.duration ?? APP_CONSTANTS.TOAST_DURATION;
+
+    const message: ReactNode = action
+      ? createElement(NotificationMessage, {
+          message: config.message,
+          color,
+          action: {
+            label: action.label,
+            onClick: () => {
+              action.onClick();
+              this.hide(id);
+            },
+          },
+        })
+      : config.message;
+
+    return {
+      id,
+      title: config.title,
+      message,
+      color,
+      icon: createElement(icon, { size: 18 }),
+      loading: false,
+      withCloseButton: true,
+      // A duration of 0 keeps the toast until it is dismissed
+      autoClose: duration > 0 ? duration : false,
+      onClose: () => this.active.delete(id),
+    };
+  }
+}
+
+// Create default notify instance
+export const notify = new NotifyService();
+
+// Toast API errors from every request when enabled
+if (env.ENABLE_ERROR_TOASTS) {
+  notify.attachToApiClient(apiClient);
+}
+
+// Export types
+export type {
+  NotificationRecorder,
+  NotificationType,
+  NotifyOptions,
+  PromiseMessages,
+};
+export { NotifyService };
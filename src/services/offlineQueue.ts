@@ -0,0 +1,423 @@
+// Type-only import: api.ts loads this module at runtime
+import type { ApiClientError } from '@/services/api';
+
+// Offline queue types
+type QueuedMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// 'conflict' requests were rejected by the server on replay and wait for a
+// decision before they are sent again
+type QueuedRequestStatus = 'pending' | 'conflict';
+
+interface QueuedRequest {
+  id: number;
+  url: string;
+  method: QueuedMethod;
+  // The unserialized request data, as passed to apiClient.post() etc.
+  body?: unknown;
+  headers: Record<string, string>;
+  createdAt: number;
+  // The signed-in user who queued it; only replayed in their session
+  userId: string | null;
+  status: QueuedRequestStatus;
+  error?: { message: string; status: number; code: string };
+}
+
+type NewQueuedRequest = Pick<QueuedRequest, 'url' | 'method' | 'body'> &
+  Partial<Pick<QueuedRequest, 'headers'>>;
+
+type ConflictResolution =
+  // Send the request again, optionally with a merged body
+  | { action: 'retry'; body?: unknown }
+  | { action: 'discard' }
+  // Leave it parked as a conflict for the user to decide later
+  | { action: 'keep' };
+
+type ConflictResolver = (
+  request: QueuedRequest,
+  error: ApiClientError
+) => ConflictResolution | Promise<ConflictResolution>;
+
+// Sends a queued request; provided by ApiService
+type QueueTransport = (request: QueuedRequest) => Promise<unknown>;
+
+interface OfflineQueueState {
+  requests: QueuedRequest[];
+  isOnline: boolean;
+  isReplaying: boolean;
+}
+
+// Persistence
+interface QueueStore {
+  getAll(): Promise<QueuedRequest[]>;
+  put(request: QueuedRequest): Promise<void>;
+  delete(id: number): Promise<void>;
+}
+
+const DB_NAME = 'kurama-offline';
+const STORE_NAME = 'requests';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const createIndexedDBStore = (): QueueStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      dbPromise = promisifyRequest(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDb();
+    return promisifyRequest(
+      run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    );
+  };
+
+  return {
+    getAll: () => withStore('readonly', store => store.getAll()),
+    put: async request => {
+      await withStore('readwrite', store => store.put(request));
+    },
+    delete: async id => {
+      await withStore('readwrite', store => store.delete(id));
+    },
+  };
+};
+
+// Used where IndexedDB is unavailable (tests, some private browsing modes)
+const createMemoryStore = (): QueueStore => {
+  const requests = new Map<number, QueuedRequest>();
+  return {
+    getAll: async () => [...requests.values()],
+    put: async request => {
+      requests.set(request.id, request);
+    },
+    delete: async id => {
+      requests.delete(id);
+    },
+  };
+};
+
+// Transient failures stop the replay; the queue tries again with backoff,
+// or as soon as the connection comes back. An expired session stops it until
+// the user signs in again. Anything else is a conflict with the server.
+const isTransientError = (error: ApiClientError): boolean =>
+  error.status === 0 || error.status === 429 || error.status >= 500;
+
+const isUnauthorizedError = (error: ApiClientError): boolean =>
+  error.status === 401;
+
+// Delay before retrying after a transient failure, doubled for each further
+// failure (ms)
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 60000;
+
+const isOnline = () =>
+  typeof navigator === 'undefined' ? true : navigator.onLine;
+
+class OfflineQueue {
+  private store: QueueStore;
+  private state: OfflineQueueState = {
+    requests: [],
+    isOnline: isOnline(),
+    isReplaying: false,
+  };
+  private listeners = new Set<() => void>();
+  private transport: QueueTransport | null = null;
+  private conflictResolver: ConflictResolver | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private replayPromise: Promise<void> | null = null;
+  private nextId = 1;
+  private userId: string | null = null;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+
+  constructor(store?: QueueStore) {
+    this.store =
+      store ??
+      (typeof indexedDB !== 'undefined'
+        ? createIndexedDBStore()
+        : createMemoryStore());
+  }
+
+  // Subscriptions
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): OfflineQueueState {
+    return this.state;
+  }
+
+  hasPending(): boolean {
+    return this.state.requests.some(request => request.status === 'pending');
+  }
+
+  // Configuration
+  setTransport(transport: QueueTransport | null): void {
+    this.transport = transport;
+  }
+
+  setConflictResolver(resolver: ConflictResolver | null): void {
+    this.conflictResolver = resolver;
+  }
+
+  // Requests are tied to the user who queued them. Signing in as someone
+  // else drops the previous user's requests instead of sending them with
+  // the new user's token.
+  async setUser(userId: string | null): Promise<void> {
+    this.userId = userId;
+    this.clearRetry();
+    if (userId === null) return;
+
+    await this.load();
+    const others = this.state.requests.filter(
+      request => request.userId !== userId
+    );
+    await Promise.all(others.map(request => this.remove(request.id)));
+    await this.replay();
+  }
+
+  // Restores persisted requests and replays them whenever the browser
+  // reports that it is back online
+  start(): () => void {
+    this.load()
+      .then(() => this.replay())
+      .catch(() => {});
+    if (typeof window === 'undefined') return () => {};
+
+    const handleOnline = () => {
+      this.setState({ isOnline: true });
+      this.clearRetry();
+      this.replay().catch(() => {});
+    };
+    const handleOffline = () => {
+      this.setState({ isOnline: false });
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }
+
+  // Queue operations
+  async enqueue(request: NewQueuedRequest): Promise<QueuedRequest> {
+    await this.load();
+    const queued: QueuedRequest = {
+      headers: {},
+      ...request,
+      id: this.nextId++,
+      createdAt: Date.now(),
+      userId: this.userId,
+      status: 'pending',
+    };
+    await this.store.put(queued);
+    this.setState({ requests: [...this.state.requests, queued] });
+    return queued;
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.store.delete(id);
+    this.setState({
+      requests: this.state.requests.filter(request => request.id !== id),
+    });
+  }
+
+  // Drops every queued request, e.g. when the user signs out
+  async clear(): Promise<void> {
+    this.clearRetry();
+    await this.load();
+    await Promise.all(
+      this.state.requests.map(request => this.store.delete(request.id))
+    );
+    this.setState({ requests: [] });
+  }
+
+  // Settles a parked conflict, e.g. from a "keep mine / discard" prompt
+  async resolve(id: number, resolution: ConflictResolution): Promise<void> {
+    const request = this.state.requests.find(entry => entry.id === id);
+    if (!request) return;
+
+    if (resolution.action === 'discard') {
+      await this.remove(id);
+    } else if (resolution.action === 'retry') {
+      await this.update({
+        ...request,
+        ...('body' in resolution ? { body: resolution.body } : {}),
+        status: 'pending',
+        error: undefined,
+      });
+      await this.replay();
+    }
+  }
+
+  // Sends pending requests one at a time, oldest first
+  replay(): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.runReplay().finally(() => {
+        this.replayPromise = null;
+        this.setState({ isReplaying: false });
+      });
+    }
+    return this.replayPromise;
+  }
+
+  // Private methods
+  private async runReplay(): Promise<void> {
+    await this.load();
+    if (!this.transport || !isOnline()) return;
+
+    this.setState({ isReplaying: true });
+
+    // Re-read the queue each time so requests added mid-replay are included
+    let request: QueuedRequest | undefined;
+    while (
+      (request = this.state.requests.find(
+        ({ status, userId = null }) =>
+          status === 'pending' && userId === this.userId
+      ))
+    ) {
+      const outcome = await this.send(request);
+      if (outcome === 'transient') {
+        this.scheduleRetry();
+        return;
+      }
+      if (outcome === 'unauthorized') return;
+      if (outcome === 'sent') continue;
+
+      const error = outcome;
+      const resolution = this.conflictResolver
+        ? await this.conflictResolver(request, error)
+        : { action: 'keep' as const };
+
+      if (resolution.action === 'discard') {
+        await this.remove(request.id);
+        continue;
+      }
+
+      const retried =
+        resolution.action === 'retry'
+          ? await this.send({
+              ...request,
+              ...('body' in resolution ? { body: resolution.body } : {}),
+            })
+          : error;
+      if (retried === 'transient') {
+        this.scheduleRetry();
+        return;
+      }
+      if (retried === 'unauthorized') return;
+      if (retried === 'sent') continue;
+
+      // Unresolved: park it and move on so one conflict doesn't block the rest
+      await this.update({
+        ...request,
+        status: 'conflict',
+        error: {
+          message: retried.message,
+          status: retried.status,
+          code: retried.code,
+        },
+      });
+    }
+    this.retryAttempt = 0;
+  }
+
+  // The browser can report being online while the server is unreachable, so
+  // transient failures don't wait for the next 'online' event
+  private scheduleRetry(): void {
+    this.clearRetry();
+    const delay = Math.min(
+      RETRY_MAX_DELAY,
+      RETRY_BASE_DELAY * 2 ** this.retryAttempt
+    );
+    this.retryAttempt += 1;
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      this.replay().catch(() => {});
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  private async send(
+    request: QueuedRequest
+  ): Promise<'sent' | 'transient' | 'unauthorized' | ApiClientError> {
+    try {
+      await this.transport!(request);
+      await this.remove(request.id);
+      return 'sent';
+    } catch (error) {
+      const apiError = error as ApiClientError;
+      if (isTransientError(apiError)) return 'transient';
+      return isUnauthorizedError(apiError) ? 'unauthorized' : apiError;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.store.getAll().then(stored => {
+        const requests = stored.sort((a, b) => a.id - b.id);
+        this.nextId = Math.max(0, ...requests.map(({ id }) => id)) + 1;
+        this.setState({ requests });
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async update(request: QueuedRequest): Promise<void> {
+    await this.store.put(request);
+    this.setState({
+      requests: this.state.requests.map(entry =>
+        entry.id === request.id ? request : entry
+      ),
+    });
+  }
+
+  private setState(patch: Partial<OfflineQueueState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create default offline queue instance
+export const offlineQueue = new OfflineQueue();
+
+// Export types
+export type {
+  ConflictResolution,
+  ConflictResolver,
+  NewQueuedRequest,
+  OfflineQueueState,
+  QueuedMethod,
+  QueuedRequest,
+  QueuedRequestStatus,
+  QueueStore,
+  QueueTransport,
+};
+export { OfflineQueue, createMemoryStore };
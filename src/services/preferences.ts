@@ -0,0 +1,224 @@
+import { API_ENDPOINTS, APP_CONSTANTS, STORAGE_KEYS } from '@/constants';
+import { apiClient } from '@/services/api';
+import { SyncedPreferences, UserPreferences } from '@/types';
+import { debounce, storage } from '@/utils';
+
+// Preferences types
+type PreferencesPatch = Partial<Omit<UserPreferences, 'notifications'>> & {
+  notifications?: Partial<UserPreferences['notifications']>;
+};
+
+// 'local' while signed out: changes only apply to this browser
+type PreferencesSyncStatus = 'local' | 'syncing' | 'synced' | 'error';
+
+interface PreferencesState extends SyncedPreferences {
+  syncStatus: PreferencesSyncStatus;
+}
+
+// Loads and saves the signed-in user's preferences; provided by the API
+// by default and swapped out in tests
+interface PreferencesTransport {
+  fetch(): Promise<SyncedPreferences | null>;
+  save(value: SyncedPreferences): Promise<SyncedPreferences>;
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
+  language: 'en',
+  locale: 'en-US',
+  notifications: {
+    inApp: true,
+    email: true,
+    push: false,
+  },
+  pageSize: APP_CONSTANTS.DEFAULT_PAGE_SIZE,
+};
+
+const apiTransport: PreferencesTransport = {
+  fetch: () =>
+    apiClient.get<SyncedPreferences | null>(API_ENDPOINTS.AUTH.PREFERENCES),
+  save: value =>
+    apiClient.put<SyncedPreferences>(API_ENDPOINTS.AUTH.PREFERENCES, value),
+};
+
+// Fills in preferences added since the value was saved
+const withDefaults = (
+  preferences: Partial<UserPreferences> = {}
+): UserPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...preferences,
+  notifications: {
+    ...DEFAULT_PREFERENCES.notifications,
+    ...preferences.notifications,
+  },
+});
+
+// Each user keeps their own copy; signed-out preferences go under the bare
+// key
+const storageKeyFor = (userId: string | null) =>
+  userId
+    ? `${STORAGE_KEYS.USER_PREFERENCES}:${userId}`
+    : STORAGE_KEYS.USER_PREFERENCES;
+
+// Whose copy was in use when the page was last open, so a reload starts from
+// it instead of waiting for the profile request
+const ACTIVE_USER_KEY = `${STORAGE_KEYS.USER_PREFERENCES}:active`;
+
+const loadStored = (userId: string | null): SyncedPreferences | null => {
+  const stored = storage.get<SyncedPreferences>(storageKeyFor(userId));
+  return stored
+    ? {
+        preferences: withDefaults(stored.preferences),
+        updatedAt: stored.updatedAt ?? 0,
+      }
+    : null;
+};
+
+// Preferences live in localStorage so they apply before anyone signs in, and
+// follow the user across devices once they do. When both copies changed,
+// the most recently updated one wins.
+class PreferencesStore {
+  private transport: PreferencesTransport;
+  private state: PreferencesState;
+  private listeners = new Set<() => void>();
+  // Whose copy is in use; signed-in users keep it while their session is
+  // being restored
+  private userId: string | null = null;
+  private isConnected = false;
+  private pushDebounced = debounce(() => {
+    this.push().catch(() => {});
+  }, APP_CONSTANTS.DEBOUNCE_DELAY);
+
+  constructor(transport: PreferencesTransport = apiTransport) {
+    this.transport = transport;
+    this.userId = storage.get<string>(ACTIVE_USER_KEY);
+    this.state = {
+      ...(loadStored(this.userId) ??
+        loadStored(null) ?? { preferences: withDefaults(), updatedAt: 0 }),
+      syncStatus: 'local',
+    };
+  }
+
+  // Subscriptions
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): PreferencesState {
+    return this.state;
+  }
+
+  getPreferences(): UserPreferences {
+    return this.state.preferences;
+  }
+
+  // Updates
+  update(patch: PreferencesPatch): void {
+    const { preferences } = this.state;
+    this.save({
+      preferences: {
+        ...preferences,
+        ...patch,
+        notifications: { ...preferences.notifications, ...patch.notifications },
+      },
+      updatedAt: Date.now(),
+    });
+    if (this.isConnected) {
+      this.pushDebounced();
+    }
+  }
+
+  reset(): void {
+    this.update(DEFAULT_PREFERENCES);
+  }
+
+  // Server sync, started when a user signs in: switches to their copy on
+  // this device. Without one, the signed-out preferences carry over but
+  // count as oldest, so they only reach the server when it has none.
+  async startSync(userId: string): Promise<void> {
+    this.pushDebounced.cancel();
+    this.userId = userId;
+    this.isConnected = true;
+    storage.set(ACTIVE_USER_KEY, userId);
+    this.setState({
+      ...(loadStored(userId) ?? {
+        preferences: this.state.preferences,
+        updatedAt: 0,
+      }),
+      syncStatus: 'syncing',
+    });
+    try {
+      const remote = await this.transport.fetch();
+      if (!this.isSyncing(userId)) return;
+
+      if (remote && remote.updatedAt >= this.state.updatedAt) {
+        this.save({
+          preferences: withDefaults(remote.preferences),
+          updatedAt: remote.updatedAt,
+        });
+        this.setState({ syncStatus: 'synced' });
+      } else {
+        await this.push();
+      }
+    } catch {
+      if (this.isSyncing(userId)) this.setState({ syncStatus: 'error' });
+    }
+  }
+
+  // Keeps the current preferences on this device after signing out
+  stopSync(): void {
+    const { preferences, updatedAt } = this.state;
+    this.userId = null;
+    this.isConnected = false;
+    this.pushDebounced.cancel();
+    storage.remove(ACTIVE_USER_KEY);
+    this.save({ preferences, updatedAt });
+    this.setState({ syncStatus: 'local' });
+  }
+
+  // Private methods
+  private async push(): Promise<void> {
+    const { userId } = this;
+    const { preferences, updatedAt } = this.state;
+    this.setState({ syncStatus: 'syncing' });
+    try {
+      await this.transport.save({ preferences, updatedAt });
+      // Newer changes may have been made while the request was in flight
+      if (this.isSyncing(userId) && this.state.updatedAt === updatedAt) {
+        this.setState({ syncStatus: 'synced' });
+      }
+    } catch (error) {
+      if (this.isSyncing(userId)) this.setState({ syncStatus: 'error' });
+      throw error;
+    }
+  }
+
+  private isSyncing(userId: string | null): boolean {
+    return this.isConnected && this.userId === userId;
+  }
+
+  private save(value: SyncedPreferences): void {
+    storage.set(storageKeyFor(this.userId), value);
+    this.setState(value);
+  }
+
+  private setState(patch: Partial<PreferencesState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create default preferences store instance
+export const preferencesStore = new PreferencesStore();
+
+// Export types
+export type {
+  PreferencesPatch,
+  PreferencesState,
+  PreferencesSyncStatus,
+  PreferencesTransport,
+};
+export { PreferencesStore };
@@ -0,0 +1,346 @@
+import { ApiClientError } from '@/services/api';
+import { getErrorMessage } from '@/utils';
+
+// Query cache types
+type QueryKey = string;
+// The signal aborts when the entry is removed while the request is in flight
+type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+type QueryKeyMatcher = QueryKey | ((key: QueryKey) => boolean);
+
+type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: ApiClientError | null;
+  status: QueryStatus;
+  isFetching: boolean;
+  updatedAt: number;
+  isInvalidated: boolean;
+}
+
+interface QueryOptions {
+  // How long fetched data counts as fresh, in ms
+  staleTime?: number;
+  // How long unused data stays in memory after its last subscriber leaves, in ms
+  cacheTime?: number;
+  refetchOnWindowFocus?: boolean;
+  refetchOnReconnect?: boolean;
+}
+
+interface FetchQueryOptions extends QueryOptions {
+  // Fetch even when the cached data is still fresh
+  force?: boolean;
+}
+
+interface QueryEntry<T = unknown> {
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  fetcher: QueryFetcher<T> | null;
+  listeners: Set<() => void>;
+  gcTimeout: ReturnType<typeof setTimeout> | null;
+  options: Required<QueryOptions>;
+}
+
+const defaultQueryOptions: Required<QueryOptions> = {
+  staleTime: 0,
+  cacheTime: 5 * 60 * 1000, // 5 minutes
+  refetchOnWindowFocus: true,
+  refetchOnReconnect: true,
+};
+
+// Shared snapshot for keys that have never been fetched
+const IDLE_STATE: QueryState<never> = Object.freeze({
+  data: undefined,
+  error: null,
+  status: 'idle',
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+});
+
+const toApiClientError = (error: unknown): ApiClientError =>
+  error instanceof ApiClientError
+    ? error
+    : new ApiClientError(getErrorMessage(error), 0, 'UNKNOWN_ERROR');
+
+// A string matcher hits the exact key and any key nested under it, so
+// invalidating '/users' also covers '/users?page=2' and '/users/42'.
+const matchesKey = (matcher: QueryKeyMatcher, key: QueryKey): boolean => {
+  if (typeof matcher === 'function') return matcher(key);
+  return (
+    key === matcher ||
+    key.startsWith(`${matcher}?`) ||
+    key.startsWith(`${matcher}/`)
+  );
+};
+
+class QueryCache {
+  private entries = new Map<QueryKey, QueryEntry>();
+  private defaults: Required<QueryOptions>;
+
+  constructor(defaults: QueryOptions = {}) {
+    this.defaults = { ...defaultQueryOptions, ...defaults };
+  }
+
+  // Subscriptions
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getOrCreateEntry(key);
+    entry.listeners.add(listener);
+    this.cancelGc(entry);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleGc(key, entry);
+      }
+    };
+  }
+
+  // Reading and writing
+  getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(key) as QueryEntry<T> | undefined;
+    return entry ? entry.state : IDLE_STATE;
+  }
+
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  setQueryData<T>(
+    key: QueryKey,
+    updater: T | undefined | ((current: T | undefined) => T | undefined)
+  ): void {
+    const entry = this.getOrCreateEntry<T>(key);
+    const data =
+      typeof updater === 'function'
+        ? (updater as (current: T | undefined) => T | undefined)(
+            entry.state.data
+          )
+        : updater;
+
+    this.setState(key, {
+      data,
+      error: null,
+      status: data === undefined ? 'idle' : 'success',
+      updatedAt: Date.now(),
+      isInvalidated: false,
+    });
+    if (entry.listeners.size === 0) {
+      this.scheduleGc(key, entry);
+    }
+  }
+
+  isStale(key: QueryKey, staleTime?: number): boolean {
+    const entry = this.entries.get(key);
+    if (!entry || entry.state.status !== 'success') return true;
+    if (entry.state.isInvalidated) return true;
+    const freshFor = staleTime ?? entry.options.staleTime;
+    return Date.now() - entry.state.updatedAt >= freshFor;
+  }
+
+  // Fetching
+  fetchQuery<T>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    options: FetchQueryOptions = {}
+  ): Promise<T> {
+    const { force = false, ...queryOptions } = options;
+    const entry = this.getOrCreateEntry<T>(key);
+    entry.fetcher = fetcher;
+    entry.options = { ...entry.options, ...queryOptions };
+
+    // Identical in-flight requests share one network call
+    if (entry.promise) return entry.promise;
+
+    if (!force && !this.isStale(key)) {
+      return Promise.resolve(entry.state.data as T);
+    }
+
+    this.setState(key, {
+      isFetching: true,
+      status: entry.state.status === 'success' ? 'success' : 'loading',
+    });
+
+    const controller = new AbortController();
+    // A fetch that was aborted by remove() must not write its result back
+    const isCurrent = () => entry.promise === promise;
+    const promise: Promise<T> = fetcher(controller.signal)
+      .then(data => {
+        if (!isCurrent()) return data;
+        this.setState(key, {
+          data,
+          error: null,
+          status: 'success',
+          isFetching: false,
+          updatedAt: Date.now(),
+          isInvalidated: false,
+        });
+        return data;
+      })
+      .catch((error: unknown) => {
+        const apiError = toApiClientError(error);
+        if (!isCurrent()) throw apiError;
+        this.setState(key, {
+          error: apiError,
+          status: 'error',
+          isFetching: false,
+        });
+        throw apiError;
+      })
+      .finally(() => {
+        if (!isCurrent()) return;
+        entry.promise = null;
+        entry.controller = null;
+        if (entry.listeners.size === 0) {
+          this.scheduleGc(key, entry);
+        }
+      });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    return promise;
+  }
+
+  // Invalidation
+  invalidate(matcher: QueryKeyMatcher): Promise<void> {
+    const refetches: Promise<unknown>[] = [];
+
+    this.entries.forEach((entry, key) => {
+      if (!matchesKey(matcher, key)) return;
+
+      this.setState(key, { isInvalidated: true });
+      // Only queries somebody is looking at are refetched right away
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        refetches.push(
+          this.fetchQuery(key, entry.fetcher, { force: true }).catch(() => {})
+        );
+      }
+    });
+
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  // Drops cached data and aborts requests still in flight, so nothing
+  // fetched before the removal is written back
+  remove(matcher: QueryKeyMatcher): void {
+    this.entries.forEach((entry, key) => {
+      if (!matchesKey(matcher, key)) return;
+      this.cancelGc(entry);
+      entry.controller?.abort();
+      entry.controller = null;
+      entry.promise = null;
+      entry.state = IDLE_STATE;
+      entry.listeners.forEach(listener => listener());
+      if (entry.listeners.size === 0) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  clear(): void {
+    this.remove(() => true);
+  }
+
+  // Refetch stale, observed queries, e.g. when the window regains focus
+  refetchActive(
+    trigger: 'refetchOnWindowFocus' | 'refetchOnReconnect'
+  ): Promise<void> {
+    const refetches: Promise<unknown>[] = [];
+
+    this.entries.forEach((entry, key) => {
+      if (
+        entry.listeners.size > 0 &&
+        entry.fetcher &&
+        entry.options[trigger] &&
+        entry.state.status !== 'idle' &&
+        this.isStale(key)
+      ) {
+        refetches.push(this.fetchQuery(key, entry.fetcher).catch(() => {}));
+      }
+    });
+
+    return Promise.all(refetches).then(() => undefined);
+  }
+
+  // Wire focus/reconnect refetching to browser events
+  attachWindowListeners(): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const handleFocus = () => {
+      if (document.visibilityState !== 'hidden') {
+        this.refetchActive('refetchOnWindowFocus');
+      }
+    };
+    const handleOnline = () => {
+      this.refetchActive('refetchOnReconnect');
+    };
+
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+      window.removeEventListener('online', handleOnline);
+    };
+  }
+
+  // Private methods
+  private getOrCreateEntry<T>(key: QueryKey): QueryEntry<T> {
+    let entry = this.entries.get(key) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = {
+        state: IDLE_STATE,
+        promise: null,
+        controller: null,
+        fetcher: null,
+        listeners: new Set(),
+        gcTimeout: null,
+        options: { ...this.defaults },
+      };
+      this.entries.set(key, entry as QueryEntry);
+    }
+    return entry;
+  }
+
+  private setState<T>(key: QueryKey, patch: Partial<QueryState<T>>): void {
+    const entry = this.getOrCreateEntry<T>(key);
+    // Always replace the state object so subscribers see a new snapshot
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleGc(key: QueryKey, entry: QueryEntry): void {
+    this.cancelGc(entry);
+    entry.gcTimeout = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise) {
+        this.entries.delete(key);
+      }
+    }, entry.options.cacheTime);
+  }
+
+  private cancelGc(entry: QueryEntry): void {
+    if (entry.gcTimeout) {
+      clearTimeout(entry.gcTimeout);
+      entry.gcTimeout = null;
+    }
+  }
+}
+
+// Create default query cache instance
+export const queryCache = new QueryCache();
+queryCache.attachWindowListeners();
+
+// Export types
+export type {
+  QueryKey,
+  QueryFetcher,
+  QueryKeyMatcher,
+  QueryState,
+  QueryStatus,
+  QueryOptions,
+  FetchQueryOptions,
+};
+export { QueryCache };
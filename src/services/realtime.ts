@@ -0,0 +1,418 @@
+import { env } from '@/config/env';
+import { API_ENDPOINTS, HTTP_STATUS } from '@/constants';
+import { apiClient, ApiClientError } from '@/services/api';
+import { tokenStorage } from '@/services/tokenStorage';
+
+// Realtime types
+type RealtimeTransport = 'websocket' | 'sse';
+
+type RealtimeStatus =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'closed';
+
+interface RealtimeState {
+  status: RealtimeStatus;
+  transport: RealtimeTransport | null;
+  // Failed attempts since the connection was last open
+  attempt: number;
+}
+
+// Frames sent over a WebSocket. SSE can't send, so it carries a ticket and
+// the topics in its URL instead.
+type ClientFrame =
+  | { type: 'auth'; token: string | null }
+  | { type: 'subscribe'; topic: string }
+  | { type: 'unsubscribe'; topic: string };
+
+// The server answers a valid token with 'ready' before publishing anything
+type ServerFrame =
+  | { type: 'ready' }
+  | { type: 'message'; topic: string; data: unknown }
+  | { type: 'error'; code: string; message?: string };
+
+interface RealtimeOptions {
+  // http(s) URL of the realtime endpoint; SSE is served from its /events path
+  url: string;
+  // Tried in order; a transport that fails before opening falls through to
+  // the next one until connect() is called again
+  transports: RealtimeTransport[];
+  // Delay before the first reconnect, doubled for each further attempt (ms)
+  baseDelay: number;
+  maxDelay: number;
+  getToken: () => string | null;
+  // Exchanges the session for a short-lived, single-use ticket for the SSE
+  // URL, so the access token stays out of server logs and browser history
+  getTicket: () => Promise<string>;
+  // Renews the access token after the server rejects it; false ends the session
+  refreshToken: () => Promise<boolean>;
+}
+
+type TopicHandler<T = unknown> = (data: T) => void;
+
+interface Connection {
+  send(frame: ClientFrame): void;
+  close(): void;
+}
+
+interface ConnectionHandlers {
+  onOpen(): void;
+  onFrame(frame: ServerFrame): void;
+  onClose(code?: number): void;
+}
+
+// WebSocket close code (and SSE error code) for a rejected access token
+export const UNAUTHORIZED_CLOSE_CODE = 4401;
+const UNAUTHORIZED_ERROR_CODE = 'UNAUTHORIZED';
+
+const defaultOptions: RealtimeOptions = {
+  url: env.REALTIME_URL,
+  transports: ['websocket', 'sse'],
+  baseDelay: 1000,
+  maxDelay: 30000,
+  // The same token the API request interceptor sends
+  getToken: () => tokenStorage.getAccessToken(),
+  getTicket: async () => {
+    const { ticket } = await apiClient.post<{ ticket: string }>(
+      API_ENDPOINTS.REALTIME.TICKETS,
+      undefined,
+      { skipErrorInterceptors: true, notifyOnError: false }
+    );
+    return ticket;
+  },
+  refreshToken: () => apiClient.refreshAccessToken(),
+};
+
+const parseFrame = (data: unknown): ServerFrame | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const frame = JSON.parse(data);
+    return frame && typeof frame.type === 'string' ? frame : null;
+  } catch {
+    return null;
+  }
+};
+
+const openWebSocket = (
+  url: string,
+  token: string | null,
+  handlers: ConnectionHandlers
+): Connection => {
+  const target = new URL(url, window.location.origin);
+  target.protocol = target.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(target.href);
+  const send = (frame: ClientFrame) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  };
+
+  socket.onopen = () => {
+    // Browsers can't set headers on a WebSocket, so the token is the
+    // first frame rather than part of the URL
+    send({ type: 'auth', token });
+    handlers.onOpen();
+  };
+  socket.onmessage = event => {
+    const frame = parseFrame(event.data);
+    if (frame) handlers.onFrame(frame);
+  };
+  socket.onclose = event => handlers.onClose(event.code);
+
+  return {
+    send,
+    close: () => {
+      socket.onopen = socket.onmessage = socket.onclose = null;
+      socket.close();
+    },
+  };
+};
+
+const openEventSource = (
+  url: string,
+  getTicket: () => Promise<string>,
+  topics: string[],
+  handlers: ConnectionHandlers
+): Connection => {
+  let source: EventSource | null = null;
+  let isClosed = false;
+
+  const open = (ticket: string) => {
+    const target = new URL(
+      `${url.replace(/\/$/, '')}/events`,
+      window.location.origin
+    );
+    target.searchParams.set('topics', topics.join(','));
+    target.searchParams.set('ticket', ticket);
+    source = new EventSource(target.href);
+
+    source.onopen = () => handlers.onOpen();
+    source.onmessage = event => {
+      const frame = parseFrame(event.data);
+      if (frame) handlers.onFrame(frame);
+    };
+    // EventSource retries on its own, and its ticket is single-use; closing
+    // it keeps backoff and token renewal in one place
+    source.onerror = () => {
+      source?.close();
+      handlers.onClose();
+    };
+  };
+
+  getTicket().then(
+    ticket => {
+      if (!isClosed) open(ticket);
+    },
+    (error: unknown) => {
+      if (isClosed) return;
+      const isUnauthorized =
+        error instanceof ApiClientError &&
+        error.status === HTTP_STATUS.UNAUTHORIZED;
+      handlers.onClose(isUnauthorized ? UNAUTHORIZED_CLOSE_CODE : undefined);
+    }
+  );
+
+  return {
+    send: () => {},
+    close: () => {
+      isClosed = true;
+      if (!source) return;
+      source.onopen = source.onmessage = source.onerror = null;
+      source.close();
+    },
+  };
+};
+
+// Live updates from the backend, published on named topics. Keeps one
+// connection open while signed in, over WebSocket or, where that is blocked,
+// server-sent events, and reconnects with exponential backoff.
+class RealtimeClient {
+  private options: RealtimeOptions;
+  private state: RealtimeState = {
+    status: 'idle',
+    transport: null,
+    attempt: 0,
+  };
+  private listeners = new Set<() => void>();
+  private topics = new Map<string, Set<TopicHandler>>();
+  private connection: Connection | null = null;
+  private transportIndex = 0;
+  private shouldConnect = false;
+  // Set once the token has been renewed for the current attempt, so a server
+  // that keeps rejecting it doesn't cause a refresh loop
+  private hasRefreshedToken = false;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reopenScheduled = false;
+
+  constructor(options: Partial<RealtimeOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  // Subscriptions
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): RealtimeState {
+    return this.state;
+  }
+
+  // Connection lifecycle
+  connect(): void {
+    if (this.shouldConnect) return;
+    this.shouldConnect = true;
+    this.transportIndex = 0;
+    this.hasRefreshedToken = false;
+    window.addEventListener('online', this.handleOnline);
+    this.open();
+  }
+
+  disconnect(): void {
+    this.shouldConnect = false;
+    window.removeEventListener('online', this.handleOnline);
+    this.clearReconnect();
+    this.closeConnection();
+    this.setState({ status: 'closed', transport: null, attempt: 0 });
+  }
+
+  // Topic subscriptions outlive the connection and are renewed whenever it
+  // reopens. Returns a function that unsubscribes the handler.
+  subscribeTopic<T = unknown>(
+    topic: string,
+    handler: TopicHandler<T>
+  ): () => void {
+    let handlers = this.topics.get(topic);
+    if (!handlers) {
+      handlers = new Set();
+      this.topics.set(topic, handlers);
+      this.topicsChanged({ type: 'subscribe', topic });
+    }
+    handlers.add(handler as TopicHandler);
+
+    return () => {
+      const current = this.topics.get(topic);
+      if (!current?.delete(handler as TopicHandler) || current.size > 0) {
+        return;
+      }
+      this.topics.delete(topic);
+      this.topicsChanged({ type: 'unsubscribe', topic });
+    };
+  }
+
+  // Private methods
+  private open(): void {
+    const transport = this.options.transports[this.transportIndex];
+    let opened = false;
+
+    const handlers: ConnectionHandlers = {
+      onOpen: () => {
+        opened = true;
+      },
+      onFrame: frame => this.handleFrame(frame),
+      onClose: code => {
+        this.connection = null;
+        if (!this.shouldConnect) return;
+        if (code === UNAUTHORIZED_CLOSE_CODE) {
+          this.renewToken();
+        } else if (
+          !opened &&
+          this.transportIndex < this.options.transports.length - 1
+        ) {
+          this.transportIndex += 1;
+          this.open();
+        } else {
+          this.scheduleReconnect();
+        }
+      },
+    };
+
+    this.setState({
+      status: this.state.attempt > 0 ? 'reconnecting' : 'connecting',
+      transport,
+    });
+    try {
+      this.connection =
+        transport === 'websocket'
+          ? openWebSocket(this.options.url, this.options.getToken(), handlers)
+          : openEventSource(
+              this.options.url,
+              this.options.getTicket,
+              [...this.topics.keys()],
+              handlers
+            );
+    } catch {
+      // The transport isn't available in this browser
+      handlers.onClose();
+    }
+  }
+
+  private handleFrame(frame: ServerFrame): void {
+    if (frame.type === 'ready') {
+      this.hasRefreshedToken = false;
+      this.setState({ status: 'open', attempt: 0 });
+      this.topics.forEach((_, topic) =>
+        this.connection?.send({ type: 'subscribe', topic })
+      );
+    } else if (frame.type === 'message') {
+      this.topics.get(frame.topic)?.forEach(handler => handler(frame.data));
+    } else if (frame.code === UNAUTHORIZED_ERROR_CODE) {
+      this.closeConnection();
+      this.renewToken();
+    } else if (env.ENABLE_DEBUG) {
+      console.error('Realtime error:', frame);
+    }
+  }
+
+  private async renewToken(): Promise<void> {
+    const refreshed =
+      !this.hasRefreshedToken && (await this.options.refreshToken());
+    if (!this.shouldConnect) return;
+
+    if (refreshed) {
+      this.hasRefreshedToken = true;
+      this.open();
+    } else {
+      this.disconnect();
+    }
+  }
+
+  private topicsChanged(frame: ClientFrame): void {
+    if (!this.connection) return;
+    if (this.state.transport === 'websocket') {
+      // Until the server is ready, the topics are sent with the 'ready'
+      // handling instead
+      if (this.state.status === 'open') this.connection.send(frame);
+      return;
+    }
+
+    // SSE topics are part of the URL, so reopen once the current batch of
+    // subscription changes is done
+    if (this.reopenScheduled) return;
+    this.reopenScheduled = true;
+    setTimeout(() => {
+      this.reopenScheduled = false;
+      if (!this.connection) return;
+      this.closeConnection();
+      this.open();
+    }, 0);
+  }
+
+  private scheduleReconnect(): void {
+    const attempt = this.state.attempt + 1;
+    // Full backoff with jitter, the same curve as API retries
+    const backoff = Math.min(
+      this.options.maxDelay,
+      this.options.baseDelay * 2 ** (attempt - 1)
+    );
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    this.setState({ status: 'reconnecting', attempt });
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, delay);
+  }
+
+  private handleOnline = () => {
+    if (!this.reconnectTimeout) return;
+    this.clearReconnect();
+    this.open();
+  };
+
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private closeConnection(): void {
+    this.connection?.close();
+    this.connection = null;
+  }
+
+  private setState(patch: Partial<RealtimeState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Create default realtime client instance
+export const realtime = new RealtimeClient();
+
+// Export types
+export type {
+  ClientFrame,
+  RealtimeOptions,
+  RealtimeState,
+  RealtimeStatus,
+  RealtimeTransport,
+  ServerFrame,
+  TopicHandler,
+};
+export { RealtimeClient };
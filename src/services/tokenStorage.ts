@@ -0,0 +1,62 @@
+import { STORAGE_KEYS } from '@/constants';
+import { AuthTokens } from '@/types';
+
+// Tokens live in localStorage when the user asked to be remembered and in
+// sessionStorage otherwise, so they disappear with the browser session.
+const getStores = (): Storage[] => [localStorage, sessionStorage];
+
+const readToken = (key: string): string | null => {
+  for (const store of getStores()) {
+    try {
+      const value = store.getItem(key);
+      if (value) return value;
+    } catch {
+      // Storage can be unavailable (private mode, disabled cookies)
+    }
+  }
+  return null;
+};
+
+// Whether the current session was stored with "remember me"
+const isPersistent = (): boolean => {
+  try {
+    return Boolean(localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN));
+  } catch {
+    return false;
+  }
+};
+
+const clearTokens = (): void => {
+  for (const store of getStores()) {
+    try {
+      store.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+      store.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+    } catch {
+      // Nothing to clear if storage is unavailable
+    }
+  }
+};
+
+export const tokenStorage = {
+  getAccessToken: (): string | null => readToken(STORAGE_KEYS.AUTH_TOKEN),
+
+  getRefreshToken: (): string | null => readToken(STORAGE_KEYS.REFRESH_TOKEN),
+
+  isPersistent,
+
+  setTokens: (
+    tokens: Pick<AuthTokens, 'accessToken' | 'refreshToken'>,
+    persistent = isPersistent()
+  ): void => {
+    clearTokens();
+    const store = persistent ? localStorage : sessionStorage;
+    try {
+      store.setItem(STORAGE_KEYS.AUTH_TOKEN, tokens.accessToken);
+      store.setItem(STORAGE_KEYS.REFRESH_TOKEN, tokens.refreshToken);
+    } catch (error) {
+      console.error('Failed to save auth tokens:', error);
+    }
+  },
+
+  clear: clearTokens,
+};
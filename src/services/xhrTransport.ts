@@ -0,0 +1,94 @@
+// fetch() can't report upload progress, so requests that need it go through
+// XMLHttpRequest. xhrFetch mirrors fetch's contract: it resolves with a
+// Response for any HTTP status, rejects with a TypeError on network failure
+// and with an AbortError when the signal fires.
+
+interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+type UploadProgressHandler = (progress: UploadProgress) => void;
+
+// Statuses that must not carry a body when building a Response
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const parseResponseHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim()
+        );
+      }
+    });
+  return headers;
+};
+
+export function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: UploadProgressHandler
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+
+    new Headers(init.headers).forEach((value, name) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = event => {
+        if (!event.lengthComputable) return;
+        onUploadProgress({
+          loaded: event.loaded,
+          total: event.total,
+          percent: Math.round((event.loaded / event.total) * 100),
+        });
+      };
+    }
+
+    const abort = () => xhr.abort();
+    init.signal?.addEventListener('abort', abort, { once: true });
+    const cleanup = () => init.signal?.removeEventListener('abort', abort);
+
+    xhr.onload = () => {
+      cleanup();
+      const body = NULL_BODY_STATUSES.includes(xhr.status)
+        ? null
+        : (xhr.response as Blob);
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+
+    if (init.signal?.aborted) {
+      xhr.abort();
+      return;
+    }
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
+export type { UploadProgress, UploadProgressHandler };
@@ -0,0 +1,22 @@
+import { afterAll, afterEach, beforeAll } from 'vitest';
+import { handlers, MockServer, MockServerOptions, resetDb } from '@/mocks';
+
+// Installs the mock API for the current test file. Handlers added with
+// server.use() and changes to the in-memory db are reset after each test.
+export function setupMockApi(
+  options: Partial<MockServerOptions> = {}
+): MockServer {
+  const server = new MockServer(handlers, {
+    onUnhandledRequest: 'error',
+    ...options,
+  });
+
+  beforeAll(() => server.listen());
+  afterEach(() => {
+    server.resetHandlers();
+    resetDb();
+  });
+  afterAll(() => server.close());
+
+  return server;
+}
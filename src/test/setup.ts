@@ -16,8 +16,14 @@ vi.mock('@/config/env', () => ({
     NODE_ENV: 'test',
     API_BASE_URL: 'http://localhost:3001/api',
     API_TIMEOUT: 5000,
+    API_RETRY_ATTEMPTS: 3,
     ENABLE_ANALYTICS: false,
     ENABLE_DEBUG: false,
+    ENABLE_OFFLINE_QUEUE: false,
+    ENABLE_MOCK_API: false,
+    ENABLE_ERROR_TOASTS: false,
+    ENABLE_REALTIME: false,
+    REALTIME_URL: 'http://localhost:3001/api/realtime',
   },
   isDevelopment: false,
   isProduction: false,
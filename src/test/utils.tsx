@@ -117,17 +117,7 @@ export const mockApiError = (
 });
 
 // Mock user data
-export const mockUser = {
-  id: '1',
-  email: 'test@example.com',
-  firstName: 'John',
-  lastName: 'Doe',
-  avatar: 'https://example.com/avatar.jpg',
-  role: 'user' as const,
-  isActive: true,
-  createdAt: '2023-01-01T00:00:00Z',
-  updatedAt: '2023-01-01T00:00:00Z',
-};
+export { mockUser } from '@/mocks/fixtures';
 
 // Wait for async operations
 export const waitFor = (ms: number) =>
@@ -31,6 +31,13 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// Cursor-paginated lists return a token for the next page instead of page
+// counts; nextCursor is null on the last page
+export interface CursorPaginatedResponse<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
 // User types
 export interface User {
   id: string;
@@ -44,6 +51,12 @@ export interface User {
   updatedAt: string;
 }
 
+// Fields an admin can set when creating or editing a user
+export type UserInput = Pick<
+  User,
+  'email' | 'firstName' | 'lastName' | 'role' | 'isActive'
+>;
+
 export enum UserRole {
   ADMIN = 'admin',
   USER = 'user',
@@ -70,15 +83,29 @@ export interface RegisterData {
   lastName: string;
 }
 
+export type ProfileUpdate = Pick<User, 'email' | 'firstName' | 'lastName'>;
+
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface AuthResponse {
+  user: User;
+  tokens: AuthTokens;
+}
+
 // Form types
 export interface FormField<T = string> {
   value: T;
   error?: string;
   touched: boolean;
+  // Differs from its initial value
+  dirty?: boolean;
   required?: boolean;
 }
 
-export interface FormState<T extends Record<string, unknown>> {
+export interface FormState<T extends object> {
   fields: {
     [K in keyof T]: FormField<T[K]>;
   };
@@ -102,12 +129,35 @@ export interface LoadingState {
 // Theme types
 export type ThemeMode = 'light' | 'dark' | 'system';
 
+export type TextDirection = 'ltr' | 'rtl';
+
 export interface ThemeConfig {
   mode: ThemeMode;
   primaryColor: string;
   fontFamily: string;
 }
 
+// Preferences types
+export interface UserPreferences {
+  theme: ThemeMode;
+  language: string;
+  // Formats dates and numbers, e.g. 'en-GB'
+  locale: string;
+  notifications: {
+    inApp: boolean;
+    email: boolean;
+    push: boolean;
+  };
+  // Rows per page for paginated lists
+  pageSize: number;
+}
+
+// Preferences as stored locally and on the server; the newer copy wins
+export interface SyncedPreferences {
+  preferences: UserPreferences;
+  updatedAt: number;
+}
+
 // Route types
 export interface RouteConfig {
   path: string;
@@ -117,30 +167,67 @@ export interface RouteConfig {
   roles?: UserRole[];
   title?: string;
   description?: string;
+  // Render inside AppLayout (defaults to true)
+  withLayout?: boolean;
 }
 
 // Table types
+export type SortDirection = 'asc' | 'desc';
+
 export interface TableColumn<T = unknown> {
+  // Property of the record, or a dotted path such as 'owner.name'
   key: keyof T | string;
   title: string;
   sortable?: boolean;
   filterable?: boolean;
   render?: (value: unknown, record: T) => React.ReactNode;
   width?: number | string;
+  minWidth?: number;
+  resizable?: boolean;
+  // Derive the cell value instead of reading record[key]
+  accessor?: (record: T) => unknown;
+  // Custom ordering for client-side sorting
+  compare?: (a: T, b: T) => number;
+  // Filter with a select of these values instead of a text search
+  filterOptions?: { value: string; label: string }[];
+}
+
+export interface TableBulkAction<T = unknown> {
+  label: string;
+  color?: string;
+  icon?: React.ReactNode;
+  onClick: (records: T[]) => void | Promise<void>;
 }
 
 export interface TableProps<T = unknown> {
   data: T[];
   columns: TableColumn<T>[];
   loading?: boolean;
+  // Unique id of a record (defaults to record.id)
+  rowKey?: keyof T | ((record: T) => string | number);
+  // 'client' sorts, filters and paginates data locally; 'server' only
+  // reports changes through onSort/onFilter/pagination.onChange
+  mode?: 'client' | 'server';
   pagination?: {
     current: number;
     pageSize: number;
     total: number;
     onChange: (page: number, pageSize: number) => void;
   };
-  onSort?: (key: string, direction: 'asc' | 'desc') => void;
+  onSort?: (key: string, direction: SortDirection) => void;
   onFilter?: (filters: Record<string, unknown>) => void;
+  defaultSort?: { key: string; direction: SortDirection };
+  selectable?: boolean;
+  onSelectionChange?: (records: T[]) => void;
+  bulkActions?: TableBulkAction<T>[];
+  onRowClick?: (record: T) => void;
+  // Scroll height of the table body; the header stays visible while scrolling
+  height?: number;
+  stickyHeader?: boolean;
+  // Only render rows in view (defaults to on for large, unpaginated data)
+  virtualized?: boolean;
+  rowHeight?: number;
+  emptyMessage?: string;
 }
 
 // Notification types
@@ -154,8 +241,39 @@ export interface NotificationConfig {
     label: string;
     onClick: () => void;
   };
+  // Also keep it in the notification center history
+  persist?: boolean;
+}
+
+// Entry in the notification center history
+export interface AppNotification {
+  id: string;
+  type: NotificationConfig['type'];
+  title: string;
+  message?: string;
+  // ISO timestamp
+  createdAt: string;
+  read: boolean;
+  // Raised in this browser or delivered by the server
+  source: 'local' | 'server';
 }
 
+// Live service health shown on the dashboard
+export interface SystemStatus {
+  status: 'operational' | 'degraded' | 'down';
+  activeUsers: number;
+  requestsPerMinute: number;
+  // Share of failed requests, 0-1
+  errorRate: number;
+  // ISO timestamp
+  updatedAt: string;
+}
+
+// Notification as delivered by the server
+export type ServerNotification = Omit<AppNotification, 'read' | 'source'> & {
+  read?: boolean;
+};
+
 // File upload types
 export interface FileUploadConfig {
   maxSize: number;
@@ -165,6 +283,15 @@ export interface FileUploadConfig {
   onError?: (error: string) => void;
 }
 
+// A file stored through API_ENDPOINTS.UPLOADS
+export interface UploadedFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  createdAt: string;
+}
+
 // Search and filter types
 export interface SearchFilters {
   query?: string;
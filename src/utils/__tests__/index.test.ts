@@ -5,6 +5,7 @@ import {
   slugify,
   formatCurrency,
   formatNumber,
+  formatFileSize,
   formatDate,
   formatRelativeTime,
   isToday,
@@ -52,6 +53,12 @@ describe('Number utilities', () => {
     expect(formatNumber(1234567)).toBe('1,234,567');
     expect(formatNumber(1234.56)).toBe('1,234.56');
   });
+
+  it('should format file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB');
+  });
 });
 
 describe('Date utilities', () => {
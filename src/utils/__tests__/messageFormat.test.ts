@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage } from '@/utils/messageFormat';
+
+describe('formatMessage', () => {
+  it('should interpolate values', () => {
+    expect(formatMessage('Hello {name}!', { name: 'Ada' })).toBe('Hello Ada!');
+    expect(formatMessage('{count} items', { count: 1234 })).toBe('1,234 items');
+    expect(formatMessage('Hello {name}')).toBe('Hello {name}');
+  });
+
+  it('should pick plural forms for the locale', () => {
+    const message =
+      '{count, plural, =0 {No files} one {# file} other {# files}}';
+
+    expect(formatMessage(message, { count: 0 })).toBe('No files');
+    expect(formatMessage(message, { count: 1 })).toBe('1 file');
+    expect(formatMessage(message, { count: 2500 })).toBe('2,500 files');
+    expect(formatMessage(message, { count: 2500 }, 'de-DE')).toBe(
+      '2.500 files'
+    );
+  });
+
+  it('should use the plural categories of the locale', () => {
+    // Polish has separate "few" and "many" forms
+    const message =
+      '{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}';
+
+    expect(formatMessage(message, { count: 3 }, 'pl-PL')).toBe('3 pliki');
+    expect(formatMessage(message, { count: 5 }, 'pl-PL')).toBe('5 plików');
+  });
+
+  it('should support select and nesting', () => {
+    const message =
+      '{role, select, admin {{count, plural, one {# admin} other {# admins}}} other {Someone}} signed in';
+
+    expect(formatMessage(message, { role: 'admin', count: 2 })).toBe(
+      '2 admins signed in'
+    );
+    expect(formatMessage(message, { role: 'guest' })).toBe('Someone signed in');
+  });
+
+  it('should treat quoted braces and apostrophes as text', () => {
+    expect(formatMessage("It's '{literal}' and ''quoted''")).toBe(
+      "It's {literal} and 'quoted'"
+    );
+    expect(formatMessage('# is only special in plurals')).toBe(
+      '# is only special in plurals'
+    );
+  });
+
+  it('should reject malformed messages', () => {
+    expect(() => formatMessage('Hello {name')).toThrow();
+    expect(() => formatMessage('{count, plural, one {# file}}')).toThrow(
+      /other/
+    );
+    expect(() => formatMessage('{value, number}')).toThrow(/Unsupported/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { schema } from '@/utils/schema';
+
+describe('schema', () => {
+  const itemSchema = schema.object({
+    id: schema.string(),
+    tags: schema.array(schema.string()),
+    status: schema.oneOf(['draft', 'published'] as const),
+    note: schema.string().optional(),
+    parent: schema.number().nullable(),
+  });
+
+  it('should accept matching values', () => {
+    const value = { id: '1', tags: ['a'], status: 'draft', parent: null };
+    expect(itemSchema.safeParse(value)).toEqual({ success: true, data: value });
+  });
+
+  it('should report every mismatch with its path', () => {
+    const result = itemSchema.safeParse({
+      id: 1,
+      tags: ['a', 2],
+      status: 'archived',
+      parent: undefined,
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual([
+      { path: 'id', message: 'Expected string, received number' },
+      { path: 'tags[1]', message: 'Expected string, received number' },
+      {
+        path: 'status',
+        message: 'Expected one of draft, published, received "archived"',
+      },
+      { path: 'parent', message: 'Expected number, received undefined' },
+    ]);
+  });
+
+  it('should only refine values that already match', () => {
+    const positive = schema.number().refine(n => n > 0, 'Must be positive');
+
+    expect(positive.safeParse(-1)).toMatchObject({
+      issues: [{ path: '', message: 'Must be positive' }],
+    });
+    expect(positive.safeParse('1')).toMatchObject({
+      issues: [{ message: 'Expected number, received string' }],
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildUrlWithParams,
+  parseFilters,
+  serializeFilters,
+} from '@/utils/searchParams';
+
+describe('searchParams', () => {
+  it('should round-trip filters through the query string', () => {
+    const filters = {
+      query: 'john',
+      status: 'active',
+      sortBy: 'email',
+      sortOrder: 'desc' as const,
+      dateRange: {
+        start: new Date(2024, 0, 5),
+        end: new Date(2024, 1, 29),
+      },
+    };
+    const params = serializeFilters(filters);
+
+    expect(params).toEqual({
+      query: 'john',
+      status: 'active',
+      sortBy: 'email',
+      sortOrder: 'desc',
+      startDate: '2024-01-05',
+      endDate: '2024-02-29',
+    });
+    expect(parseFilters(new URLSearchParams(params))).toEqual(filters);
+  });
+
+  it('should drop blank values and a sort order without a sort field', () => {
+    expect(serializeFilters({ query: '  ', sortOrder: 'asc' })).toEqual({});
+    expect(
+      parseFilters(new URLSearchParams('sortOrder=up&startDate=x'))
+    ).toEqual({});
+  });
+
+  it('should append parameters to URLs', () => {
+    expect(buildUrlWithParams('/users', { page: 2, query: '' })).toBe(
+      '/users?page=2'
+    );
+    expect(buildUrlWithParams('/users?tab=all', { page: 2 })).toBe(
+      '/users?tab=all&page=2'
+    );
+    expect(buildUrlWithParams('/users', {})).toBe('/users');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { TableColumn } from '@/types';
+import {
+  compareValues,
+  filterRows,
+  getVisibleRange,
+  sortRows,
+} from '@/utils/table';
+
+interface Row {
+  id: number;
+  name: string;
+  status: string;
+  owner?: { name: string };
+}
+
+const rows: Row[] = [
+  { id: 1, name: 'Item 10', status: 'active', owner: { name: 'Zoe' } },
+  { id: 2, name: 'Item 2', status: 'inactive' },
+  { id: 3, name: 'item 1', status: 'active', owner: { name: 'Adam' } },
+];
+
+const nameColumn: TableColumn<Row> = { key: 'name', title: 'Name' };
+const ownerColumn: TableColumn<Row> = { key: 'owner.name', title: 'Owner' };
+const statusColumn: TableColumn<Row> = {
+  key: 'status',
+  title: 'Status',
+  filterOptions: [
+    { value: 'active', label: 'Active' },
+    { value: 'inactive', label: 'Inactive' },
+  ],
+};
+
+describe('table utilities', () => {
+  it('should compare strings naturally and numbers by value', () => {
+    expect(compareValues('Item 2', 'Item 10')).toBeLessThan(0);
+    expect(compareValues(10, 9)).toBeGreaterThan(0);
+    expect(compareValues(null, 'a')).toBeGreaterThan(0);
+  });
+
+  it('should sort by nested keys and keep empty values last', () => {
+    const ids = (sorted: Row[]) => sorted.map(row => row.id);
+
+    expect(ids(sortRows(rows, nameColumn, 'asc'))).toEqual([3, 2, 1]);
+    expect(ids(sortRows(rows, ownerColumn, 'asc'))).toEqual([3, 1, 2]);
+    expect(ids(sortRows(rows, ownerColumn, 'desc'))).toEqual([1, 3, 2]);
+  });
+
+  it('should filter by text and by exact option values', () => {
+    const columns = [nameColumn, statusColumn];
+
+    expect(filterRows(rows, columns, { name: 'ITEM 1' })).toHaveLength(2);
+    expect(filterRows(rows, columns, { status: 'active' })).toHaveLength(2);
+    expect(
+      filterRows(rows, columns, { name: 'item 1', status: 'active' })
+    ).toHaveLength(2);
+    expect(filterRows(rows, columns, {})).toBe(rows);
+  });
+
+  it('should window rows around the viewport', () => {
+    expect(getVisibleRange(0, 400, 40, 10000)).toEqual({ start: 0, end: 15 });
+    expect(getVisibleRange(4000, 400, 40, 10000)).toEqual({
+      start: 95,
+      end: 115,
+    });
+    expect(getVisibleRange(399800, 400, 40, 10000).end).toBe(10000);
+  });
+});
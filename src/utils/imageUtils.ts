@@ -93,6 +93,51 @@ export const compressImage = (
   });
 };
 
+// Crop the largest centered square out of an image, e.g. for avatars. The
+// result keeps the source resolution; pass it to compressImage to shrink it.
+export const cropImageToSquare = (file: File): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const size = Math.min(img.width, img.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      canvas
+        .getContext('2d')!
+        .drawImage(
+          img,
+          (img.width - size) / 2,
+          (img.height - size) / 2,
+          size,
+          size,
+          0,
+          0,
+          size,
+          size
+        );
+
+      // PNG keeps the crop lossless until the final compression step
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(new File([blob], file.name, { type: blob.type }));
+        } else {
+          reject(new Error('Failed to crop image'));
+        }
+      }, 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
+  });
+};
+
 // Convert image to different formats
 export const convertImageFormat = (
   imageUrl: string,
@@ -23,11 +23,22 @@ export const slugify = (str: string): string => {
   return kebabCase(str);
 };
 
+// Locale utilities
+// The formatters below default to the active locale, which the i18n service
+// sets from the user's language preferences
+let activeLocale = 'en-US';
+
+export const getActiveLocale = (): string => activeLocale;
+
+export const setActiveLocale = (locale: string): void => {
+  activeLocale = locale;
+};
+
 // Number utilities
 export const formatCurrency = (
   amount: number,
   currency = 'USD',
-  locale = 'en-US'
+  locale = getActiveLocale()
 ): string => {
   return new Intl.NumberFormat(locale, {
     style: 'currency',
@@ -35,17 +46,32 @@ export const formatCurrency = (
   }).format(amount);
 };
 
-export const formatNumber = (num: number, locale = 'en-US'): string => {
+export const formatNumber = (
+  num: number,
+  locale = getActiveLocale()
+): string => {
   return new Intl.NumberFormat(locale).format(num);
 };
 
+export const formatFileSize = (bytes: number, decimals = 1): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+  return `${parseFloat(value.toFixed(decimals))} ${units[unitIndex]}`;
+};
+
 export const clamp = _clamp;
 
 // Date utilities
 export const formatDate = (
   date: Date | string,
   options: Intl.DateTimeFormatOptions = {},
-  locale = 'en-US'
+  locale = getActiveLocale()
 ): string => {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
   return new Intl.DateTimeFormat(locale, {
@@ -56,18 +82,39 @@ export const formatDate = (
   }).format(dateObj);
 };
 
-export const formatRelativeTime = (date: Date | string): string => {
+// Largest first
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['day', 86400],
+  ['hour', 3600],
+  ['minute', 60],
+];
+
+// e.g. "5m ago" in English; dates over a month old are shown in full
+export const formatRelativeTime = (
+  date: Date | string,
+  locale = getActiveLocale()
+): string => {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
   const now = new Date();
   const diffInSeconds = Math.floor((now.getTime() - dateObj.getTime()) / 1000);
 
-  if (diffInSeconds < 60) return 'just now';
-  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
-  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
-  if (diffInSeconds < 2592000)
-    return `${Math.floor(diffInSeconds / 86400)}d ago`;
+  if (diffInSeconds < 60) {
+    return new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(
+      0,
+      'second'
+    );
+  }
+  if (diffInSeconds >= 2592000) {
+    return formatDate(dateObj, { month: 'short', day: 'numeric' }, locale);
+  }
 
-  return formatDate(dateObj, { month: 'short', day: 'numeric' });
+  const [unit, seconds] = RELATIVE_TIME_UNITS.find(
+    ([, unitSeconds]) => diffInSeconds >= unitSeconds
+  )!;
+  return new Intl.RelativeTimeFormat(locale, { style: 'narrow' }).format(
+    -Math.floor(diffInSeconds / seconds),
+    unit
+  );
 };
 
 export const isToday = (date: Date | string): boolean => {
@@ -0,0 +1,203 @@
+// A small subset of ICU MessageFormat, enough for our catalogs:
+//
+//   Hello {name}
+//   {count, plural, =0 {No messages} one {# message} other {# messages}}
+//   {scheme, select, dark {Dark} other {Light}}
+//
+// Plural categories come from Intl.PluralRules for the locale and `#` is the
+// localized number. An apostrophe quotes a following brace or `#`, and `''`
+// is a literal apostrophe, as in ICU.
+
+type MessageValue = string | number;
+type MessageValues = Record<string, MessageValue>;
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | {
+      type: 'plural' | 'select';
+      name: string;
+      options: Record<string, MessageNode[]>;
+    };
+
+const SPECIAL_CHARACTERS = '{}#';
+
+const parseMessage = (message: string): MessageNode[] => {
+  let position = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`${reason} at position ${position} in "${message}"`);
+  };
+
+  const skipWhitespace = () => {
+    while (/\s/.test(message[position] ?? '')) position++;
+  };
+
+  const readUntil = (stops: string): string => {
+    const start = position;
+    while (position < message.length && !stops.includes(message[position])) {
+      position++;
+    }
+    if (position >= message.length) fail('Unterminated argument');
+    return message.slice(start, position).trim();
+  };
+
+  const parseNodes = (inPlural: boolean, nested: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (position < message.length) {
+      const char = message[position];
+
+      if (char === '}') {
+        if (!nested) fail('Unexpected "}"');
+        break;
+      }
+
+      if (char === "'") {
+        const next = message[position + 1];
+        if (next === "'") {
+          text += "'";
+          position += 2;
+        } else if (next !== undefined && SPECIAL_CHARACTERS.includes(next)) {
+          const end = message.indexOf("'", position + 1);
+          text += message.slice(position + 1, end === -1 ? undefined : end);
+          position = end === -1 ? message.length : end + 1;
+        } else {
+          text += char;
+          position++;
+        }
+        continue;
+      }
+
+      if (char === '{') {
+        flushText();
+        position++;
+        nodes.push(parseArgument(inPlural));
+        continue;
+      }
+
+      if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        position++;
+        continue;
+      }
+
+      text += char;
+      position++;
+    }
+
+    flushText();
+    return nodes;
+  };
+
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    const name = readUntil(',}');
+    if (!name) fail('Missing argument name');
+    if (message[position] === '}') {
+      position++;
+      return { type: 'argument', name };
+    }
+
+    position++;
+    const type = readUntil(',}');
+    if (type !== 'plural' && type !== 'select') {
+      fail(`Unsupported argument type "${type}"`);
+    }
+    if (message[position] !== ',') fail(`Missing ${type} options`);
+    position++;
+
+    const options: Record<string, MessageNode[]> = {};
+    skipWhitespace();
+    while (message[position] !== '}') {
+      const key = readUntil('{');
+      if (!key) fail('Missing option key');
+      position++;
+      options[key] = parseNodes(inPlural || type === 'plural', true);
+      if (message[position] !== '}') fail('Unterminated option');
+      position++;
+      skipWhitespace();
+      if (position >= message.length) fail('Unterminated argument');
+    }
+    position++;
+
+    if (!options.other) fail(`Missing "other" option for "${name}"`);
+    return { type: type as 'plural' | 'select', name, options };
+  };
+
+  return parseNodes(false, false);
+};
+
+// Catalog messages are formatted over and over, so parse each one once
+const parsedMessages = new Map<string, MessageNode[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const getPluralRules = (locale: string): Intl.PluralRules => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules;
+};
+
+const formatNodes = (
+  nodes: MessageNode[],
+  values: MessageValues,
+  locale: string,
+  pluralValue?: number
+): string =>
+  nodes
+    .map(node => {
+      if (typeof node === 'string') return node;
+
+      if (node.type === 'pound') {
+        return pluralValue === undefined
+          ? '#'
+          : new Intl.NumberFormat(locale).format(pluralValue);
+      }
+
+      const value = values[node.name];
+
+      if (node.type === 'argument') {
+        if (value === undefined) return `{${node.name}}`;
+        return typeof value === 'number'
+          ? new Intl.NumberFormat(locale).format(value)
+          : value;
+      }
+
+      if (node.type === 'plural') {
+        const count = Number(value);
+        const branch =
+          node.options[`=${count}`] ??
+          node.options[getPluralRules(locale).select(count)] ??
+          node.options.other;
+        return formatNodes(branch, values, locale, count);
+      }
+
+      const branch = node.options[String(value)] ?? node.options.other;
+      return formatNodes(branch, values, locale, pluralValue);
+    })
+    .join('');
+
+// Throws when the message is malformed
+export const formatMessage = (
+  message: string,
+  values: MessageValues = {},
+  locale = 'en-US'
+): string => {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    nodes = parseMessage(message);
+    parsedMessages.set(message, nodes);
+  }
+  return formatNodes(nodes, values, locale);
+};
+
+export type { MessageValue, MessageValues };
@@ -0,0 +1,38 @@
+import { RouteConfig, User, UserRole } from '@/types';
+
+// Check whether a user holds one of the given roles. An empty or missing
+// role list means any authenticated user is allowed.
+export const hasRole = (user: User | null, roles?: UserRole[]): boolean => {
+  if (!user) return false;
+  if (!roles || roles.length === 0) return true;
+  return roles.includes(user.role);
+};
+
+// Routes that restrict roles are implicitly protected
+export const requiresAuth = (route: Pick<RouteConfig, 'protected' | 'roles'>) =>
+  Boolean(route.protected || (route.roles && route.roles.length > 0));
+
+export const canAccessRoute = (
+  route: Pick<RouteConfig, 'protected' | 'roles'>,
+  user: User | null
+): boolean => !requiresAuth(route) || hasRole(user, route.roles);
+
+// User management. Admins manage everyone but themselves; moderators only
+// manage regular users and can't promote anyone.
+export const getAssignableRoles = (actor: User | null): UserRole[] => {
+  switch (actor?.role) {
+    case UserRole.ADMIN:
+      return [UserRole.USER, UserRole.MODERATOR, UserRole.ADMIN];
+    case UserRole.MODERATOR:
+      return [UserRole.USER];
+    default:
+      return [];
+  }
+};
+
+// Whether actor may edit, deactivate or delete target. Nobody manages their
+// own account from the admin screens, so they can't lock themselves out.
+export const canManageUser = (actor: User | null, target: User): boolean =>
+  !!actor &&
+  actor.id !== target.id &&
+  getAssignableRoles(actor).includes(target.role);
@@ -0,0 +1,184 @@
+// Small runtime schemas for data that crosses the API boundary. A schema
+// checks a value and reports every mismatch with its path, so backend
+// contract drift shows up as "user.role: Expected one of ..." instead of an
+// undefined-property crash further down the tree.
+
+type SchemaPath = Array<string | number>;
+
+interface SchemaIssue {
+  // Dotted path to the offending value, e.g. "items[2].name"
+  path: string;
+  message: string;
+}
+
+type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+interface Schema<T> {
+  // Records issues for value (found at path) and returns it typed as T
+  validate(value: unknown, path: SchemaPath, issues: SchemaIssue[]): T;
+  safeParse(value: unknown): SchemaResult<T>;
+  optional(): Schema<T | undefined>;
+  nullable(): Schema<T | null>;
+  refine(predicate: (value: T) => boolean, message: string): Schema<T>;
+}
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type ObjectShape = Record<string, Schema<unknown>>;
+
+// Keys whose schema accepts undefined become optional properties
+type InferShape<S extends ObjectShape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+// Helpers
+export const formatSchemaPath = (path: SchemaPath): string =>
+  path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const addIssue = (
+  issues: SchemaIssue[],
+  path: SchemaPath,
+  message: string
+): void => {
+  issues.push({ path: formatSchemaPath(path), message });
+};
+
+function createSchema<T>(validate: Schema<T>['validate']): Schema<T> {
+  return {
+    validate,
+
+    safeParse(value) {
+      const issues: SchemaIssue[] = [];
+      const data = validate(value, [], issues);
+      return issues.length > 0
+        ? { success: false, issues }
+        : { success: true, data };
+    },
+
+    optional() {
+      return createSchema<T | undefined>((value, path, issues) =>
+        value === undefined ? undefined : validate(value, path, issues)
+      );
+    },
+
+    nullable() {
+      return createSchema<T | null>((value, path, issues) =>
+        value === null ? null : validate(value, path, issues)
+      );
+    },
+
+    refine(predicate, message) {
+      return createSchema<T>((value, path, issues) => {
+        const issueCount = issues.length;
+        const result = validate(value, path, issues);
+        // Only refine values that already have the right shape
+        if (issues.length === issueCount && !predicate(result)) {
+          addIssue(issues, path, message);
+        }
+        return result;
+      });
+    },
+  };
+}
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean') =>
+  createSchema<T>((value, path, issues) => {
+    if (typeof value !== type || Number.isNaN(value)) {
+      addIssue(
+        issues,
+        path,
+        `Expected ${type}, received ${describeValue(value)}`
+      );
+    }
+    return value as T;
+  });
+
+// Builders
+export const schema = {
+  string: () => primitive<string>('string'),
+
+  number: () => primitive<number>('number'),
+
+  boolean: () => primitive<boolean>('boolean'),
+
+  unknown: () => createSchema<unknown>(value => value),
+
+  literal: <T extends string | number | boolean>(expected: T) =>
+    createSchema<T>((value, path, issues) => {
+      if (value !== expected) {
+        addIssue(
+          issues,
+          path,
+          `Expected ${JSON.stringify(expected)}, received ${JSON.stringify(value)}`
+        );
+      }
+      return value as T;
+    }),
+
+  // One of a fixed set of values, e.g. Object.values(UserRole)
+  oneOf: <T extends string | number>(values: readonly T[]) =>
+    createSchema<T>((value, path, issues) => {
+      if (!values.includes(value as T)) {
+        addIssue(
+          issues,
+          path,
+          `Expected one of ${values.join(', ')}, received ${JSON.stringify(value)}`
+        );
+      }
+      return value as T;
+    }),
+
+  array: <T>(item: Schema<T>) =>
+    createSchema<T[]>((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        addIssue(
+          issues,
+          path,
+          `Expected array, received ${describeValue(value)}`
+        );
+        return value as T[];
+      }
+      value.forEach((entry, index) => {
+        item.validate(entry, [...path, index], issues);
+      });
+      return value as T[];
+    }),
+
+  // Unknown keys are allowed so the backend can add fields without breaking us
+  object: <S extends ObjectShape>(shape: S) =>
+    createSchema<InferShape<S>>((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        addIssue(
+          issues,
+          path,
+          `Expected object, received ${describeValue(value)}`
+        );
+        return value as InferShape<S>;
+      }
+      Object.entries(shape).forEach(([key, property]) => {
+        property.validate(
+          (value as Record<string, unknown>)[key],
+          [...path, key],
+          issues
+        );
+      });
+      return value as InferShape<S>;
+    }),
+};
+
+export type { Infer, Schema, SchemaIssue, SchemaResult };
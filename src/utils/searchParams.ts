@@ -0,0 +1,82 @@
+import { SearchFilters } from '@/types';
+
+// Converts SearchFilters to and from query-string parameters, so list
+// views can put them in the URL and send them to the API
+
+type FilterParams = Record<string, string>;
+
+const STRING_FILTERS = ['query', 'category', 'status', 'sortBy'] as const;
+
+// Dates are sent as local calendar days (YYYY-MM-DD). toISOString() would
+// shift a date picked at local midnight to the previous day in UTC+ zones.
+const formatDay = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+const parseDay = (value: string | null): Date | null => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const serializeFilters = (filters: SearchFilters): FilterParams => {
+  const params: FilterParams = {};
+
+  STRING_FILTERS.forEach(key => {
+    const value = filters[key]?.trim();
+    if (value) params[key] = value;
+  });
+  if (filters.sortBy && filters.sortOrder) {
+    params.sortOrder = filters.sortOrder;
+  }
+  if (filters.dateRange) {
+    params.startDate = formatDay(filters.dateRange.start);
+    params.endDate = formatDay(filters.dateRange.end);
+  }
+
+  return params;
+};
+
+export const parseFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+
+  STRING_FILTERS.forEach(key => {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  });
+  const sortOrder = params.get('sortOrder');
+  if (sortOrder === 'asc' || sortOrder === 'desc') {
+    filters.sortOrder = sortOrder;
+  }
+  const start = parseDay(params.get('startDate'));
+  const end = parseDay(params.get('endDate'));
+  if (start && end) {
+    filters.dateRange = { start, end };
+  }
+
+  return filters;
+};
+
+// Names of every parameter the filters above can occupy
+export const FILTER_PARAM_NAMES = [
+  ...STRING_FILTERS,
+  'sortOrder',
+  'startDate',
+  'endDate',
+];
+
+export const buildUrlWithParams = (
+  url: string,
+  params: Record<string, string | number | undefined>
+): string => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  const query = search.toString();
+  if (!query) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
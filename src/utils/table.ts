@@ -0,0 +1,85 @@
+import { get } from 'lodash-es';
+import { SortDirection, TableColumn } from '@/types';
+
+// Helpers behind DataTable's client-side mode and row windowing
+
+export const getCellValue = <T>(record: T, column: TableColumn<T>): unknown =>
+  column.accessor ? column.accessor(record) : get(record, column.key);
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === '';
+
+// Orders numbers, dates and booleans by value and strings naturally
+// ("item 2" before "item 10"). Empty values always sort last.
+export const compareValues = (a: unknown, b: unknown): number => {
+  if (isEmptyValue(a) || isEmptyValue(b)) {
+    return Number(isEmptyValue(a)) - Number(isEmptyValue(b));
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b), undefined, {
+    numeric: true,
+    sensitivity: 'base',
+  });
+};
+
+export const sortRows = <T>(
+  rows: T[],
+  column: TableColumn<T>,
+  direction: SortDirection
+): T[] => {
+  const factor = direction === 'asc' ? 1 : -1;
+  const compare =
+    column.compare ??
+    ((a: T, b: T) =>
+      compareValues(getCellValue(a, column), getCellValue(b, column)));
+
+  // Keep empty values last in both directions
+  return [...rows].sort((a, b) => {
+    const aEmpty = isEmptyValue(getCellValue(a, column));
+    const bEmpty = isEmptyValue(getCellValue(b, column));
+    if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+    return compare(a, b) * factor;
+  });
+};
+
+// Text filters match case-insensitively anywhere in the value; columns
+// with filterOptions require an exact match
+export const filterRows = <T>(
+  rows: T[],
+  columns: TableColumn<T>[],
+  filters: Record<string, string>
+): T[] => {
+  const active = columns.filter(column => filters[String(column.key)]);
+  if (active.length === 0) return rows;
+
+  return rows.filter(record =>
+    active.every(column => {
+      const filter = filters[String(column.key)];
+      const value = String(getCellValue(record, column) ?? '');
+      return column.filterOptions
+        ? value === filter
+        : value.toLowerCase().includes(filter.toLowerCase());
+    })
+  );
+};
+
+// Rows to render for a scrolled viewport, padded by overscan on both sides
+export const getVisibleRange = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 5
+): { start: number; end: number } => {
+  const first = Math.floor(scrollTop / rowHeight);
+  const visible = Math.ceil(viewportHeight / rowHeight);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowCount, first + visible + overscan),
+  };
+};
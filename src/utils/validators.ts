@@ -0,0 +1,96 @@
+import { VALIDATION } from '@/constants';
+import { isEmail, isEmpty, isPhoneNumber, isUrl } from '@/utils';
+
+// Form field validators. Each returns an error message, or undefined when
+// the value is valid; async validators (e.g. "is this email taken?") return
+// a promise of the same.
+type ValidationResult = string | undefined;
+
+type Validator<V = unknown, T = object> = (
+  value: V,
+  values: T
+) => ValidationResult | Promise<ValidationResult>;
+
+// Format validators skip empty values, so optional fields stay valid;
+// combine them with required() for mandatory ones
+const isBlank = (value: unknown) =>
+  isEmpty(value) && typeof value !== 'number' && typeof value !== 'boolean';
+
+// Lets forms mark fields validated by required() as required inputs
+const requiredValidators = new WeakSet<object>();
+
+export const isRequiredValidator = (validator: object): boolean =>
+  requiredValidators.has(validator);
+
+export const required = (message = 'This field is required'): Validator => {
+  const validator: Validator = value =>
+    isBlank(value) || value === false ? message : undefined;
+  requiredValidators.add(validator);
+  return validator;
+};
+
+export const email =
+  (message = 'Enter a valid email address'): Validator =>
+  value =>
+    isBlank(value) || isEmail(String(value)) ? undefined : message;
+
+export const phoneNumber =
+  (message = 'Enter a valid phone number'): Validator =>
+  value =>
+    isBlank(value) || isPhoneNumber(String(value)) ? undefined : message;
+
+export const url =
+  (message = 'Enter a valid URL'): Validator =>
+  value =>
+    isBlank(value) || isUrl(String(value)) ? undefined : message;
+
+export const pattern =
+  (regex: RegExp, message = 'Invalid format'): Validator =>
+  value =>
+    isBlank(value) || regex.test(String(value)) ? undefined : message;
+
+export const minLength =
+  (length: number, message?: string): Validator =>
+  value =>
+    isBlank(value) || String(value).length >= length
+      ? undefined
+      : (message ?? `Must be at least ${length} characters`);
+
+export const maxLength =
+  (length: number, message?: string): Validator =>
+  value =>
+    isBlank(value) || String(value).length <= length
+      ? undefined
+      : (message ?? `Must be at most ${length} characters`);
+
+export const password = (message?: string): Validator =>
+  minLength(
+    VALIDATION.PASSWORD_MIN_LENGTH,
+    message ??
+      `Password must be at least ${VALIDATION.PASSWORD_MIN_LENGTH} characters`
+  );
+
+// Must equal another top-level field, e.g. a password confirmation
+export const matchesField =
+  (field: string, message = 'Values do not match'): Validator =>
+  (value, values) =>
+    value === (values as Record<string, unknown>)[field] ? undefined : message;
+
+// Runs validators in order and reports the first error. Stays synchronous
+// until a validator returns a promise, so sync-only chains can validate on
+// every keystroke.
+export const compose =
+  <V, T>(...validators: Validator<V, T>[]): Validator<V, T> =>
+  (value, values) => {
+    for (let index = 0; index < validators.length; index++) {
+      const result = validators[index](value, values);
+      if (result instanceof Promise) {
+        const rest = compose(...validators.slice(index + 1));
+        return result.then(error => error ?? rest(value, values));
+      }
+      if (result) return result;
+    }
+    return undefined;
+  };
+
+export type { ValidationResult, Validator };
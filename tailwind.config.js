@@ -1,6 +1,8 @@
 /** @type {import('tailwindcss').Config} */
 export default {
   content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  // The ThemeProvider toggles this class along with Mantine's color scheme
+  darkMode: 'class',
   theme: {
     extend: {
       colors: {